@@ -0,0 +1,488 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    escapeAmpersands,
+    escapeDoubleQuotes,
+    escapeLeftAngleBrackets
+} from "./escape";
+import {xmlNamespace} from "./names";
+import {INamespaces, IResolvedNames, resolveNames} from "./namespaces";
+import XmlAttribute from "./nodes/XmlAttribute";
+import XmlCdata from "./nodes/XmlCdata";
+import XmlCharRef from "./nodes/XmlCharRef";
+import XmlComment from "./nodes/XmlComment";
+import XmlDocument from "./nodes/XmlDocument";
+import XmlElement from "./nodes/XmlElement";
+import XmlEntityRef from "./nodes/XmlEntityRef";
+import XmlNode from "./nodes/XmlNode";
+import XmlProcInst from "./nodes/XmlProcInst";
+import XmlText from "./nodes/XmlText";
+import {CanonicalOptions, ICanonicalOptions} from "./options";
+import {isString, isUndefined} from "./utils";
+
+/**
+ * An attribute of an element in the canonical form.
+ *
+ * @private
+ */
+interface ICanonicalAttribute {
+    /**
+     * The local part of the name of the attribute.
+     */
+    localName: string;
+    /**
+     * The qualified name of the attribute.
+     */
+    name: string;
+    /**
+     * The namespace name of the attribute, or the empty string if the
+     * attribute is not in a namespace.
+     */
+    namespace: string;
+    /**
+     * The normalized value of the attribute.
+     */
+    value: string;
+}
+
+/**
+ * The replacement text of the entities predefined by the XML specification.
+ *
+ * @private
+ */
+const predefinedEntities: {[entity: string]: string} = {
+    amp: "&",
+    apos: "'",
+    gt: ">",
+    lt: "<",
+    quot: "\""
+};
+
+/**
+ * Returns the canonical form of the specified document or element, as defined
+ * by the W3C Canonical XML 1.0 or Exclusive XML Canonicalization 1.0
+ * recommendations.
+ *
+ * The nodes are treated as the document represented by their string
+ * representation, so line breaks in text are normalized and whitespace in
+ * attribute values is normalized as if the attributes were of type CDATA.
+ * Character references and CDATA sections are replaced with the characters
+ * they represent, and references to the predefined entities are replaced with
+ * their replacement text. Declarations in the DTD, including default attribute
+ * values, are not taken into account.
+ *
+ * If an element is specified, the canonical form of the subset of the document
+ * consisting of that element and its descendants is returned. The namespace
+ * declarations in scope at that element are included, as are the `xml`
+ * attributes of its ancestors unless the exclusive canonical form is
+ * generated.
+ *
+ * @param node The document or element.
+ * @param options The options used when generating the canonical form.
+ *
+ * @returns The canonical form of the document or element.
+ *
+ * @private
+ */
+export function toCanonicalString(node: XmlNode,
+                                  options: ICanonicalOptions = {}): string
+{
+    const optionsObj = new CanonicalOptions(options);
+
+    if (node instanceof XmlDocument) {
+        let str = "";
+        let afterRoot = false;
+        for (const child of node.children()) {
+            if (child instanceof XmlElement) {
+                str += canonicalizeElement(child, undefined, {}, [],
+                                           optionsObj);
+                afterRoot = true;
+            } else if (child instanceof XmlComment
+                       || child instanceof XmlProcInst)
+            {
+                const childStr = canonicalizeChild(child, undefined, {},
+                                                   optionsObj);
+                if (childStr.length > 0) {
+                    str += afterRoot ? "\n" + childStr : childStr + "\n";
+                }
+            }
+        }
+        return str;
+    } else if (node instanceof XmlElement) {
+        // Gather the context provided by the omitted ancestors
+        const ancestors: XmlElement[] = [];
+        let parent = node.parent;
+        while (parent instanceof XmlElement) {
+            ancestors.unshift(parent);
+            parent = parent.parent;
+        }
+        let scope: INamespaces | undefined;
+        const inherited: ICanonicalAttribute[] = [];
+        for (const ancestor of ancestors) {
+            const names = resolveNames(ancestor, scope);
+            scope = names.scope;
+            const attributes = ancestor.attributes();
+            for (let i = 0; i < attributes.length; i++) {
+                const name = names.attributes[i];
+                if (optionsObj.exclusive || name.indexOf("xml:") !== 0) {
+                    continue;
+                }
+                for (let j = 0; j < inherited.length; j++) {
+                    if (inherited[j].name === name) {
+                        inherited.splice(j, 1);
+                        break;
+                    }
+                }
+                inherited.push(canonicalizeAttribute(attributes[i], name,
+                                                     scope));
+            }
+        }
+        return canonicalizeElement(node, scope, {}, inherited, optionsObj);
+    }
+
+    throw new TypeError("node should be an instance of XmlDocument or"
+                        + " XmlElement");
+}
+
+/**
+ * Returns the canonical form of the specified child of an element or
+ * document.
+ *
+ * @param node The child.
+ * @param inScope The namespaces in scope at the parent of the child, or
+ *                undefined if the child is the root element.
+ * @param rendered The namespace declarations in effect at the parent of the
+ *                 child in the canonical form.
+ * @param options The options used when generating the canonical form.
+ *
+ * @returns The canonical form of the child.
+ *
+ * @private
+ */
+function canonicalizeChild(node: XmlNode, inScope: INamespaces | undefined,
+                           rendered: INamespaces,
+                           options: CanonicalOptions): string
+{
+    if (node instanceof XmlElement) {
+        return canonicalizeElement(node, inScope, rendered, [], options);
+    } else if (node instanceof XmlText) {
+        return escapeText(normalizeNewlines(node.text));
+    } else if (node instanceof XmlCdata) {
+        return escapeText(normalizeNewlines(node.data));
+    } else if (node instanceof XmlCharRef) {
+        return escapeText(node.char);
+    } else if (node instanceof XmlEntityRef) {
+        return escapeText(resolveEntity(node));
+    } else if (node instanceof XmlComment) {
+        if (!options.withComments) {
+            return "";
+        }
+        return "<!--" + normalizeNewlines(node.content) + "-->";
+    } else if (node instanceof XmlProcInst) {
+        let str = "<?" + node.target;
+        // The leading whitespace is not part of the data
+        const content = isString(node.content)
+                        ? node.content.replace(/^[ \t\r\n]+/, "")
+                        : "";
+        if (content.length > 0) {
+            str += " " + normalizeNewlines(content);
+        }
+        return str + "?>";
+    }
+    return "";
+}
+
+/**
+ * Returns the canonical form of the specified element.
+ *
+ * @param element The element.
+ * @param parentInScope The namespaces in scope at the parent of the element,
+ *                      or undefined if the element is the root element.
+ * @param rendered The namespace declarations in effect at the nearest
+ *                 ancestor of the element included in the canonical form.
+ * @param inherited The `xml` attributes inherited from omitted ancestors.
+ * @param options The options used when generating the canonical form.
+ *
+ * @returns The canonical form of the element.
+ *
+ * @private
+ */
+function canonicalizeElement(element: XmlElement,
+                             parentInScope: INamespaces | undefined,
+                             rendered: INamespaces,
+                             inherited: ICanonicalAttribute[],
+                             options: CanonicalOptions): string
+{
+    // The names of namespace-aware elements and attributes are resolved the
+    // same way as in the string representation
+    const names = resolveNames(element, parentInScope);
+    const inScope = names.scope;
+
+    // Namespace declarations that differ from those already in effect; in
+    // the exclusive canonical form, only those visibly used by the element
+    // or listed in the InclusiveNamespaces PrefixList are considered
+    let prefixes = Object.keys(inScope).filter(prefix => prefix !== "xml");
+    if (options.exclusive) {
+        prefixes = getVisiblyUsedPrefixes(names);
+        for (let prefix of options.inclusiveNamespaces) {
+            prefix = prefix === "#default" ? "" : prefix;
+            if (prefix === "" || !isUndefined(inScope[prefix])) {
+                prefixes.push(prefix);
+            }
+        }
+    }
+    prefixes = prefixes.filter((p, i) => prefixes.indexOf(p) === i)
+                       .sort(compareCodePoints);
+    const childRendered: INamespaces = {};
+    for (const prefix of Object.keys(rendered)) {
+        childRendered[prefix] = rendered[prefix];
+    }
+    let str = "<" + names.name;
+    for (const prefix of prefixes) {
+        const uri = inScope[prefix] || "";
+        if (uri !== (rendered[prefix] || "")) {
+            str += " " + (prefix === "" ? "xmlns" : "xmlns:" + prefix) + "=\""
+                   + escapeAttribute(uri) + "\"";
+            childRendered[prefix] = uri;
+        }
+    }
+
+    // Attributes sorted by namespace name and then by local name
+    const canonicalAttributes: ICanonicalAttribute[] = [];
+    const attributes = element.attributes();
+    for (let i = 0; i < attributes.length; i++) {
+        if (!isNamespaceDeclaration(names.attributes[i])) {
+            canonicalAttributes.push(canonicalizeAttribute(
+                attributes[i], names.attributes[i], inScope));
+        }
+    }
+    for (const attribute of inherited) {
+        if (canonicalAttributes.every(a => a.name !== attribute.name)) {
+            canonicalAttributes.push(attribute);
+        }
+    }
+    canonicalAttributes.sort((a, b) => {
+        return compareCodePoints(a.namespace, b.namespace)
+               || compareCodePoints(a.localName, b.localName);
+    });
+    for (const attribute of canonicalAttributes) {
+        str += " " + attribute.name + "=\"" + escapeAttribute(attribute.value)
+               + "\"";
+    }
+    str += ">";
+
+    for (const child of element.children()) {
+        if (!(child instanceof XmlAttribute)) {
+            str += canonicalizeChild(child, inScope, childRendered, options);
+        }
+    }
+    return str + "</" + names.name + ">";
+}
+
+/**
+ * Returns the name and normalized value of the specified attribute.
+ *
+ * @param attribute The attribute.
+ * @param name The qualified name of the attribute.
+ * @param inScope The namespaces in scope at the element containing the
+ *                attribute.
+ *
+ * @returns The name and normalized value of the attribute.
+ *
+ * @private
+ */
+function canonicalizeAttribute(attribute: XmlAttribute, name: string,
+                               inScope: INamespaces): ICanonicalAttribute
+{
+    const colon = name.indexOf(":");
+    let namespace = "";
+    if (colon !== -1) {
+        const prefix = name.substring(0, colon);
+        namespace = prefix === "xml" ? xmlNamespace : inScope[prefix];
+        if (isUndefined(namespace)) {
+            throw new Error("prefix " + prefix + " of attribute " + name
+                            + " is not declared");
+        }
+    }
+
+    return {
+        localName: name.substring(colon + 1),
+        name,
+        namespace,
+        value: getValue(attribute)
+    };
+}
+
+/**
+ * Compares the specified strings by the Unicode code points of their
+ * characters, rather than by their UTF-16 code units.
+ *
+ * @param a The first string.
+ * @param b The second string.
+ *
+ * @returns A negative number if the first string precedes the second, a
+ *          positive number if it follows the second, or zero if they are
+ *          equal.
+ *
+ * @private
+ */
+function compareCodePoints(a: string, b: string): number {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        let x = a.charCodeAt(i);
+        let y = b.charCodeAt(i);
+        if (x !== y) {
+            // Surrogates represent code points above all other code units
+            x += x >= 0xE000 ? -0x800 : x >= 0xD800 ? 0x2000 : 0;
+            y += y >= 0xE000 ? -0x800 : y >= 0xD800 ? 0x2000 : 0;
+            return x - y;
+        }
+    }
+    return a.length - b.length;
+}
+
+/**
+ * Escapes the specified attribute value as required by the canonical form.
+ *
+ * @param str The attribute value.
+ *
+ * @returns The escaped attribute value.
+ *
+ * @private
+ */
+function escapeAttribute(str: string): string {
+    return escapeDoubleQuotes(escapeLeftAngleBrackets(escapeAmpersands(str)))
+        .replace(/\t/g, "&#x9;")
+        .replace(/\n/g, "&#xA;")
+        .replace(/\r/g, "&#xD;");
+}
+
+/**
+ * Escapes the specified character data as required by the canonical form.
+ *
+ * @param str The character data.
+ *
+ * @returns The escaped character data.
+ *
+ * @private
+ */
+function escapeText(str: string): string {
+    return escapeLeftAngleBrackets(escapeAmpersands(str))
+        .replace(/>/g, "&gt;")
+        .replace(/\r/g, "&#xD;");
+}
+
+/**
+ * Returns the namespace prefixes visibly used by an element, which are the
+ * prefixes of its name and of the names of its attributes. The default
+ * namespace is visibly used if the name of the element has no prefix.
+ *
+ * @param names The resolved names of the element and its attributes.
+ *
+ * @returns The prefixes visibly used by the element.
+ *
+ * @private
+ */
+function getVisiblyUsedPrefixes(names: IResolvedNames): string[] {
+    const colon = names.name.indexOf(":");
+    const prefix = colon === -1 ? "" : names.name.substring(0, colon);
+    if (prefix !== "" && isUndefined(names.scope[prefix])) {
+        throw new Error("prefix " + prefix + " of element " + names.name
+                        + " is not declared");
+    }
+
+    const prefixes = [prefix];
+    for (const name of names.attributes) {
+        if (!isNamespaceDeclaration(name) && name.indexOf(":") !== -1
+            && name.indexOf("xml:") !== 0)
+        {
+            prefixes.push(name.substring(0, name.indexOf(":")));
+        }
+    }
+    return prefixes;
+}
+
+/**
+ * Returns the value of the specified attribute after attribute-value
+ * normalization.
+ *
+ * @param attribute The attribute.
+ *
+ * @returns The normalized value of the attribute.
+ *
+ * @private
+ */
+function getValue(attribute: XmlAttribute): string {
+    let value = "";
+    for (const node of attribute.children()) {
+        if (node instanceof XmlText) {
+            value += normalizeNewlines(node.text).replace(/[\t\n]/g, " ");
+        } else if (node instanceof XmlCharRef) {
+            value += node.char;
+        } else if (node instanceof XmlEntityRef) {
+            value += resolveEntity(node);
+        }
+    }
+    return value;
+}
+
+/**
+ * Returns true if the specified attribute name is that of a namespace
+ * declaration.
+ *
+ * @param name The attribute name.
+ *
+ * @returns Whether the attribute name is that of a namespace declaration.
+ *
+ * @private
+ */
+function isNamespaceDeclaration(name: string): boolean {
+    return name === "xmlns" || name.indexOf("xmlns:") === 0;
+}
+
+/**
+ * Replaces each carriage return and carriage return followed by a line feed
+ * in the specified string with a line feed.
+ *
+ * @param str The string.
+ *
+ * @returns The normalized string.
+ *
+ * @private
+ */
+function normalizeNewlines(str: string): string {
+    return str.replace(/\r\n?/g, "\n");
+}
+
+/**
+ * Returns the replacement text of the specified entity reference. Only the
+ * entities predefined by the XML specification can be resolved.
+ *
+ * @param node The entity reference.
+ *
+ * @returns The replacement text of the entity.
+ *
+ * @private
+ */
+function resolveEntity(node: XmlEntityRef): string {
+    if (!predefinedEntities.hasOwnProperty(node.entity)) {
+        throw new Error("reference to entity " + node.entity + " cannot be"
+                        + " canonicalized because its replacement text is"
+                        + " unknown");
+    }
+    return predefinedEntities[node.entity];
+}
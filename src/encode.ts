@@ -0,0 +1,142 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {getCodePoint} from "./utils";
+
+/**
+ * The Node.js `Buffer` class, which is not available in all environments.
+ *
+ * @private
+ */
+declare const Buffer: {
+    from(buffer: ArrayBuffer, byteOffset: number, length: number): Uint8Array;
+};
+
+/**
+ * Returns the highest code point that can be represented in the specified
+ * encoding.
+ *
+ * Only the UTF-8, UTF-16, UTF-16LE, UTF-16BE, ISO-8859-1, and US-ASCII
+ * encodings are supported. Encoding names are case-insensitive.
+ *
+ * @param encoding The name of the encoding.
+ *
+ * @returns The highest code point that can be represented in the encoding.
+ *
+ * @private
+ */
+export function getMaxCodePoint(encoding: string): number {
+    switch (encoding.toUpperCase()) {
+        case "UTF-8":
+        case "UTF-16":
+        case "UTF-16LE":
+        case "UTF-16BE":
+            return 0x10FFFF;
+        case "ISO-8859-1":
+            return 0xFF;
+        case "US-ASCII":
+            return 0x7F;
+        default:
+            throw new Error("encoding " + encoding + " is not supported");
+    }
+}
+
+/**
+ * Encodes the specified string using the specified encoding. In Node.js, the
+ * result is a `Buffer`.
+ *
+ * Throws an exception if the string contains a character that cannot be
+ * represented in the encoding.
+ *
+ * @param str The string to encode.
+ * @param encoding The name of the encoding.
+ * @param bom Whether a byte order mark should be written. If undefined, a
+ *            byte order mark is only written for the UTF-16 encoding.
+ *
+ * @returns The encoded string.
+ *
+ * @private
+ */
+export function encode(str: string, encoding: string,
+                       bom?: boolean): Uint8Array
+{
+    const name = encoding.toUpperCase();
+    const maxCodePoint = getMaxCodePoint(encoding);
+    if (name === "UTF-16") {
+        if (bom === false) {
+            throw new Error("a byte order mark is required for encoding "
+                            + encoding);
+        }
+        bom = true;
+    } else if (bom && name !== "UTF-8") {
+        throw new Error("a byte order mark cannot be used with encoding "
+                        + encoding);
+    }
+
+    const bytes = new Uint8Array(str.length * 3 + 3);
+    let length = 0;
+    if (bom) {
+        str = "\uFEFF" + str;
+    }
+    for (let i = 0; i < str.length; i++) {
+        const codePoint = getCodePoint(str, i);
+        if (codePoint > maxCodePoint) {
+            const hex = codePoint.toString(16).toUpperCase();
+            throw new Error("character U+" + hex + " cannot be represented"
+                            + " in encoding " + encoding
+                            + "; only characters in text and attribute values"
+                            + " can be replaced with character references");
+        }
+
+        if (name === "UTF-8") {
+            if (codePoint < 0x80) {
+                bytes[length++] = codePoint;
+            } else if (codePoint < 0x800) {
+                bytes[length++] = 0xC0 + Math.floor(codePoint / 0x40);
+                bytes[length++] = 0x80 + codePoint % 0x40;
+            } else if (codePoint < 0x10000) {
+                bytes[length++] = 0xE0 + Math.floor(codePoint / 0x1000);
+                bytes[length++] = 0x80 + Math.floor(codePoint / 0x40) % 0x40;
+                bytes[length++] = 0x80 + codePoint % 0x40;
+            } else {
+                bytes[length++] = 0xF0 + Math.floor(codePoint / 0x40000);
+                bytes[length++] = 0x80 + Math.floor(codePoint / 0x1000) % 0x40;
+                bytes[length++] = 0x80 + Math.floor(codePoint / 0x40) % 0x40;
+                bytes[length++] = 0x80 + codePoint % 0x40;
+                i++;
+            }
+        } else if (name === "ISO-8859-1" || name === "US-ASCII") {
+            bytes[length++] = codePoint;
+        } else {
+            // UTF-16 code units are written individually, so surrogate
+            // pairs need no special handling
+            const unit = str.charCodeAt(i);
+            if (name === "UTF-16LE") {
+                bytes[length++] = unit % 0x100;
+                bytes[length++] = Math.floor(unit / 0x100);
+            } else {
+                bytes[length++] = Math.floor(unit / 0x100);
+                bytes[length++] = unit % 0x100;
+            }
+        }
+    }
+
+    const result = bytes.subarray(0, length);
+    if (typeof Buffer !== "undefined") {
+        return Buffer.from(result.buffer, result.byteOffset, result.length);
+    }
+    return result;
+}
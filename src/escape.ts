@@ -14,6 +14,9 @@
  * limitations under the License.
  */
 
+import {EscapingOptions} from "./options";
+import {getCodePoint} from "./utils";
+
 /**
  * Replaces ampersands (&) with the appropriate XML character reference.
  *
@@ -66,3 +69,127 @@ export function escapeSingleQuotes(str: string): string {
 export function escapeDoubleQuotes(str: string): string {
     return str.replace(/"/g, "&quot;");
 }
+
+/**
+ * Replaces the characters in the specified text or attribute value that
+ * should be represented using references, as specified by the escaping
+ * options. Ampersands and left angle brackets are always replaced. Quotation
+ * marks are not replaced.
+ *
+ * In XML 1.1, the restricted characters, as well as the next line (NEL) and
+ * line separator (LSEP) characters that would otherwise be normalized to line
+ * feeds when parsed, are also always replaced.
+ *
+ * @param str The string to escape.
+ * @param options The escaping options.
+ * @param attribute Whether the string is part of an attribute value.
+ * @param version The version of XML whose rules apply to the string.
+ * @param brackets The number of right square brackets (]) that immediately
+ *                 precede the string in the output, such as at the end of
+ *                 adjacent text, so that the string "]]>" formed together with
+ *                 them is escaped as well.
+ *
+ * @returns A copy of the specified string with characters escaped.
+ *
+ * @private
+ */
+export function escapeCharData(str: string, options: EscapingOptions,
+                               attribute: boolean,
+                               version: string = "1.0",
+                               brackets: number = 0): string
+{
+    // Matches "]]>", custom characters, surrogate pairs, and characters
+    // other than printable ASCII characters that never need to be replaced
+    let pattern = "\\]\\]>|";
+    for (const char of Object.keys(options.map)) {
+        pattern += char.replace(/[\\^$.*+?()[\]{}|-]/g, "\\$&") + "|";
+    }
+    pattern += "[\\uD800-\\uDBFF][\\uDC00-\\uDFFF]|[^ -%'-;=?-\\\\^-~]";
+    const regExp = new RegExp(pattern, "g");
+    const greaterThan = options.map.hasOwnProperty(">") ? options.map[">"]
+                                                        : "&gt;";
+    const escape = (s: string) => s.replace(regExp, match => {
+        if (match === "]]>") {
+            return escapeChar("]", options, attribute, version)
+                   + escapeChar("]", options, attribute, version)
+                   + greaterThan;
+        }
+        return escapeChar(match, options, attribute, version);
+    });
+
+    // The right angle bracket that completes "]]>" with the preceding
+    // brackets
+    let end = -1;
+    if (brackets >= 2 && str.charAt(0) === ">") {
+        end = 0;
+    } else if (brackets >= 1 && str.substr(0, 2) === "]>") {
+        end = 1;
+    }
+    if (end === -1) {
+        return escape(str);
+    }
+    return escape(str.substring(0, end)) + greaterThan
+           + escape(str.substring(end + 1));
+}
+
+/**
+ * Returns the replacement for the specified character, as specified by the
+ * escaping options.
+ *
+ * @param char The character.
+ * @param options The escaping options.
+ * @param attribute Whether the character is part of an attribute value.
+ * @param version The version of XML whose rules apply to the character.
+ *
+ * @returns The replacement for the character, or the character itself if it
+ *          should not be replaced.
+ *
+ * @private
+ */
+function escapeChar(char: string, options: EscapingOptions,
+                    attribute: boolean, version: string): string
+{
+    if (options.map.hasOwnProperty(char)) {
+        return options.map[char];
+    }
+    switch (char) {
+        case "&":
+            return "&amp;";
+        case "<":
+            return "&lt;";
+        case ">":
+            return options.greaterThan === "always" ? "&gt;" : char;
+        case "\t":
+        case "\n":
+        case "\r":
+            if (attribute && options.attributeWhitespace) {
+                return "&#x" + char.charCodeAt(0).toString(16).toUpperCase()
+                       + ";";
+            }
+            return char;
+        default:
+            const codePoint = getCodePoint(char, 0);
+            if (codePoint > options.maxCodePoint
+                || (version === "1.1" && isReplacedInXml11(char)))
+            {
+                return "&#x" + codePoint.toString(16).toUpperCase() + ";";
+            }
+            return char;
+    }
+}
+
+/**
+ * Returns whether the specified character should always be replaced with a
+ * character reference in XML 1.1. These are the restricted characters, as
+ * well as the next line (NEL) and line separator (LSEP) characters.
+ *
+ * @param char The character.
+ *
+ * @returns Whether the character should always be replaced.
+ *
+ * @private
+ */
+function isReplacedInXml11(char: string): boolean {
+    return /^[\u0001-\u0008\u000B\u000C\u000E-\u001F]$/.test(char)
+           || /^[\u007F-\u009F\u2028]$/.test(char);
+}
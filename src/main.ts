@@ -14,6 +14,12 @@
  * limitations under the License.
  */
 
+import {toCanonicalString} from "./canonicalize";
+import {
+    IQualifiedName,
+    checkNamespaceConformance,
+    normalizeNamespaceDeclarations
+} from "./namespaces";
 import XmlAttribute from "./nodes/XmlAttribute";
 import XmlCdata from "./nodes/XmlCdata";
 import XmlCharRef from "./nodes/XmlCharRef";
@@ -28,24 +34,181 @@ import XmlDtdNotation from "./nodes/XmlDtdNotation";
 import XmlDtdParamEntityRef from "./nodes/XmlDtdParamEntityRef";
 import XmlElement from "./nodes/XmlElement";
 import XmlEntityRef from "./nodes/XmlEntityRef";
-import XmlNode from "./nodes/XmlNode";
+import XmlNode, {setRecordCallSites} from "./nodes/XmlNode";
 import XmlProcInst from "./nodes/XmlProcInst";
 import XmlText from "./nodes/XmlText";
+import {
+    ICanonicalOptions,
+    INamespaceOptions,
+    IParseOptions,
+    IStringOptions
+} from "./options";
+import {parseDocument} from "./parse";
+import XmlReader from "./reader";
+import XmlSourceMap, {IMappedString, toMappedString} from "./sourcemap";
+import XmlWriter from "./writer";
 
 export {
     XmlAttribute, XmlCdata, XmlCharRef, XmlComment, XmlDecl, XmlDocument,
     XmlDtd, XmlDtdAttlist, XmlDtdElement, XmlDtdEntity, XmlDtdNotation,
     XmlDtdParamEntityRef, XmlElement, XmlEntityRef, XmlNode, XmlProcInst,
-    XmlText
+    XmlReader, XmlSourceMap, XmlText, XmlWriter
 };
 
+/**
+ * Returns the canonical form of the specified document or element, as defined
+ * by the W3C Canonical XML 1.0 recommendation. Unlike the string
+ * representation, the canonical form is exactly reproducible, which makes it
+ * suitable for hashing and signing.
+ *
+ * The XML declaration and DTD are omitted, empty elements are written using
+ * start and end tags, attributes and namespace declarations are sorted,
+ * attribute values are normalized and enclosed in double quotes, and
+ * character references and CDATA sections are replaced with the characters
+ * they represent. References to entities other than those predefined by the
+ * XML specification cannot be canonicalized.
+ *
+ * If an element is specified, the namespace declarations and `xml` attributes
+ * of its ancestors that are in scope at that element are included. The
+ * element does not need to be detached from its document.
+ *
+ * If the `exclusive` option is enabled, the exclusive canonical form defined
+ * by Exclusive XML Canonicalization 1.0 is returned instead. Each element then
+ * includes only the namespace declarations it visibly uses, along with those
+ * whose prefixes are listed in the `inclusiveNamespaces` option, and the `xml`
+ * attributes of ancestors are not included. This form is commonly used when
+ * signing subtrees, as in SAML and SOAP.
+ *
+ * @param node The document or element.
+ * @param options The options used when generating the canonical form.
+ *
+ * @returns The canonical form of the document or element.
+ */
+export function canonicalize(node: XmlNode,
+                             options?: ICanonicalOptions): string
+{
+    return toCanonicalString(node, options);
+}
+
+/**
+ * Throws an exception if the specified document or element does not conform
+ * to the Namespaces in XML recommendation. Names such as `a:b:c` or `:a` are
+ * valid XML names but not qualified names, and prefixes must be declared
+ * before they are used, which is not checked when nodes are created.
+ *
+ * The names of elements and attributes should be qualified names and their
+ * prefixes should be declared, the `xml` and `xmlns` prefixes and the
+ * namespaces bound to them should not be rebound, and no element should have
+ * two attributes with the same namespace and local name. The exception
+ * message identifies the element or attribute at fault, along with the line
+ * and column at which it was parsed, if known.
+ *
+ * If an element is specified, the namespace declarations of its ancestors are
+ * taken into account.
+ *
+ * @param node The document or element.
+ */
+export function checkNamespaces(node: XmlNode): void {
+    checkNamespaceConformance(node);
+}
+
 /**
  * Creates a new XML document.
  *
- * @param root The name of the root element of the document.
+ * @param root The name of the root element of the document, or its qualified
+ *             name if the root element is in a namespace.
  *
  * @returns The new XML document.
  */
-export function document(root: string): XmlDocument {
+export function document(root: string | IQualifiedName): XmlDocument {
     return new XmlDocument(root);
 }
+
+/**
+ * Normalizes the namespace declarations written as attributes of the
+ * specified document or element and its descendants, without changing the
+ * namespace of any element or attribute. This is useful for trees assembled
+ * from several sources, in which the same prefix is often declared on many
+ * elements.
+ *
+ * If the `renamePrefixes` option is specified, declarations binding another
+ * prefix to one of its namespaces are changed to use the preferred prefix,
+ * along with the names using them. Declarations are then moved to the
+ * outermost element where possible, declarations made redundant by a
+ * declaration of the same prefix and namespace on an ancestor are removed,
+ * and declarations whose prefix is not used in their scope are removed.
+ * Prefixes used in the values of `xsi:type` attributes count as used.
+ *
+ * The `renamePrefixes` option does not rewrite prefixes that appear in
+ * attribute values or text, such as in the value of an `xsi:type` attribute,
+ * so it should be used with care for such documents.
+ *
+ * If an element is specified, the namespace declarations of its ancestors are
+ * taken into account.
+ *
+ * @param node The document or element.
+ * @param options The options used when normalizing the declarations.
+ */
+export function normalizeNamespaces(node: XmlNode,
+                                    options?: INamespaceOptions): void
+{
+    normalizeNamespaceDeclarations(node, options);
+}
+
+/**
+ * Parses the specified XML string into a new XML document.
+ *
+ * Throws an exception if the string is not a well-formed XML document. The
+ * message of the exception includes the line and column at which the problem
+ * was detected.
+ *
+ * References to the entities predefined by the XML specification, such as
+ * `&amp;amp;`, are replaced with the corresponding text. Other entity
+ * references and all character references are represented using
+ * {@link XmlEntityRef} and {@link XmlCharRef} nodes respectively.
+ *
+ * If the `preserve` option is enabled, the original formatting of the string
+ * is recorded on the resulting nodes, and the string representation of the
+ * document generated with the `preserve` formatting option is identical to the
+ * original string.
+ *
+ * @param xml The XML string to parse.
+ * @param options The options used when parsing the string.
+ *
+ * @returns The new XML document.
+ */
+export function parse(xml: string, options?: IParseOptions): XmlDocument {
+    return parseDocument(xml, options);
+}
+
+/**
+ * Returns the string representation of the specified node together with a
+ * map from positions in that string to the nodes that produced them.
+ *
+ * The string is identical to the one returned by the `toString` method of the
+ * node with the same options. The `nodeAt` method of the map returns the
+ * innermost node that produced the character at a particular line and column,
+ * which is useful for tracing a problem reported against the serialized
+ * document back to the tree.
+ *
+ * @param node The node to serialize.
+ * @param options Formatting options for the string representation.
+ *
+ * @returns The string representation and the map.
+ */
+export function serializeWithMap(node: XmlNode,
+                                 options?: IStringOptions): IMappedString
+{
+    return toMappedString(node, options);
+}
+
+/**
+ * Enables or disables debugging. While debugging is enabled, each new node
+ * records the stack trace at the time it was created, which is available using
+ * the `callSite` property of the node. Debugging is disabled by default.
+ *
+ * @param enabled Whether debugging is enabled.
+ */
+export function setDebug(enabled: boolean): void {
+    setRecordCallSites(enabled);
+}
@@ -0,0 +1,58 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {isString, isUndefined} from "./utils";
+import {validateChar} from "./validate";
+
+/**
+ * The namespace name bound to the `xml` prefix.
+ *
+ * @private
+ */
+export const xmlNamespace = "http://www.w3.org/XML/1998/namespace";
+
+/**
+ * The namespace name bound to the `xmlns` prefix.
+ *
+ * @private
+ */
+export const xmlnsNamespace = "http://www.w3.org/2000/xmlns/";
+
+/**
+ * Throws an exception if the specified value is not a valid namespace name.
+ *
+ * @param ns The namespace name, or undefined if there is no namespace.
+ * @param property The name of the property being checked, used in the
+ *                 exception message.
+ *
+ * @private
+ */
+export function checkNamespace(ns: string | undefined,
+                               property: string): void
+{
+    if (isUndefined(ns)) {
+        return;
+    } else if (!isString(ns) || ns.length === 0) {
+        throw new TypeError(property + " should be a non-empty string or"
+                            + " undefined");
+    } else if (!validateChar(ns)) {
+        throw new Error(property + " should not contain characters not"
+                        + " allowed in XML");
+    } else if (ns === xmlnsNamespace) {
+        throw new Error(property + " should not be the namespace reserved"
+                        + " for namespace declarations");
+    }
+}
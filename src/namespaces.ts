@@ -0,0 +1,1009 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {checkNamespace, xmlNamespace, xmlnsNamespace} from "./names";
+import XmlAttribute from "./nodes/XmlAttribute";
+import XmlCharRef from "./nodes/XmlCharRef";
+import XmlDocument from "./nodes/XmlDocument";
+import XmlElement from "./nodes/XmlElement";
+import XmlNode from "./nodes/XmlNode";
+import XmlText from "./nodes/XmlText";
+import {INamespaceOptions, NamespaceOptions} from "./options";
+import {isObject, isString, isUndefined} from "./utils";
+import {validateName} from "./validate";
+
+/**
+ * The name of an element or attribute in a namespace.
+ */
+export interface IQualifiedName {
+    /**
+     * The local part of the name, which should not contain colons.
+     */
+    local: string;
+    /**
+     * The namespace name, which is the URI identifying the namespace. If left
+     * undefined, the element or attribute is not in a namespace.
+     */
+    ns?: string;
+    /**
+     * The preferred prefix of the name. The empty string requests that an
+     * element be placed in the default namespace, which is not possible for
+     * attributes. If left undefined, or if the prefix cannot be used, a
+     * prefix already bound to the namespace is reused or a new prefix is
+     * generated when the element or attribute is serialized.
+     */
+    prefix?: string;
+}
+
+/**
+ * A mapping from namespace prefixes to namespace names. The default namespace
+ * uses the empty string as its prefix.
+ *
+ * @private
+ */
+export interface INamespaces {
+    [prefix: string]: string;
+}
+
+/**
+ * The names with which an element and its attributes are serialized, along
+ * with the namespace declarations added to the element.
+ *
+ * @private
+ */
+export interface IResolvedNames {
+    /**
+     * The qualified names of the attributes of the element, in the order
+     * returned by {@link XmlElement#attributes}.
+     */
+    attributes: string[];
+    /**
+     * The prefixes of the namespace declarations added to the element, in the
+     * order in which they should be written.
+     */
+    declarations: string[];
+    /**
+     * The qualified name of the element.
+     */
+    name: string;
+    /**
+     * The namespaces in scope at the element, including those declared by it.
+     */
+    scope: INamespaces;
+}
+
+/**
+ * A mapping from namespace names to the preferred prefixes used with them.
+ *
+ * @private
+ */
+interface IUsedNamespaces {
+    [ns: string]: string | undefined;
+}
+
+/**
+ * The XML Schema instance namespace, which contains the `type` attribute.
+ *
+ * @private
+ */
+const xsiNamespace = "http://www.w3.org/2001/XMLSchema-instance";
+
+/**
+ * Throws an exception if the specified document or element, including its
+ * descendants, does not conform to the Namespaces in XML recommendation.
+ *
+ * The names of elements and attributes should be qualified names, their
+ * prefixes should be declared, the reserved `xml` and `xmlns` prefixes and
+ * namespaces should not be rebound, and no element should have two
+ * attributes with the same namespace and local name. If an element is
+ * specified, the namespace declarations of its ancestors are taken into
+ * account.
+ *
+ * @param node The document or element.
+ *
+ * @private
+ */
+export function checkNamespaceConformance(node: XmlNode): void {
+    if (node instanceof XmlDocument) {
+        checkElementNamespaces(node.root(), undefined);
+        return;
+    } else if (node instanceof XmlElement) {
+        const ancestors: XmlElement[] = [];
+        let parent = node.parent;
+        while (parent instanceof XmlElement) {
+            ancestors.unshift(parent);
+            parent = parent.parent;
+        }
+        let scope: INamespaces | undefined;
+        for (const ancestor of ancestors) {
+            scope = resolveNames(ancestor, scope).scope;
+        }
+        checkElementNamespaces(node, scope);
+        return;
+    }
+
+    throw new TypeError("node should be an instance of XmlDocument or"
+                        + " XmlElement");
+}
+
+/**
+ * Throws an exception if the specified value is not a valid preferred prefix
+ * for the name of an element or attribute in the specified namespace.
+ *
+ * @param prefix The prefix, or undefined if there is no preferred prefix.
+ * @param ns The namespace name, or undefined if there is no namespace.
+ * @param attribute Whether the name is that of an attribute.
+ * @param property The name of the property being checked, used in the
+ *                 exception message.
+ *
+ * @private
+ */
+export function checkPrefix(prefix: string | undefined, ns: string | undefined,
+                            attribute: boolean, property: string): void
+{
+    if (isUndefined(prefix)) {
+        return;
+    } else if (!isString(prefix)) {
+        throw new TypeError(property + " should be a string or undefined");
+    } else if (isUndefined(ns)) {
+        throw new Error(property + " should be undefined if there is no"
+                        + " namespace");
+    } else if (prefix === "") {
+        if (attribute) {
+            throw new Error(property + " should not be empty for an"
+                            + " attribute");
+        }
+    } else if (!validateName(prefix) || prefix.indexOf(":") !== -1) {
+        throw new Error(property + " should be a name without colons");
+    } else if (prefix === "xmlns") {
+        throw new Error(property + " should not be xmlns");
+    }
+    if ((prefix === "xml") !== (ns === xmlNamespace)) {
+        throw new Error(property + " should be xml if and only if the"
+                        + " namespace is the one bound to xml");
+    }
+}
+
+/**
+ * Throws an exception if the specified value is not a valid qualified name.
+ *
+ * @param name The qualified name.
+ * @param attribute Whether the name is that of an attribute.
+ * @param property The name of the property being checked, used in the
+ *                 exception message.
+ *
+ * @private
+ */
+export function checkQualifiedName(name: IQualifiedName, attribute: boolean,
+                                   property: string): void
+{
+    if (!isObject(name)) {
+        throw new TypeError(property + " should be a string or an Object");
+    } else if (!isString(name.local)) {
+        throw new TypeError(property + ".local should be a string");
+    } else if (!validateName(name.local)
+               || (!isUndefined(name.ns) && name.local.indexOf(":") !== -1))
+    {
+        throw new Error(property + ".local should be a name without colons");
+    }
+    checkNamespace(name.ns, property + ".ns");
+    checkPrefix(name.prefix, name.ns, attribute, property + ".prefix");
+}
+
+/**
+ * Returns the value of the specified attribute, including the characters
+ * represented by character references.
+ *
+ * @param attribute The attribute.
+ *
+ * @returns The value of the attribute.
+ *
+ * @private
+ */
+export function getValue(attribute: XmlAttribute): string {
+    let value = "";
+    for (const node of attribute.children()) {
+        if (node instanceof XmlText) {
+            value += node.text;
+        } else if (node instanceof XmlCharRef) {
+            value += node.char;
+        }
+    }
+    return value;
+}
+
+/**
+ * Normalizes the namespace declarations written as attributes of the
+ * specified document or element and its descendants, without changing the
+ * namespace of any element or attribute.
+ *
+ * Prefixes are first renamed as specified by the `renamePrefixes` option.
+ * Declarations are then moved to the outermost element if the `hoist` option
+ * is enabled, declarations that bind a prefix to the namespace it is already
+ * bound to are removed, and declarations that are not used are removed if the
+ * `removeUnused` option is enabled.
+ *
+ * @param node The document or element.
+ * @param options The options used when normalizing the declarations.
+ *
+ * @private
+ */
+export function normalizeNamespaceDeclarations(
+    node: XmlNode, options: INamespaceOptions = {}): void
+{
+    const optionsObj = new NamespaceOptions(options);
+
+    let element: XmlElement;
+    if (node instanceof XmlDocument) {
+        element = node.root();
+    } else if (node instanceof XmlElement) {
+        element = node;
+    } else {
+        throw new TypeError("node should be an instance of XmlDocument or"
+                            + " XmlElement");
+    }
+
+    // Gather the declarations of the ancestors of the element
+    const ancestors: XmlElement[] = [];
+    let parent = element.parent;
+    while (parent instanceof XmlElement) {
+        ancestors.unshift(parent);
+        parent = parent.parent;
+    }
+    let inherited: INamespaces = {xml: xmlNamespace};
+    for (const ancestor of ancestors) {
+        inherited = getScope(ancestor, inherited);
+    }
+
+    renamePrefixes(element, optionsObj.renamePrefixes);
+    if (optionsObj.hoist) {
+        hoistDeclarations(element, element, inherited);
+    }
+    removeRedundantDeclarations(element, inherited);
+    if (optionsObj.removeUnused) {
+        removeUnusedDeclarations(element);
+    }
+}
+
+/**
+ * Returns the names with which the specified element and its attributes are
+ * serialized. Elements and attributes that are not in a namespace keep their
+ * names. The names of those that are in a namespace use a prefix already
+ * bound to the namespace if possible, and otherwise a namespace declaration
+ * is added to the element.
+ *
+ * If the element is the outermost element being serialized, declarations for
+ * the namespaces used by its descendants are added to it as well, so that
+ * they are declared once rather than on each descendant. The default
+ * namespace is never declared on behalf of descendants, since that would
+ * change the namespace of elements that are not in a namespace.
+ *
+ * An element that is not in a namespace but whose parent is undeclares the
+ * default namespace if one is in scope, unless it declares the default
+ * namespace itself.
+ *
+ * @param element The element.
+ * @param parentScope The namespaces in scope at the parent of the element, or
+ *                    undefined if the element is the outermost element being
+ *                    serialized.
+ *
+ * @returns The names of the element and its attributes.
+ *
+ * @private
+ */
+export function resolveNames(element: XmlElement,
+                             parentScope?: INamespaces): IResolvedNames
+{
+    const scope: INamespaces = {};
+    const inherited = isUndefined(parentScope) ? {xml: xmlNamespace}
+                                               : parentScope;
+    for (const prefix of Object.keys(inherited)) {
+        scope[prefix] = inherited[prefix];
+    }
+
+    // Declarations written explicitly as attributes
+    const declared: string[] = [];
+    const attributes = element.attributes();
+    for (const attribute of attributes) {
+        const prefix = getDeclaredPrefix(attribute);
+        if (!isUndefined(prefix)) {
+            scope[prefix] = getValue(attribute);
+            declared.push(prefix);
+        }
+    }
+
+    const declarations: string[] = [];
+    if (isUndefined(element.namespace) && element.name.indexOf(":") === -1
+        && element.parent instanceof XmlElement
+        && !isUndefined(element.parent.namespace)
+        && declared.indexOf("") === -1 && !isUndefined(scope[""])
+        && scope[""] !== "")
+    {
+        scope[""] = "";
+        declared.push("");
+        declarations.push("");
+    }
+
+    const bind = (ns: string, prefix: string | undefined,
+                  attribute: boolean): string => {
+        if (!isUndefined(prefix) && scope[prefix] === ns) {
+            return prefix;
+        }
+        for (const p of Object.keys(scope)) {
+            if (scope[p] === ns && !(attribute && p === "")) {
+                return p;
+            }
+        }
+
+        let newPrefix = prefix;
+        if (isUndefined(newPrefix) || declared.indexOf(newPrefix) !== -1) {
+            for (let i = 1; ; i++) {
+                newPrefix = "ns" + i;
+                if (!scope.hasOwnProperty(newPrefix)) {
+                    break;
+                }
+            }
+        }
+        scope[newPrefix] = ns;
+        declared.push(newPrefix);
+        declarations.push(newPrefix);
+        return newPrefix;
+    };
+
+    const qualify = (local: string, ns: string | undefined,
+                     prefix: string | undefined, attribute: boolean) => {
+        if (isUndefined(ns)) {
+            return local;
+        }
+        const p = bind(ns, prefix, attribute);
+        return p === "" ? local : p + ":" + local;
+    };
+    const names: IResolvedNames = {
+        attributes: [],
+        declarations,
+        name: qualify(element.name, element.namespace, element.prefix, false),
+        scope
+    };
+    for (const attribute of attributes) {
+        names.attributes.push(qualify(attribute.name, attribute.namespace,
+                                      attribute.prefix, true));
+    }
+
+    if (isUndefined(parentScope)) {
+        const used = getUsedNamespaces(element);
+        for (const ns of Object.keys(used)) {
+            if (used[ns] !== "") {
+                bind(ns, used[ns], false);
+            }
+        }
+    }
+    return names;
+}
+
+/**
+ * Throws an exception if the specified element or any of its descendants
+ * does not conform to the Namespaces in XML recommendation.
+ *
+ * @param element The element.
+ * @param parentScope The namespaces in scope at the parent of the element, or
+ *                    undefined if the element is the outermost element being
+ *                    checked.
+ *
+ * @private
+ */
+function checkElementNamespaces(element: XmlElement,
+                                parentScope: INamespaces | undefined): void
+{
+    const names = resolveNames(element, parentScope);
+    const scope = names.scope;
+    const description = "element " + names.name;
+    if (!isQualifiedName(names.name)) {
+        throw createError(description + " should have a qualified name",
+                          element);
+    }
+
+    const attributes = element.attributes();
+    for (let i = 0; i < attributes.length; i++) {
+        const attribute = attributes[i];
+        const name = names.attributes[i];
+        const attributeDescription = "attribute " + name + " of "
+                                     + description;
+        if (!isQualifiedName(name)) {
+            throw createError(attributeDescription
+                              + " should have a qualified name", attribute);
+        }
+
+        const prefix = getDeclaredPrefix(attribute);
+        if (isUndefined(prefix)) {
+            continue;
+        }
+        const value = getValue(attribute);
+        if (prefix === "xmlns") {
+            throw createError(attributeDescription + " should not declare"
+                              + " the prefix xmlns", attribute);
+        } else if (prefix === "xml") {
+            if (value !== xmlNamespace) {
+                throw createError(attributeDescription + " should not bind"
+                                  + " the prefix xml to another namespace",
+                                  attribute);
+            }
+        } else if (value === xmlNamespace || value === xmlnsNamespace) {
+            throw createError(attributeDescription + " should not bind a"
+                              + " reserved namespace", attribute);
+        } else if (prefix !== "" && value === ""
+                   && element.xmlVersion() === "1.0")
+        {
+            throw createError(attributeDescription + " should not undeclare"
+                              + " a prefix in XML 1.0", attribute);
+        }
+    }
+
+    const elementPrefix = getPrefix(names.name);
+    if (elementPrefix === "xmlns") {
+        throw createError(description + " should not use the prefix xmlns",
+                          element);
+    } else if (elementPrefix !== "" && !isDeclared(elementPrefix, scope)) {
+        throw createError("prefix " + elementPrefix + " of " + description
+                          + " is not declared", element);
+    }
+
+    const expandedNames: string[] = [];
+    for (let i = 0; i < attributes.length; i++) {
+        const attribute = attributes[i];
+        if (!isUndefined(getDeclaredPrefix(attribute))) {
+            continue;
+        }
+        const name = names.attributes[i];
+        const prefix = getPrefix(name);
+        if (prefix !== "" && !isDeclared(prefix, scope)) {
+            throw createError("prefix " + prefix + " of attribute " + name
+                              + " of " + description + " is not declared",
+                              attribute);
+        }
+
+        const ns = prefix === "" ? "" : scope[prefix];
+        const expandedName = "{" + ns + "}" + name.substring(name.indexOf(":")
+                                                             + 1);
+        const index = expandedNames.indexOf(expandedName);
+        if (index !== -1) {
+            throw createError("attribute " + name + " of " + description
+                              + " has the same namespace and local name as"
+                              + " attribute " + names.attributes[index],
+                              attribute);
+        }
+        expandedNames[i] = expandedName;
+    }
+
+    for (const child of element.children()) {
+        if (child instanceof XmlElement) {
+            checkElementNamespaces(child, scope);
+        }
+    }
+}
+
+/**
+ * Returns a new exception with the specified message, followed by the line
+ * and column at which the specified node was parsed, if known.
+ *
+ * @param message The message of the exception.
+ * @param node The node at fault.
+ *
+ * @returns The new exception.
+ *
+ * @private
+ */
+function createError(message: string, node: XmlNode): Error {
+    const location = node.location;
+    if (isUndefined(location)) {
+        return new Error(message);
+    }
+    return new Error(message + " at line " + location.line + ", column "
+                     + location.column);
+}
+
+/**
+ * Returns true if the specified element declares the specified prefix.
+ *
+ * @param element The element.
+ * @param prefix The prefix. The default namespace uses the empty string as
+ *               its prefix.
+ *
+ * @returns Whether the element declares the prefix.
+ *
+ * @private
+ */
+function declaresPrefix(element: XmlElement, prefix: string): boolean {
+    for (const attribute of element.attributes()) {
+        if (getDeclaredPrefix(attribute) === prefix) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Returns the prefix declared by the specified attribute if it is a namespace
+ * declaration. The default namespace uses the empty string as its prefix.
+ *
+ * @param attribute The attribute.
+ *
+ * @returns The declared prefix, or undefined if the attribute is not a
+ *          namespace declaration.
+ *
+ * @private
+ */
+function getDeclaredPrefix(attribute: XmlAttribute): string | undefined {
+    if (!isUndefined(attribute.namespace)) {
+        return undefined;
+    } else if (attribute.name === "xmlns") {
+        return "";
+    } else if (attribute.name.indexOf("xmlns:") === 0) {
+        return attribute.name.substring(6);
+    }
+    return undefined;
+}
+
+/**
+ * Returns the prefix of the specified qualified name.
+ *
+ * @param name The qualified name.
+ *
+ * @returns The prefix, or the empty string if the name has no prefix.
+ *
+ * @private
+ */
+function getPrefix(name: string): string {
+    const colon = name.indexOf(":");
+    return colon === -1 ? "" : name.substring(0, colon);
+}
+
+/**
+ * Returns the namespaces in scope at the specified element, taking into
+ * account only the declarations written as attributes.
+ *
+ * @param element The element.
+ * @param parentScope The namespaces in scope at the parent of the element.
+ *
+ * @returns The namespaces in scope at the element.
+ *
+ * @private
+ */
+function getScope(element: XmlElement,
+                  parentScope: INamespaces): INamespaces
+{
+    const scope: INamespaces = {};
+    for (const prefix of Object.keys(parentScope)) {
+        scope[prefix] = parentScope[prefix];
+    }
+    for (const attribute of element.attributes()) {
+        const prefix = getDeclaredPrefix(attribute);
+        if (!isUndefined(prefix)) {
+            scope[prefix] = getValue(attribute);
+        }
+    }
+    return scope;
+}
+
+/**
+ * Returns the namespaces of the specified element and its descendants, and
+ * of their attributes, mapped to the first non-empty preferred prefix
+ * specified for each. Namespaces only used by elements placed in the default
+ * namespace are mapped to the empty string, while those without a preferred
+ * prefix are mapped to undefined. Uses of namespaces declared explicitly by
+ * attributes of the element using them or of its ancestors are ignored.
+ *
+ * @param element The element.
+ * @param used The namespaces found so far.
+ * @param declared The namespaces declared explicitly by the ancestors of the
+ *                 element.
+ *
+ * @returns The namespaces found.
+ *
+ * @private
+ */
+function getUsedNamespaces(element: XmlElement, used: IUsedNamespaces = {},
+                           declared: string[] = []): IUsedNamespaces
+{
+    const attributes = element.attributes();
+    declared = declared.slice();
+    for (const attribute of attributes) {
+        if (!isUndefined(getDeclaredPrefix(attribute))) {
+            declared.push(getValue(attribute));
+        }
+    }
+
+    const use = (ns: string | undefined, prefix: string | undefined) => {
+        if (isUndefined(ns) || declared.indexOf(ns) !== -1) {
+            return;
+        } else if (!used.hasOwnProperty(ns) || used[ns] === "") {
+            used[ns] = prefix;
+        } else if (isUndefined(used[ns]) && prefix !== "") {
+            used[ns] = prefix;
+        }
+    };
+    use(element.namespace, element.prefix);
+    for (const attribute of attributes) {
+        use(attribute.namespace, attribute.prefix);
+    }
+    for (const child of element.children()) {
+        if (child instanceof XmlElement) {
+            getUsedNamespaces(child, used, declared);
+        }
+    }
+    return used;
+}
+
+/**
+ * Moves the declarations of prefixes other than the default namespace from
+ * the descendants of the specified element to the specified outermost
+ * element, where doing so does not change the namespace of any element or
+ * attribute.
+ *
+ * @param root The outermost element.
+ * @param element The element whose descendants are examined.
+ * @param inherited The namespaces declared by the ancestors of the outermost
+ *                  element.
+ *
+ * @private
+ */
+function hoistDeclarations(root: XmlElement, element: XmlElement,
+                           inherited: INamespaces): void
+{
+    for (const child of element.children()) {
+        if (!(child instanceof XmlElement)) {
+            continue;
+        }
+
+        for (const attribute of child.attributes()) {
+            const prefix = getDeclaredPrefix(attribute);
+            if (isUndefined(prefix) || prefix === ""
+                || inherited.hasOwnProperty(prefix)
+                || declaresPrefix(root, prefix)
+                || usesPrefix(root, prefix, undefined))
+            {
+                continue;
+            }
+
+            // A declaration between the outermost element and the child
+            // would take precedence over the moved declaration
+            let parent = child.parent;
+            while (parent !== root && parent instanceof XmlElement
+                   && !declaresPrefix(parent, prefix))
+            {
+                parent = parent.parent;
+            }
+            if (parent !== root) {
+                continue;
+            }
+
+            let index = 0;
+            const children = root.children();
+            for (let i = 0; i < children.length; i++) {
+                const node = children[i];
+                if (node instanceof XmlAttribute
+                    && !isUndefined(getDeclaredPrefix(node)))
+                {
+                    index = i + 1;
+                }
+            }
+            attribute.remove();
+            root.insertChild(attribute, index);
+        }
+
+        hoistDeclarations(root, child, inherited);
+    }
+}
+
+/**
+ * Returns true if the specified prefix is bound to a namespace.
+ *
+ * @param prefix The prefix.
+ * @param scope The namespaces in scope.
+ *
+ * @returns Whether the prefix is bound to a namespace.
+ *
+ * @private
+ */
+function isDeclared(prefix: string, scope: INamespaces): boolean {
+    return scope.hasOwnProperty(prefix) && scope[prefix] !== "";
+}
+
+/**
+ * Returns true if the specified prefix is declared by any descendant of the
+ * specified element.
+ *
+ * @param element The element.
+ * @param prefix The prefix.
+ *
+ * @returns Whether the prefix is declared by a descendant of the element.
+ *
+ * @private
+ */
+function isDeclaredByDescendant(element: XmlElement, prefix: string): boolean {
+    for (const child of element.children()) {
+        if (child instanceof XmlElement
+            && (declaresPrefix(child, prefix)
+                || isDeclaredByDescendant(child, prefix)))
+        {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Returns true if the specified string is a qualified name, which consists
+ * of a local part optionally preceded by a prefix and a colon, neither of
+ * which contain colons.
+ *
+ * @param name The string.
+ *
+ * @returns Whether the string is a qualified name.
+ *
+ * @private
+ */
+function isQualifiedName(name: string): boolean {
+    const parts = name.split(":");
+    if (parts.length > 2) {
+        return false;
+    }
+    for (const part of parts) {
+        if (!validateName(part)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Returns true if the specified attribute of the specified element is the
+ * `type` attribute of the XML Schema instance namespace, whose value is a
+ * qualified name that uses the namespaces in scope at the element.
+ *
+ * @param element The element.
+ * @param attribute The attribute.
+ *
+ * @returns Whether the attribute is an `xsi:type` attribute.
+ *
+ * @private
+ */
+function isTypeAttribute(element: XmlElement,
+                         attribute: XmlAttribute): boolean
+{
+    if (!isUndefined(attribute.namespace)) {
+        return attribute.namespace === xsiNamespace
+               && attribute.name === "type";
+    }
+    const prefix = getPrefix(attribute.name);
+    if (prefix === "" || attribute.name !== prefix + ":type") {
+        return false;
+    }
+
+    let node: XmlNode | undefined = element;
+    while (node instanceof XmlElement) {
+        for (const declaration of node.attributes()) {
+            if (getDeclaredPrefix(declaration) === prefix) {
+                return getValue(declaration) === xsiNamespace;
+            }
+        }
+        node = node.parent;
+    }
+    return false;
+}
+
+/**
+ * Removes the namespace declarations of the specified element and its
+ * descendants that bind a prefix to the namespace it is already bound to.
+ *
+ * @param element The element.
+ * @param parentScope The namespaces in scope at the parent of the element.
+ *
+ * @private
+ */
+function removeRedundantDeclarations(element: XmlElement,
+                                     parentScope: INamespaces): void
+{
+    const scope: INamespaces = {};
+    for (const prefix of Object.keys(parentScope)) {
+        scope[prefix] = parentScope[prefix];
+    }
+    for (const attribute of element.attributes()) {
+        const prefix = getDeclaredPrefix(attribute);
+        if (isUndefined(prefix)) {
+            continue;
+        }
+        const value = getValue(attribute);
+        const current = scope.hasOwnProperty(prefix) ? scope[prefix] : "";
+        if (value === current) {
+            attribute.remove();
+        } else {
+            scope[prefix] = value;
+        }
+    }
+
+    for (const child of element.children()) {
+        if (child instanceof XmlElement) {
+            removeRedundantDeclarations(child, scope);
+        }
+    }
+}
+
+/**
+ * Removes the namespace declarations of the specified element and its
+ * descendants whose prefix is not used in their scope.
+ *
+ * @param element The element.
+ *
+ * @private
+ */
+function removeUnusedDeclarations(element: XmlElement): void {
+    for (const attribute of element.attributes()) {
+        const prefix = getDeclaredPrefix(attribute);
+        if (!isUndefined(prefix)
+            && !usesPrefix(element, prefix, getValue(attribute)))
+        {
+            attribute.remove();
+        }
+    }
+
+    for (const child of element.children()) {
+        if (child instanceof XmlElement) {
+            removeUnusedDeclarations(child);
+        }
+    }
+}
+
+/**
+ * Changes the prefix of the names of the specified element and its
+ * descendants that use the specified prefix, other than those in the scope of
+ * a descendant that declares the prefix again.
+ *
+ * @param element The element.
+ * @param from The prefix to change.
+ * @param to The new prefix.
+ *
+ * @private
+ */
+function renamePrefix(element: XmlElement, from: string, to: string): void {
+    if (isUndefined(element.namespace) && getPrefix(element.name) === from) {
+        element.name = to + element.name.substring(from.length);
+    }
+    for (const attribute of element.attributes()) {
+        if (isUndefined(attribute.namespace)
+            && isUndefined(getDeclaredPrefix(attribute))
+            && getPrefix(attribute.name) === from)
+        {
+            attribute.name = to + attribute.name.substring(from.length);
+        }
+    }
+
+    for (const child of element.children()) {
+        if (child instanceof XmlElement && !declaresPrefix(child, from)) {
+            renamePrefix(child, from, to);
+        }
+    }
+}
+
+/**
+ * Changes the declarations of the specified element and its descendants that
+ * bind a prefix to one of the specified namespaces to use the preferred
+ * prefix for that namespace instead, along with the names using them. A
+ * declaration is left unchanged if the preferred prefix is used for a
+ * different namespace in its scope.
+ *
+ * @param element The element.
+ * @param preferred A mapping from preferred prefixes to namespace names.
+ *
+ * @private
+ */
+function renamePrefixes(element: XmlElement,
+                        preferred: {[prefix: string]: string}): void
+{
+    for (const attribute of element.attributes()) {
+        const prefix = getDeclaredPrefix(attribute);
+        if (isUndefined(prefix) || prefix === "") {
+            continue;
+        }
+        const value = getValue(attribute);
+        let newPrefix: string | undefined;
+        for (const p of Object.keys(preferred)) {
+            if (preferred[p] === value) {
+                newPrefix = p;
+            }
+        }
+        if (isUndefined(newPrefix) || newPrefix === prefix
+            || isDeclaredByDescendant(element, newPrefix))
+        {
+            continue;
+        }
+
+        if (declaresPrefix(element, newPrefix)) {
+            // The preferred prefix is bound on the same element, so the
+            // declaration can be dropped if it binds the same namespace
+            const existing = getScope(element, {})[newPrefix];
+            if (existing !== value) {
+                continue;
+            }
+            renamePrefix(element, prefix, newPrefix);
+            attribute.remove();
+        } else if (!usesPrefix(element, newPrefix, undefined)) {
+            renamePrefix(element, prefix, newPrefix);
+            attribute.name = "xmlns:" + newPrefix;
+        }
+    }
+
+    for (const child of element.children()) {
+        if (child instanceof XmlElement) {
+            renamePrefixes(child, preferred);
+        }
+    }
+}
+
+/**
+ * Returns true if the specified prefix is used by the names of the specified
+ * element and its descendants, other than those in the scope of a descendant
+ * that declares the prefix again. Elements and attributes in the specified
+ * namespace whose names are determined when they are serialized are treated
+ * as using the prefix, as are `xsi:type` attributes whose value is a
+ * qualified name with the prefix.
+ *
+ * @param element The element.
+ * @param prefix The prefix. The default namespace uses the empty string as
+ *               its prefix.
+ * @param ns The namespace bound to the prefix, or undefined if only names
+ *           written with the prefix should be considered.
+ *
+ * @returns Whether the prefix is used.
+ *
+ * @private
+ */
+function usesPrefix(element: XmlElement, prefix: string,
+                    ns: string | undefined): boolean
+{
+    if (isUndefined(element.namespace)) {
+        if (getPrefix(element.name) === prefix) {
+            return true;
+        }
+    } else if (element.namespace === ns) {
+        return true;
+    }
+    for (const attribute of element.attributes()) {
+        if (!isUndefined(getDeclaredPrefix(attribute))) {
+            continue;
+        } else if (isTypeAttribute(element, attribute)
+                   && getPrefix(getValue(attribute).trim()) === prefix)
+        {
+            return true;
+        } else if (prefix === "") {
+            continue;
+        } else if (isUndefined(attribute.namespace)) {
+            if (getPrefix(attribute.name) === prefix) {
+                return true;
+            }
+        } else if (attribute.namespace === ns) {
+            return true;
+        }
+    }
+
+    for (const child of element.children()) {
+        if (child instanceof XmlElement && !declaresPrefix(child, prefix)
+            && usesPrefix(child, prefix, ns))
+        {
+            return true;
+        }
+    }
+    return false;
+}
@@ -14,15 +14,47 @@
  * limitations under the License.
  */
 
-import {escapeDoubleQuotes, escapeSingleQuotes} from "../escape";
+import {
+    escapeCharData,
+    escapeDoubleQuotes,
+    escapeSingleQuotes
+} from "../escape";
+import {checkNamespace} from "../names";
+import {
+    IQualifiedName,
+    checkPrefix,
+    checkQualifiedName
+} from "../namespaces";
 import {IStringOptions, StringOptions} from "../options";
-import {isArray, isString} from "../utils";
-import {validateName} from "../validate";
+import {getQuote} from "../serialize";
+import {isArray, isObject, isString, isUndefined} from "../utils";
+import {validateName, validateWhitespace} from "../validate";
 import XmlCharRef from "./XmlCharRef";
 import XmlEntityRef from "./XmlEntityRef";
-import XmlNode from "./XmlNode";
+import XmlNode, {createWithVersion} from "./XmlNode";
 import XmlText from "./XmlText";
 
+/**
+ * The original formatting of an {@link XmlAttribute} node. This object is
+ * recorded by the parser when formatting is preserved and is used when the
+ * `preserve` formatting option is enabled.
+ */
+export interface IAttributeFormat {
+    /**
+     * The whitespace preceding the attribute in the start tag.
+     */
+    before: string;
+    /**
+     * The equals sign separating the name and value of the attribute,
+     * including any surrounding whitespace.
+     */
+    equals: string;
+    /**
+     * The quotation mark enclosing the value of the attribute.
+     */
+    quote: string;
+}
+
 /**
  * Represents an XML element attribute.
  *
@@ -42,20 +74,31 @@ import XmlText from "./XmlText";
  * nodes as children.
  */
 export default class XmlAttribute extends XmlNode {
+    private _format?: IAttributeFormat;
     private _name: string;
+    private _namespace?: string;
+    private _prefix?: string;
 
     /**
      * Initializes a new instance of the {@link XmlAttribute} class.
      *
-     * @param name The name of the XML attribute.
+     * @param name The name of the XML attribute, or its qualified name if the
+     *             attribute is in a namespace.
      * @param value The initial value of the XML attribute. Additional children
      *              can be added later. Only {@link XmlCharRef},
      *              {@link XmlEntityRef}, and {@link XmlText} nodes are
      *              permitted.
      */
-    constructor(name: string, value: XmlNode | XmlNode[]) {
+    constructor(name: string | IQualifiedName, value: XmlNode | XmlNode[]) {
         super();
-        this.name = name;
+        if (isString(name)) {
+            this.name = name;
+        } else {
+            checkQualifiedName(name, true, "name");
+            this._name = name.local;
+            this._namespace = name.ns;
+            this._prefix = name.prefix;
+        }
         if (isArray(value)) {
             for (const node of <XmlNode[]> value) {
                 this.insertChild(node);
@@ -66,7 +109,31 @@ export default class XmlAttribute extends XmlNode {
     }
 
     /**
-     * Gets the name of this attribute.
+     * Gets the original formatting of this attribute.
+     *
+     * @returns The original formatting of this attribute. This value may be
+     *          undefined.
+     */
+    get format(): IAttributeFormat | undefined {
+        return this._format;
+    }
+
+    /**
+     * Sets the original formatting of this attribute.
+     *
+     * @param format The original formatting of this attribute. This value may
+     *               be undefined.
+     */
+    set format(format: IAttributeFormat | undefined) {
+        if (!isUndefined(format)) {
+            checkAttributeFormat(format, "format");
+        }
+        this._format = format;
+    }
+
+    /**
+     * Gets the name of this attribute. If this attribute is in a namespace,
+     * this is the local part of its name.
      *
      * @returns The name of this attribute.
      */
@@ -75,7 +142,8 @@ export default class XmlAttribute extends XmlNode {
     }
 
     /**
-     * Sets the name of this attribute.
+     * Sets the name of this attribute. If this attribute is in a namespace,
+     * this is the local part of its name, which should not contain colons.
      *
      * @param name The name of this attribute.
      */
@@ -85,10 +153,66 @@ export default class XmlAttribute extends XmlNode {
         } else if (!validateName(name)) {
             throw new Error("name should not contain characters not"
                             + " allowed in XML names");
+        } else if (!isUndefined(this._namespace) && name.indexOf(":") !== -1)
+        {
+            throw new Error("name should not contain colons if the attribute"
+                            + " is in a namespace");
         }
         this._name = name;
     }
 
+    /**
+     * Gets the namespace name of this attribute.
+     *
+     * @returns The namespace name of this attribute, or undefined if this
+     *          attribute is not in a namespace.
+     */
+    get namespace(): string | undefined {
+        return this._namespace;
+    }
+
+    /**
+     * Sets the namespace name of this attribute. The prefix of its name and
+     * the namespace declarations it needs are determined when the element
+     * containing it is serialized.
+     *
+     * @param namespace The namespace name of this attribute, or undefined if
+     *                  this attribute is not in a namespace.
+     */
+    set namespace(namespace: string | undefined) {
+        checkNamespace(namespace, "namespace");
+        if (!isUndefined(namespace) && this._name.indexOf(":") !== -1) {
+            throw new Error("namespace should be undefined if the name"
+                            + " contains colons");
+        }
+        checkPrefix(this._prefix, namespace, true, "prefix");
+        this._namespace = namespace;
+    }
+
+    /**
+     * Gets the preferred prefix of the name of this attribute.
+     *
+     * @returns The preferred prefix of the name of this attribute. This value
+     *          may be undefined.
+     */
+    get prefix(): string | undefined {
+        return this._prefix;
+    }
+
+    /**
+     * Sets the preferred prefix of the name of this attribute. The prefix is
+     * only used if it is not already bound to another namespace by a
+     * declaration on the element containing this attribute.
+     *
+     * @param prefix The preferred prefix of the name of this attribute. This
+     *               value may be undefined, and should be undefined if this
+     *               attribute is not in a namespace.
+     */
+    set prefix(prefix: string | undefined) {
+        checkPrefix(prefix, this._namespace, true, "prefix");
+        this._prefix = prefix;
+    }
+
     /**
      * Inserts a new XML character reference at the specified index.
      *
@@ -102,11 +226,32 @@ export default class XmlAttribute extends XmlNode {
      * @returns The newly created XML declaration.
      */
     public charRef(char: string, hex: boolean, index?: number): XmlCharRef {
-        const charRef = new XmlCharRef(char, hex);
+        const charRef = createWithVersion(this.xmlVersion(),
+                                          () => new XmlCharRef(char, hex));
         this.insertChild(charRef, index);
         return charRef;
     }
 
+    /**
+     * Returns a copy of this attribute, including its value. The copy has no
+     * parent.
+     *
+     * @param deep This parameter is unused, since the value of the attribute
+     *             is always copied.
+     *
+     * @returns The copy of this attribute.
+     */
+    public clone(deep: boolean = true): XmlAttribute {
+        const name: string | IQualifiedName = isUndefined(this.namespace)
+            ? this.name
+            : {local: this.name, ns: this.namespace, prefix: this.prefix};
+        const copy = createWithVersion(this.xmlVersion(),
+                                       () => new XmlAttribute(name, []));
+        copy.format = isUndefined(this.format) ? undefined
+                                               : {...this.format};
+        return this.copyInto(copy, this._children, true);
+    }
+
     /**
      * Inserts a new XML entity reference at the specified index.
      *
@@ -195,31 +340,101 @@ export default class XmlAttribute extends XmlNode {
      * @returns The newly created XML declaration.
      */
     public text(text: string, index?: number): XmlText {
-        const textNode = new XmlText(text);
+        const textNode = createWithVersion(this.xmlVersion(),
+                                           () => new XmlText(text));
         this.insertChild(textNode, index);
         return textNode;
     }
 
     /**
-     * Returns an XML string representation of this node.
+     * Returns an XML string representation of this node. If this attribute is
+     * in a namespace, its name is written using its preferred prefix, if any,
+     * since the namespaces in scope are only known when the element
+     * containing it is serialized.
      *
      * @param options Formatting options for the string representation.
      *
      * @returns An XML string representation of this node.
      */
     public toString(options: IStringOptions = {}): string {
+        const name = isUndefined(this._prefix) ? this._name
+                                               : this._prefix + ":"
+                                                 + this._name;
+        return this.toStringWithName(name, options);
+    }
+
+    /**
+     * Returns an XML string representation of this node using the specified
+     * name.
+     *
+     * @param name The qualified name of this attribute.
+     * @param options Formatting options for the string representation.
+     *
+     * @returns An XML string representation of this node.
+     *
+     * @private
+     */
+    public toStringWithName(name: string, options: IStringOptions = {}): string
+    {
         const optionsObj = new StringOptions(options);
 
-        const quote = optionsObj.doubleQuotes ? "\"" : "'";
-        let str = this.name + "=" + quote;
+        let value = "";
+        for (const child of this._children) {
+            if (child instanceof XmlText) {
+                value += child.text;
+            }
+        }
+
+        let quote = getQuote(value, optionsObj);
+        let equals = "=";
+        if (optionsObj.preserve && !isUndefined(this.format)) {
+            quote = this.format.quote;
+            equals = this.format.equals;
+        }
+
+        let str = name + equals + quote;
         for (const child of this._children) {
-            if (optionsObj.doubleQuotes) {
-                str += escapeDoubleQuotes(child.toString(options));
+            const childStr = child instanceof XmlText
+                             ? escapeCharData(child.text, optionsObj.escaping,
+                                              true, child.xmlVersion())
+                             : child.toString(options);
+            if (quote === "\"") {
+                str += escapeDoubleQuotes(childStr);
             } else {
-                str += escapeSingleQuotes(child.toString(options));
+                str += escapeSingleQuotes(childStr);
             }
         }
         str += quote;
         return str;
     }
 }
+
+/**
+ * Throws an exception if the specified value is not a valid attribute format.
+ *
+ * @param format The specified value.
+ * @param name The name of the property being validated, used in exception
+ *             messages.
+ *
+ * @private
+ */
+export function checkAttributeFormat(format: IAttributeFormat,
+                                     name: string): void
+{
+    if (!isObject(format)) {
+        throw new TypeError(name + " should be an Object or undefined");
+    } else if (!isString(format.before) || !validateWhitespace(format.before)
+               || format.before.length === 0)
+    {
+        throw new Error(name + ".before should be a non-empty string"
+                        + " containing only whitespace");
+    } else if (!isString(format.equals)
+               || !/^[ \t\r\n]*=[ \t\r\n]*$/.test(format.equals))
+    {
+        throw new Error(name + ".equals should be a string containing an"
+                        + " equals sign and whitespace");
+    } else if (format.quote !== "'" && format.quote !== "\"") {
+        throw new Error(name + ".quote should be a single or double"
+                        + " quotation mark");
+    }
+}
@@ -14,10 +14,10 @@
  * limitations under the License.
  */
 
-import {IStringOptions} from "../options";
+import {IStringOptions, IVisitor, VisitorMethod} from "../options";
 import {isString} from "../utils";
 import {validateChar} from "../validate";
-import XmlNode from "./XmlNode";
+import XmlNode, {createWithVersion} from "./XmlNode";
 
 /**
  * Represents an XML CDATA section.
@@ -63,7 +63,7 @@ export default class XmlCdata extends XmlNode {
     set data(data: string) {
         if (!isString(data)) {
             throw new TypeError("character data should be a string");
-        } else if (!validateChar(data)) {
+        } else if (!validateChar(data, this.xmlVersion())) {
             throw new Error("character data should not contain characters not"
                             + " allowed in XML");
         } else if (/]]>/.test(data)) {
@@ -82,6 +82,19 @@ export default class XmlCdata extends XmlNode {
         throw new Error("XmlCdata nodes cannot have children");
     }
 
+    /**
+     * Returns a copy of this node. The copy has no parent.
+     *
+     * @param deep This parameter is unused.
+     *
+     * @returns The copy of this node.
+     */
+    public clone(deep: boolean = true): XmlCdata {
+        const copy = createWithVersion(this.xmlVersion(),
+                                       () => new XmlCdata(this.data));
+        return this.copyInto(copy, [], deep);
+    }
+
     /**
      * Throws an exception since {@link XmlCdata} nodes cannot have any
      * children.
@@ -130,4 +143,18 @@ export default class XmlCdata extends XmlNode {
     public toString(options: IStringOptions = {}): string {
         return "<![CDATA[" + this.data + "]]>";
     }
+
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return visitor.visitCdata;
+    }
 }
@@ -14,10 +14,36 @@
  * limitations under the License.
  */
 
-import {IStringOptions} from "../options";
-import {getCodePoint, isBoolean, isString} from "../utils";
+import {
+    IStringOptions,
+    IVisitor,
+    StringOptions,
+    VisitorMethod
+} from "../options";
+import {
+    getCodePoint,
+    isBoolean,
+    isObject,
+    isString,
+    isUndefined
+} from "../utils";
 import {validateSingleChar} from "../validate";
-import XmlNode from "./XmlNode";
+import XmlNode, {createWithVersion} from "./XmlNode";
+
+/**
+ * The original formatting of an {@link XmlCharRef} node. This object is
+ * recorded by the parser when formatting is preserved and is used when the
+ * `preserve` formatting option is enabled.
+ */
+export interface ICharRefFormat {
+    /**
+     * The digits of the reference as originally written, including any
+     * leading zeros and, for hexadecimal references, the original letter
+     * case. The digits are ignored if they no longer represent the character
+     * or if the representation has changed.
+     */
+    digits: string;
+}
 
 /**
  * Represents an XML character reference.
@@ -50,6 +76,7 @@ import XmlNode from "./XmlNode";
  */
 export default class XmlCharRef extends XmlNode {
     private _char: string;
+    private _format?: ICharRefFormat;
     private _hex: boolean;
 
     /**
@@ -82,13 +109,43 @@ export default class XmlCharRef extends XmlNode {
     set char(char: string) {
         if (!isString(char)) {
             throw new TypeError("char should be a string");
-        } else if (!validateSingleChar(char)) {
+        } else if (!validateSingleChar(char, this.xmlVersion())) {
             throw new Error("char should contain a single character, and this"
                             + " character should be allowed in XML");
         }
         this._char = char;
     }
 
+    /**
+     * Gets the original formatting of the reference.
+     *
+     * @returns The original formatting of the reference. This value may be
+     *          undefined.
+     */
+    get format(): ICharRefFormat | undefined {
+        return this._format;
+    }
+
+    /**
+     * Sets the original formatting of the reference.
+     *
+     * @param format The original formatting of the reference. This value may
+     *               be undefined.
+     */
+    set format(format: ICharRefFormat | undefined) {
+        if (isObject(format)) {
+            if (!isString(format.digits)
+                || !/^[0-9a-fA-F]+$/.test(format.digits))
+            {
+                throw new Error("format.digits should be a string containing"
+                                + " only hexadecimal digits");
+            }
+        } else if (!isUndefined(format)) {
+            throw new TypeError("format should be an Object or undefined");
+        }
+        this._format = format;
+    }
+
     /**
      * Gets whether or not to use the hexadecimal or decimal representation for
      * the reference.
@@ -124,6 +181,22 @@ export default class XmlCharRef extends XmlNode {
         throw new Error("XmlCharRef nodes cannot have children");
     }
 
+    /**
+     * Returns a copy of this node. The copy has no parent.
+     *
+     * @param deep This parameter is unused.
+     *
+     * @returns The copy of this node.
+     */
+    public clone(deep: boolean = true): XmlCharRef {
+        const copy = createWithVersion(this.xmlVersion(), () => {
+            return new XmlCharRef(this.char, this.hex);
+        });
+        copy.format = isUndefined(this.format) ? undefined
+                                               : {...this.format};
+        return this.copyInto(copy, [], deep);
+    }
+
     /**
      * Throws an exception since {@link XmlCharRef} nodes cannot have any
      * children.
@@ -169,6 +242,8 @@ export default class XmlCharRef extends XmlNode {
      * @returns {string} An XML string representation of this node.
      */
     public toString(options: IStringOptions = {}): string {
+        const optionsObj = new StringOptions(options);
+
         let char: number;
         if (this.char.length === 1) {
             char = this.char.charCodeAt(0);
@@ -176,10 +251,34 @@ export default class XmlCharRef extends XmlNode {
             char = getCodePoint(this.char, 0);
         }
 
+        let digits = this.hex ? char.toString(16) : char.toString();
+        if (optionsObj.preserve && !isUndefined(this.format)) {
+            const radix = this.hex ? 16 : 10;
+            if (/^[0-9]+$/.test(this.format.digits) || this.hex) {
+                if (parseInt(this.format.digits, radix) === char) {
+                    digits = this.format.digits;
+                }
+            }
+        }
+
         if (this.hex) {
-            return "&#x" + char.toString(16) + ";";
+            return "&#x" + digits + ";";
         } else {
-            return "&#" + char + ";";
+            return "&#" + digits + ";";
         }
     }
+
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return visitor.visitCharRef;
+    }
 }
@@ -14,10 +14,15 @@
  * limitations under the License.
  */
 
-import {IStringOptions} from "../options";
-import {isString} from "../utils";
+import {
+    IStringOptions,
+    IVisitor,
+    StringOptions,
+    VisitorMethod
+} from "../options";
+import {isString, isUndefined} from "../utils";
 import {validateChar} from "../validate";
-import XmlNode from "./XmlNode";
+import XmlNode, {createWithVersion} from "./XmlNode";
 
 /**
  * Represents an XML comment.
@@ -63,7 +68,7 @@ export default class XmlComment extends XmlNode {
     set content(content: string) {
         if (!isString(content)) {
             throw new TypeError("content should be a string");
-        } else if (!validateChar(content)) {
+        } else if (!validateChar(content, this.xmlVersion())) {
             throw new Error("content should not contain characters"
                             + " not allowed in XML");
         } else if (!/^([^-]|-[^-])*$/.test(content)) {
@@ -83,6 +88,19 @@ export default class XmlComment extends XmlNode {
         throw new Error("XmlComment nodes cannot have children");
     }
 
+    /**
+     * Returns a copy of this node. The copy has no parent.
+     *
+     * @param deep This parameter is unused.
+     *
+     * @returns The copy of this node.
+     */
+    public clone(deep: boolean = true): XmlComment {
+        const copy = createWithVersion(this.xmlVersion(),
+                                       () => new XmlComment(this.content));
+        return this.copyInto(copy, [], deep);
+    }
+
     /**
      * Throws an exception since {@link XmlComment} nodes cannot have any
      * children.
@@ -97,6 +115,22 @@ export default class XmlComment extends XmlNode {
         throw new Error("XmlComment nodes cannot have children");
     }
 
+    /**
+     * Returns true if this node is omitted from the string representation of
+     * its parent when minifying.
+     *
+     * @param preserved Whether whitespace is significant in the parent of
+     *                  this node.
+     * @param options Formatting options for the string representation.
+     *
+     * @returns Whether this node is omitted.
+     *
+     * @private
+     */
+    public isOmitted(preserved: boolean, options: StringOptions): boolean {
+        return !isUndefined(options.minify) && options.minify.comments;
+    }
+
     /**
      * Throws an exception since {@link XmlComment} nodes cannot have any
      * children.
@@ -131,4 +165,18 @@ export default class XmlComment extends XmlNode {
     public toString(options: IStringOptions = {}): string {
         return "<!--" + this.content + "-->";
     }
+
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return visitor.visitComment;
+    }
 }
@@ -18,11 +18,41 @@ import {
     DeclarationOptions,
     IDeclarationOptions,
     IStringOptions,
-    StringOptions
+    IVisitor,
+    StringOptions,
+    VisitorMethod
 } from "../options";
-import {isString, isUndefined} from "../utils";
+import {isOmittedDecl} from "../serialize";
+import {isObject, isString, isUndefined} from "../utils";
+import {validateWhitespace} from "../validate";
+import {IAttributeFormat, checkAttributeFormat} from "./XmlAttribute";
 import XmlNode from "./XmlNode";
 
+/**
+ * The original formatting of an {@link XmlDecl} node. This object is recorded
+ * by the parser when formatting is preserved and is used when the `preserve`
+ * formatting option is enabled.
+ */
+export interface IDeclarationFormat {
+    /**
+     * The original formatting of the encoding attribute, if one was present.
+     */
+    encoding?: IAttributeFormat;
+    /**
+     * The whitespace preceding the end of the declaration.
+     */
+    end: string;
+    /**
+     * The original formatting of the standalone attribute, if one was
+     * present.
+     */
+    standalone?: IAttributeFormat;
+    /**
+     * The original formatting of the version attribute.
+     */
+    version: IAttributeFormat;
+}
+
 /**
  * Represents an XML declaration.
  *
@@ -42,6 +72,7 @@ import XmlNode from "./XmlNode";
  */
 export default class XmlDecl extends XmlNode {
     private _encoding?: string;
+    private _format?: IDeclarationFormat;
     private _standalone?: string;
     private _version: string;
 
@@ -86,6 +117,41 @@ export default class XmlDecl extends XmlNode {
         this._encoding = encoding;
     }
 
+    /**
+     * Gets the original formatting of the declaration.
+     *
+     * @returns The original formatting of the declaration. This value may be
+     *          undefined.
+     */
+    get format(): IDeclarationFormat | undefined {
+        return this._format;
+    }
+
+    /**
+     * Sets the original formatting of the declaration.
+     *
+     * @param format The original formatting of the declaration. This value
+     *               may be undefined.
+     */
+    set format(format: IDeclarationFormat | undefined) {
+        if (isObject(format)) {
+            checkAttributeFormat(format.version, "format.version");
+            if (!isUndefined(format.encoding)) {
+                checkAttributeFormat(format.encoding, "format.encoding");
+            }
+            if (!isUndefined(format.standalone)) {
+                checkAttributeFormat(format.standalone, "format.standalone");
+            }
+            if (!isString(format.end) || !validateWhitespace(format.end)) {
+                throw new Error("format.end should be a string containing"
+                                + " only whitespace");
+            }
+        } else if (!isUndefined(format)) {
+            throw new TypeError("format should be an Object or undefined");
+        }
+        this._format = format;
+    }
+
     /**
      * Gets the XML standalone attribute to be included in the declaration.
      *
@@ -150,6 +216,33 @@ export default class XmlDecl extends XmlNode {
         throw new Error("XmlDecl nodes cannot have children");
     }
 
+    /**
+     * Returns a copy of this node. The copy has no parent.
+     *
+     * @param deep This parameter is unused.
+     *
+     * @returns The copy of this node.
+     */
+    public clone(deep: boolean = true): XmlDecl {
+        const copy = new XmlDecl({
+            encoding: this.encoding,
+            standalone: this.standalone,
+            version: this.version
+        });
+        const format = this.format;
+        if (!isUndefined(format)) {
+            const formatCopy = {...format, version: {...format.version}};
+            if (!isUndefined(format.encoding)) {
+                formatCopy.encoding = {...format.encoding};
+            }
+            if (!isUndefined(format.standalone)) {
+                formatCopy.standalone = {...format.standalone};
+            }
+            copy.format = formatCopy;
+        }
+        return this.copyInto(copy, [], deep);
+    }
+
     /**
      * Throws an exception since {@link XmlDecl} nodes cannot have any
      * children.
@@ -163,6 +256,22 @@ export default class XmlDecl extends XmlNode {
         throw new Error("XmlDecl nodes cannot have children");
     }
 
+    /**
+     * Returns true if this node is omitted from the string representation of
+     * its parent when minifying.
+     *
+     * @param preserved Whether whitespace is significant in the parent of
+     *                  this node.
+     * @param options Formatting options for the string representation.
+     *
+     * @returns Whether this node is omitted.
+     *
+     * @private
+     */
+    public isOmitted(preserved: boolean, options: StringOptions): boolean {
+        return isOmittedDecl(this, options);
+    }
+
     /**
      * Throws an exception since {@link XmlDecl} nodes cannot have any
      * children.
@@ -197,15 +306,47 @@ export default class XmlDecl extends XmlNode {
     public toString(options: IStringOptions = {}): string {
         const optionsObj = new StringOptions(options);
 
+        const format = optionsObj.preserve ? this.format : undefined;
         const quote = optionsObj.doubleQuotes ? '"' : "'";
-        let str = "<?xml version=" + quote + this.version + quote;
+        const appendAttribute = (name: string, value: string,
+                                 attributeFormat?: IAttributeFormat) => {
+            if (isUndefined(attributeFormat)) {
+                str += " " + name + "=" + quote + value + quote;
+            } else {
+                str += attributeFormat.before + name + attributeFormat.equals
+                       + attributeFormat.quote + value + attributeFormat.quote;
+            }
+        };
+
+        let str = "<?xml";
+        appendAttribute("version", this.version,
+                        format && format.version);
         if (isString(this.encoding)) {
-            str += " encoding=" + quote + this.encoding + quote;
+            appendAttribute("encoding", this.encoding,
+                            format && format.encoding);
         }
         if (isString(this.standalone)) {
-            str += " standalone=" + quote + this.standalone + quote;
+            appendAttribute("standalone", this.standalone,
+                            format && format.standalone);
+        }
+        if (!isUndefined(format)) {
+            str += format.end;
         }
         str += "?>";
         return str;
     }
+
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return visitor.visitDecl;
+    }
 }
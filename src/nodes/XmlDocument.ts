@@ -14,15 +14,55 @@
  * limitations under the License.
  */
 
-import {IDeclarationOptions, IStringOptions, StringOptions} from "../options";
-import {isUndefined} from "../utils";
+import {encode, getMaxCodePoint} from "../encode";
+import {IQualifiedName} from "../namespaces";
+import {
+    BufferOptions,
+    ElementSelector,
+    IBufferOptions,
+    IDeclarationOptions,
+    IStringOptions,
+    StringOptions
+} from "../options";
+import {findElements} from "../query";
+import {Serializer} from "../serialize";
+import {isBoolean, isObject, isString, isUndefined} from "../utils";
+import {validateWhitespace} from "../validate";
 import XmlComment from "./XmlComment";
 import XmlDecl from "./XmlDecl";
 import XmlDtd from "./XmlDtd";
 import XmlElement from "./XmlElement";
-import XmlNode from "./XmlNode";
+import XmlNode, {
+    ISeparator,
+    StringPart,
+    checkSeparators,
+    copySeparators,
+    createWithVersion,
+    getSeparator
+} from "./XmlNode";
 import XmlProcInst from "./XmlProcInst";
 
+/**
+ * The original formatting of an {@link XmlDocument} node. This object is
+ * recorded by the parser when formatting is preserved and is used when the
+ * `preserve` formatting option is enabled.
+ */
+export interface IDocumentFormat {
+    /**
+     * Whether the document began with a byte order mark. If left undefined,
+     * no byte order mark is written.
+     */
+    bom?: boolean;
+    /**
+     * The whitespace following the last node in the document.
+     */
+    end: string;
+    /**
+     * The whitespace preceding each node in the document.
+     */
+    separators: ISeparator[];
+}
+
 /**
  * Represents an XML document.
  *
@@ -58,16 +98,77 @@ import XmlProcInst from "./XmlProcInst";
  * if one exists.
  */
 export default class XmlDocument extends XmlNode {
+    private _format?: IDocumentFormat;
+
     /**
      * Initializes a new instance of the {@link XmlDocument} class.
      *
-     * @param root The name of the root element.
+     * @param root The name of the root element, or its qualified name if the
+     *             root element is in a namespace.
      */
-    constructor(root: string) {
+    constructor(root: string | IQualifiedName) {
         super();
         super.insertChild(new XmlElement(root));
     }
 
+    /**
+     * Gets the original formatting of the document.
+     *
+     * @returns The original formatting of the document. This value may be
+     *          undefined.
+     */
+    get format(): IDocumentFormat | undefined {
+        return this._format;
+    }
+
+    /**
+     * Sets the original formatting of the document.
+     *
+     * @param format The original formatting of the document. This value may be
+     *               undefined.
+     */
+    set format(format: IDocumentFormat | undefined) {
+        if (isObject(format)) {
+            checkSeparators(format.separators, "format.separators");
+            if (!isString(format.end) || !validateWhitespace(format.end)) {
+                throw new Error("format.end should be a string containing"
+                                + " only whitespace");
+            } else if (!isBoolean(format.bom) && !isUndefined(format.bom)) {
+                throw new TypeError("format.bom should be a boolean or"
+                                    + " undefined");
+            }
+        } else if (!isUndefined(format)) {
+            throw new TypeError("format should be an Object or undefined");
+        }
+        this._format = format;
+    }
+
+    /**
+     * Returns a copy of this document. The copy has no parent.
+     *
+     * @param deep Whether the descendants of the children of this document
+     *             should be copied as well. The children themselves, such as
+     *             the XML declaration and the root element, are always
+     *             copied. If left undefined, the descendants are copied.
+     *
+     * @returns The copy of this document.
+     */
+    public clone(deep: boolean = true): XmlDocument {
+        const copy = new XmlDocument(this.root().name);
+        // Replace the root element created by the constructor
+        copy._children = [];
+        this.copyInto(copy, this._children, deep);
+        const format = this.format;
+        if (!isUndefined(format)) {
+            copy.format = {
+                ...format,
+                separators: copySeparators(format.separators, this._children,
+                                           copy._children)
+            };
+        }
+        return copy;
+    }
+
     /**
      * Inserts a new comment at the specified index. If no index is specified,
      * the node is inserted at the end of this node's children.
@@ -80,7 +181,8 @@ export default class XmlDocument extends XmlNode {
      * @returns The newly created element.
      */
     public comment(content: string, index?: number): XmlComment {
-        const comment = new XmlComment(content);
+        const comment = createWithVersion(this.xmlVersion(),
+                                          () => new XmlComment(content));
         this.insertChild(comment, index);
         return comment;
     }
@@ -119,7 +221,8 @@ export default class XmlDocument extends XmlNode {
     public dtd(name: string, sysId?: string, pubId?: string,
                index?: number): XmlDtd
     {
-        const dtd = new XmlDtd(name, sysId, pubId);
+        const dtd = createWithVersion(this.xmlVersion(),
+                                      () => new XmlDtd(name, sysId, pubId));
         if (isUndefined(index)) {
             if (this._children[0] instanceof XmlDecl) {
                 index = 1;
@@ -131,6 +234,31 @@ export default class XmlDocument extends XmlNode {
         return dtd;
     }
 
+    /**
+     * Returns the first element in this document, in document order, that
+     * matches the specified selector. The root element is included in the
+     * search.
+     *
+     * @param selector The selector the element should match.
+     *
+     * @returns The matching element, or undefined if there is none.
+     */
+    public find(selector: ElementSelector): XmlElement | undefined {
+        return findElements(this, selector, true)[0];
+    }
+
+    /**
+     * Returns the elements in this document, in document order, that match
+     * the specified selector. The root element is included in the search.
+     *
+     * @param selector The selector the elements should match.
+     *
+     * @returns The matching elements.
+     */
+    public findAll(selector: ElementSelector): XmlElement[] {
+        return findElements(this, selector, false);
+    }
+
     /**
      * Inserts the specified node into this node's children at the specified
      * index. The node is not inserted if it is already present. If this node
@@ -216,7 +344,8 @@ export default class XmlDocument extends XmlNode {
     public procInst(target: string, content?: string,
                     index?: number): XmlProcInst
     {
-        const procInst = new XmlProcInst(target, content);
+        const procInst = createWithVersion(
+            this.xmlVersion(), () => new XmlProcInst(target, content));
         this.insertChild(procInst, index);
         return procInst;
     }
@@ -272,6 +401,53 @@ export default class XmlDocument extends XmlNode {
         throw new Error("XmlDocument does not contain a root node");
     }
 
+    /**
+     * Returns the XML string representation of this node encoded using the
+     * encoding specified in the XML declaration, or UTF-8 if no encoding is
+     * specified. In Node.js, the result is a `Buffer`.
+     *
+     * Only the UTF-8, UTF-16, UTF-16LE, UTF-16BE, ISO-8859-1, and US-ASCII
+     * encodings are supported. Characters in text and attribute values that
+     * cannot be represented in the encoding are replaced with character
+     * references. If such a character appears anywhere else, such as in a name
+     * or comment, an exception is thrown.
+     *
+     * @param options Formatting options for the encoded representation.
+     *
+     * @returns The encoded XML string representation of this node.
+     */
+    public toBuffer(options: IBufferOptions = {}): Uint8Array {
+        const optionsObj = new BufferOptions(options);
+
+        let encoding = "UTF-8";
+        const decl = this._children[0];
+        if (decl instanceof XmlDecl && !isUndefined(decl.encoding)) {
+            encoding = decl.encoding;
+        }
+
+        const stringOptions: IStringOptions = {
+            ...<IStringOptions> options,
+            escaping: {
+                attributeWhitespace: optionsObj.escaping.attributeWhitespace,
+                greaterThan: optionsObj.escaping.greaterThan,
+                map: optionsObj.escaping.map,
+                maxCodePoint: Math.min(optionsObj.escaping.maxCodePoint,
+                                       getMaxCodePoint(encoding))
+            }
+        };
+        let str = this.toString(stringOptions);
+        let bom = optionsObj.bom;
+        if (str.charAt(0) === "\uFEFF") {
+            // The byte order mark of the parsed document is written by the
+            // encoder where the encoding allows it
+            str = str.substring(1);
+            if (isUndefined(bom) && encoding.toUpperCase() === "UTF-8") {
+                bom = true;
+            }
+        }
+        return encode(str, encoding, bom);
+    }
+
     /**
      * Returns an XML string representation of this node.
      *
@@ -281,21 +457,77 @@ export default class XmlDocument extends XmlNode {
      * @returns {string} An XML string representation of this node.
      */
     public toString(options: IStringOptions = {}): string {
+        return new Serializer(this, options).read();
+    }
+
+    /**
+     * Returns a function that produces the parts of the XML string
+     * representation of this node one at a time. Each child node is returned
+     * as a separate part.
+     *
+     * @param options Formatting options for the string representation.
+     *
+     * @returns A function that produces the parts of the XML string
+     *          representation of this node.
+     *
+     * @private
+     */
+    public toStringParts(options: IStringOptions = {}): () => StringPart
+                                                              | undefined
+    {
         const optionsObj = new StringOptions(options);
+        const format = optionsObj.preserve ? this.format : undefined;
+        const children = this._children.filter(
+            node => !node.isOmitted(false, optionsObj));
 
-        let str = "";
-        for (const node of this._children) {
-            str += node.toString(options);
-            if (optionsObj.pretty) {
-                str += optionsObj.newline;
-            }
+        const parts: StringPart[] = [];
+        if (!isUndefined(format) && format.bom) {
+            parts.push("\uFEFF");
         }
+        let i = 0;
+        return () => {
+            if (parts.length > 0) {
+                return parts.shift();
+            } else if (i < children.length) {
+                const node = children[i];
+                let separator: string | undefined;
+                if (!isUndefined(format)) {
+                    separator = getSeparator(format.separators, node);
+                }
+                if (isUndefined(separator) && i > 0 && optionsObj.pretty) {
+                    separator = optionsObj.newline;
+                }
+                i++;
 
-        const len = str.length - optionsObj.newline.length;
-        if (str.substr(len) === optionsObj.newline) {
-            str = str.substr(0, len);
-        }
+                const part = {indent: false, node};
+                if (!isUndefined(separator)) {
+                    parts.push(part);
+                    return separator;
+                }
+                return part;
+            } else if (i === children.length) {
+                i++;
+                if (!isUndefined(format)) {
+                    return format.end;
+                }
+            }
+            return undefined;
+        };
+    }
 
-        return str;
+    /**
+     * Returns the version of XML whose rules apply to this document, as
+     * specified by its XML declaration. Documents without an XML declaration
+     * follow the rules of XML 1.0.
+     *
+     * @returns The version of XML.
+     *
+     * @private
+     */
+    public xmlVersion(): string {
+        if (this._children[0] instanceof XmlDecl) {
+            return (<XmlDecl> this._children[0]).version;
+        }
+        return "1.0";
     }
 }
@@ -14,18 +14,80 @@
  * limitations under the License.
  */
 
-import {IStringOptions, StringOptions} from "../options";
-import {isString, isUndefined} from "../utils";
-import {validateChar, validateName} from "../validate";
+import {
+    IStringOptions,
+    IVisitor,
+    StringOptions,
+    VisitorMethod
+} from "../options";
+import {visitNode} from "../serialize";
+import {isObject, isString, isUndefined} from "../utils";
+import {validateChar, validateName, validateWhitespace} from "../validate";
 import XmlComment from "./XmlComment";
 import XmlDtdAttlist from "./XmlDtdAttlist";
 import XmlDtdElement from "./XmlDtdElement";
 import XmlDtdEntity from "./XmlDtdEntity";
 import XmlDtdNotation from "./XmlDtdNotation";
 import XmlDtdParamEntityRef from "./XmlDtdParamEntityRef";
-import XmlNode from "./XmlNode";
+import XmlNode, {
+    ISeparator,
+    checkSeparators,
+    copySeparators,
+    createWithVersion,
+    getSeparator
+} from "./XmlNode";
 import XmlProcInst from "./XmlProcInst";
 
+/**
+ * The original formatting of an {@link XmlDtd} node. This object is recorded
+ * by the parser when formatting is preserved and is used when the `preserve`
+ * formatting option is enabled.
+ */
+export interface IDtdFormat {
+    /**
+     * The whitespace preceding the `SYSTEM` or `PUBLIC` keyword.
+     */
+    beforeExternalId: string;
+    /**
+     * The whitespace preceding the name of the DTD.
+     */
+    beforeName: string;
+    /**
+     * The whitespace preceding the public identifier.
+     */
+    beforePubId: string;
+    /**
+     * The whitespace preceding the opening square bracket of the internal
+     * subset.
+     */
+    beforeSubset: string;
+    /**
+     * The whitespace preceding the system identifier.
+     */
+    beforeSysId: string;
+    /**
+     * The whitespace preceding the closing angle bracket.
+     */
+    end: string;
+    /**
+     * The quotation mark enclosing the public identifier.
+     */
+    pubIdQuote: string;
+    /**
+     * The whitespace preceding each node in the internal subset.
+     */
+    separators: ISeparator[];
+    /**
+     * The whitespace preceding the closing square bracket of the internal
+     * subset.
+     */
+    subsetEnd: string;
+    /**
+     * The quotation mark enclosing the system identifier.
+     */
+    sysIdQuote: string;
+}
+
 /**
  * Represents an XML document type definition (DTD).
  *
@@ -49,6 +111,7 @@ import XmlProcInst from "./XmlProcInst";
  * {@link XmlProcInst} nodes.
  */
 export default class XmlDtd extends XmlNode {
+    private _format?: IDtdFormat;
     private _name: string;
     private _sysId?: string;
     private _pubId?: string;
@@ -69,6 +132,51 @@ export default class XmlDtd extends XmlNode {
         this.pubId = pubId;
     }
 
+    /**
+     * Gets the original formatting of the DTD.
+     *
+     * @returns The original formatting of the DTD. This value may be
+     *          undefined.
+     */
+    get format(): IDtdFormat | undefined {
+        return this._format;
+    }
+
+    /**
+     * Sets the original formatting of the DTD.
+     *
+     * @param format The original formatting of the DTD. This value may be
+     *               undefined.
+     */
+    set format(format: IDtdFormat | undefined) {
+        if (isObject(format)) {
+            checkSeparators(format.separators, "format.separators");
+            const whitespace: Array<keyof IDtdFormat> = [
+                "beforeExternalId", "beforeName", "beforePubId",
+                "beforeSubset", "beforeSysId", "end", "subsetEnd"
+            ];
+            for (const key of whitespace) {
+                const value = format[key];
+                if (!isString(value) || !validateWhitespace(value)) {
+                    throw new Error("format." + key + " should be a string"
+                                    + " containing only whitespace");
+                }
+            }
+            const quotes: Array<keyof IDtdFormat> = ["pubIdQuote",
+                                                     "sysIdQuote"];
+            for (const key of quotes) {
+                const value = format[key];
+                if (value !== "'" && value !== "\"") {
+                    throw new Error("format." + key + " should be a single"
+                                    + " or double quotation mark");
+                }
+            }
+        } else if (!isUndefined(format)) {
+            throw new TypeError("format should be an Object or undefined");
+        }
+        this._format = format;
+    }
+
     /**
      * Gets the name of the DTD.
      *
@@ -146,7 +254,7 @@ export default class XmlDtd extends XmlNode {
      */
     set sysId(sysId: string | undefined) {
         if (isString(sysId)) {
-            if (!validateChar(sysId)) {
+            if (!validateChar(sysId, this.xmlVersion())) {
                 throw new Error("sysId should not contain characters not"
                                 + " allowed in XML");
             } else if (sysId.indexOf("'") !== -1 &&
@@ -179,11 +287,39 @@ export default class XmlDtd extends XmlNode {
      * @returns The newly created attribute-list declaration.
      */
     public attlist(text: string, index?: number): XmlDtdAttlist {
-        const attlist = new XmlDtdAttlist(text);
+        const attlist = createWithVersion(this.xmlVersion(),
+                                          () => new XmlDtdAttlist(text));
         this.insertChild(attlist, index);
         return attlist;
     }
 
+    /**
+     * Returns a copy of this DTD, including its name and public and system
+     * identifiers. The copy has no parent.
+     *
+     * @param deep Whether the declarations and other nodes in the internal
+     *             subset of this DTD should be copied as well. If left
+     *             undefined, they are copied.
+     *
+     * @returns The copy of this DTD.
+     */
+    public clone(deep: boolean = true): XmlDtd {
+        const copy = createWithVersion(this.xmlVersion(), () => {
+            return new XmlDtd(this.name, this.sysId, this.pubId);
+        });
+        const children = deep ? this._children : [];
+        this.copyInto(copy, children, deep);
+        const format = this.format;
+        if (!isUndefined(format)) {
+            copy.format = {
+                ...format,
+                separators: copySeparators(format.separators, children,
+                                           copy._children)
+            };
+        }
+        return copy;
+    }
+
     /**
      * Inserts a new comment at the specified index. If no index is specified,
      * the node is inserted at the end of this node's children.
@@ -196,7 +332,8 @@ export default class XmlDtd extends XmlNode {
      * @returns The newly created comment.
      */
     public comment(content: string, index?: number): XmlComment {
-        const comment = new XmlComment(content);
+        const comment = createWithVersion(this.xmlVersion(),
+                                          () => new XmlComment(content));
         this.insertChild(comment, index);
         return comment;
     }
@@ -213,7 +350,8 @@ export default class XmlDtd extends XmlNode {
      * @returns The newly created element declaration.
      */
     public element(text: string, index?: number): XmlDtdElement {
-        const element = new XmlDtdElement(text);
+        const element = createWithVersion(this.xmlVersion(),
+                                          () => new XmlDtdElement(text));
         this.insertChild(element, index);
         return element;
     }
@@ -230,7 +368,8 @@ export default class XmlDtd extends XmlNode {
      * @returns The newly created entity declaration.
      */
     public entity(text: string, index?: number): XmlDtdEntity {
-        const entity = new XmlDtdEntity(text);
+        const entity = createWithVersion(this.xmlVersion(),
+                                         () => new XmlDtdEntity(text));
         this.insertChild(entity, index);
         return entity;
     }
@@ -279,7 +418,8 @@ export default class XmlDtd extends XmlNode {
      * @returns The newly created notation declaration.
      */
     public notation(text: string, index?: number): XmlDtdNotation {
-        const notation = new XmlDtdNotation(text);
+        const notation = createWithVersion(this.xmlVersion(),
+                                           () => new XmlDtdNotation(text));
         this.insertChild(notation, index);
         return notation;
     }
@@ -320,7 +460,8 @@ export default class XmlDtd extends XmlNode {
     public procInst(target: string, content?: string,
                     index?: number): XmlProcInst
     {
-        const procInst = new XmlProcInst(target, content);
+        const procInst = createWithVersion(
+            this.xmlVersion(), () => new XmlProcInst(target, content));
         this.insertChild(procInst, index);
         return procInst;
     }
@@ -335,6 +476,10 @@ export default class XmlDtd extends XmlNode {
     public toString(options: IStringOptions = {}): string {
         const optionsObj = new StringOptions(options);
 
+        if (optionsObj.preserve && !isUndefined(this.format)) {
+            return this.toPreservedString(this.format, optionsObj);
+        }
+
         let str = "<!DOCTYPE " + this.name;
         if (isUndefined(this.pubId)) {
             if (!isUndefined(this.sysId)) {
@@ -347,13 +492,16 @@ export default class XmlDtd extends XmlNode {
             str = appendId("", this.sysId!, str, optionsObj);
         }
 
-        if (this._children.length !== 0) {
+        const children = this._children.filter(
+            node => !node.isOmitted(false, optionsObj));
+        if (children.length !== 0) {
             str += " [";
-            for (const node of this._children) {
+            const indent = optionsObj.pretty ? optionsObj.indent : "";
+            for (const node of children) {
                 if (optionsObj.pretty) {
-                    str += optionsObj.newline + optionsObj.indent;
+                    str += optionsObj.newline + indent;
                 }
-                str += node.toString(options);
+                str += serializeChild(node, indent, options);
             }
             if (optionsObj.pretty) {
                 str += optionsObj.newline;
@@ -365,6 +513,109 @@ export default class XmlDtd extends XmlNode {
 
         return str;
     }
+
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return visitor.visitDtd;
+    }
+
+    /**
+     * Returns an XML string representation of this node that reproduces its
+     * original formatting.
+     *
+     * @param format The original formatting of this node.
+     * @param options Formatting options for the string representation.
+     *
+     * @returns An XML string representation of this node.
+     */
+    private toPreservedString(format: IDtdFormat,
+                              options: StringOptions): string
+    {
+        let str = "<!DOCTYPE" + (format.beforeName || " ") + this.name;
+        if (!isUndefined(this.sysId)) {
+            str += format.beforeExternalId || " ";
+            if (isUndefined(this.pubId)) {
+                str += "SYSTEM";
+            } else {
+                str += "PUBLIC" + (format.beforePubId || " ")
+                       + quoteId(this.pubId, format.pubIdQuote);
+            }
+            str += (format.beforeSysId || " ")
+                   + quoteId(this.sysId, format.sysIdQuote);
+        }
+
+        const children = this._children.filter(
+            node => !node.isOmitted(false, options));
+        if (children.length !== 0) {
+            str += format.beforeSubset + "[";
+            for (const node of children) {
+                const separator = getSeparator(format.separators, node);
+                let indent = "";
+                if (!isUndefined(separator)) {
+                    str += separator;
+                    indent = separator.substring(
+                        Math.max(separator.lastIndexOf("\n"),
+                                 separator.lastIndexOf("\r")) + 1);
+                } else if (options.pretty) {
+                    str += options.newline + options.indent;
+                    indent = options.indent;
+                }
+                str += serializeChild(node, indent, options);
+            }
+            str += format.subsetEnd + "]";
+        }
+
+        return str + format.end + ">";
+    }
+}
+
+/**
+ * Returns the string representation of the specified node in the internal
+ * subset of a DTD, produced by the visitor specified by the `visitor`
+ * formatting option if it handles the type of the node.
+ *
+ * @param node The node.
+ * @param indent The indentation of the line on which the node is written.
+ * @param options Formatting options for the string representation.
+ *
+ * @returns The string representation of the node.
+ *
+ * @private
+ */
+function serializeChild(node: XmlNode, indent: string,
+                        options: IStringOptions): string
+{
+    const visited = visitNode(node, new StringOptions(options), indent,
+                              () => node.toString(options));
+    return isUndefined(visited) ? node.toString(options) : visited;
+}
+
+/**
+ * Encloses the specified public or system identifier in the specified
+ * quotation mark, or in the other quotation mark if the identifier contains
+ * the specified one.
+ *
+ * @param value The value of the identifier.
+ * @param quote The preferred quotation mark.
+ *
+ * @returns The quoted identifier.
+ *
+ * @private
+ */
+function quoteId(value: string, quote: string): string {
+    if (value.indexOf(quote) !== -1) {
+        quote = quote === "'" ? "\"" : "'";
+    }
+    return quote + value + quote;
 }
 
 /**
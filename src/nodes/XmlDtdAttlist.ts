@@ -14,10 +14,19 @@
  * limitations under the License.
  */
 
-import {IStringOptions} from "../options";
-import {isString} from "../utils";
+import {
+    IStringOptions,
+    IVisitor,
+    StringOptions,
+    VisitorMethod
+} from "../options";
+import {isString, isUndefined} from "../utils";
 import {validateChar} from "../validate";
-import XmlNode from "./XmlNode";
+import XmlNode, {
+    IMarkupFormat,
+    checkMarkupFormat,
+    createWithVersion
+} from "./XmlNode";
 
 /**
  * Represents an XML attribute-list declaration in a document type definition.
@@ -34,6 +43,7 @@ import XmlNode from "./XmlNode";
  * XmlDtdAttlist nodes cannot have any children.
  */
 export default class XmlDtdAttlist extends XmlNode {
+    private _format?: IMarkupFormat;
     private _text: string;
 
     /**
@@ -46,6 +56,27 @@ export default class XmlDtdAttlist extends XmlNode {
         this.text = text;
     }
 
+    /**
+     * Gets the original formatting of the declaration.
+     *
+     * @returns The original formatting of the declaration. This value may be
+     *          undefined.
+     */
+    get format(): IMarkupFormat | undefined {
+        return this._format;
+    }
+
+    /**
+     * Sets the original formatting of the declaration.
+     *
+     * @param format The original formatting of the declaration. This value may
+     *               be undefined.
+     */
+    set format(format: IMarkupFormat | undefined) {
+        checkMarkupFormat(format);
+        this._format = format;
+    }
+
     /**
      * Gets the text associated with the XML attribute-list declaration.
      *
@@ -63,7 +94,7 @@ export default class XmlDtdAttlist extends XmlNode {
     set text(text: string) {
         if (!isString(text)) {
             throw new TypeError("text should be a string");
-        } else if (!validateChar(text)) {
+        } else if (!validateChar(text, this.xmlVersion())) {
             throw new Error("data should not contain characters"
                             + " not allowed in XML");
         }
@@ -80,6 +111,21 @@ export default class XmlDtdAttlist extends XmlNode {
         throw new Error("XmlDtdAttlist nodes cannot have children");
     }
 
+    /**
+     * Returns a copy of this node. The copy has no parent.
+     *
+     * @param deep This parameter is unused.
+     *
+     * @returns The copy of this node.
+     */
+    public clone(deep: boolean = true): XmlDtdAttlist {
+        const copy = createWithVersion(this.xmlVersion(),
+                                       () => new XmlDtdAttlist(this.text));
+        copy.format = isUndefined(this.format) ? undefined
+                                               : {...this.format};
+        return this.copyInto(copy, [], deep);
+    }
+
     /**
      * Throws an exception since {@link XmlDtdAttlist} nodes cannot have any
      * children.
@@ -125,6 +171,23 @@ export default class XmlDtdAttlist extends XmlNode {
      * @returns An XML string representation of this node.
      */
     public toString(options: IStringOptions = {}): string {
-        return "<!ATTLIST " + this.text + ">";
+        const optionsObj = new StringOptions(options);
+        const separator = optionsObj.preserve && !isUndefined(this.format)
+                          ? this.format.separator : " ";
+        return "<!ATTLIST" + separator + this.text + ">";
+    }
+
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return visitor.visitDtdAttlist;
     }
 }
@@ -14,10 +14,10 @@
  * limitations under the License.
  */
 
-import {IStringOptions} from "../options";
+import {IStringOptions, IVisitor, VisitorMethod} from "../options";
 import {isString} from "../utils";
 import {validateName} from "../validate";
-import XmlNode from "./XmlNode";
+import XmlNode, {createWithVersion} from "./XmlNode";
 
 /**
  * Represents an XML parameter entity reference in a document type definition.
@@ -80,6 +80,20 @@ export default class XmlDtdParamEntityRef extends XmlNode {
         throw new Error("XmlDtdParamEntityRef nodes cannot have children");
     }
 
+    /**
+     * Returns a copy of this node. The copy has no parent.
+     *
+     * @param deep This parameter is unused.
+     *
+     * @returns The copy of this node.
+     */
+    public clone(deep: boolean = true): XmlDtdParamEntityRef {
+        const copy = createWithVersion(this.xmlVersion(), () => {
+            return new XmlDtdParamEntityRef(this.entity);
+        });
+        return this.copyInto(copy, [], deep);
+    }
+
     /**
      * Throws an exception since {@link XmlDtdParamEntityRef} nodes cannot have
      * any children.
@@ -127,4 +141,18 @@ export default class XmlDtdParamEntityRef extends XmlNode {
     public toString(options: IStringOptions = {}): string {
         return "%" + this.entity + ";";
     }
+
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return visitor.visitDtdParamEntityRef;
+    }
 }
@@ -14,18 +14,73 @@
  * limitations under the License.
  */
 
-import {IStringOptions, StringOptions} from "../options";
-import {isArray, isString} from "../utils";
-import {validateName} from "../validate";
+import {checkNamespace, xmlNamespace} from "../names";
+import {
+    INamespaces,
+    IQualifiedName,
+    checkPrefix,
+    checkQualifiedName,
+    resolveNames
+} from "../namespaces";
+import {
+    AttributeOrder,
+    ElementSelector,
+    IStringOptions,
+    IVisitor,
+    StringOptions,
+    VisitorMethod,
+    checkElementSelector,
+    isAttributeOrder
+} from "../options";
+import {parseFragment} from "../parse";
+import {findElements, matchesSelector} from "../query";
+import {
+    Serializer,
+    formatAttributes,
+    getEmptyTagEnd,
+    isInlineElement,
+    sortAttributes
+} from "../serialize";
+import {
+    isArray,
+    isBoolean,
+    isObject,
+    isString,
+    isUndefined
+} from "../utils";
+import {validateName, validateWhitespace} from "../validate";
 import XmlAttribute from "./XmlAttribute";
 import XmlCdata from "./XmlCdata";
 import XmlCharRef from "./XmlCharRef";
 import XmlComment from "./XmlComment";
 import XmlEntityRef from "./XmlEntityRef";
-import XmlNode from "./XmlNode";
+import XmlNode, {StringPart, createWithVersion} from "./XmlNode";
 import XmlProcInst from "./XmlProcInst";
 import XmlText from "./XmlText";
 
+/**
+ * The original formatting of an {@link XmlElement} node. This object is
+ * recorded by the parser when formatting is preserved and is used when the
+ * `preserve` formatting option is enabled.
+ */
+export interface IElementFormat {
+    /**
+     * The whitespace preceding the closing angle bracket of the end tag.
+     */
+    endTagEnd: string;
+    /**
+     * Whether the element was written as an empty-element tag, such as
+     * `<a/>`, rather than as a start tag followed by an end tag. Elements
+     * with children other than attributes always have an end tag.
+     */
+    selfClosing: boolean;
+    /**
+     * The whitespace preceding the closing angle bracket of the start tag or
+     * empty-element tag.
+     */
+    startTagEnd: string;
+}
+
 /**
  * Represents an XML element.
  *
@@ -50,20 +105,70 @@ import XmlText from "./XmlText";
  * {@link XmlText} nodes as children.
  */
 export default class XmlElement extends XmlNode {
+    private _format?: IElementFormat;
     private _name: string;
+    private _namespace?: string;
+    private _prefix?: string;
 
     /**
      * Initializes a new instance of the {@link XmlElement} class.
      *
-     * @param name The name of the element.
+     * @param name The name of the element, or its qualified name if the
+     *             element is in a namespace.
      */
-    constructor(name: string) {
+    constructor(name: string | IQualifiedName) {
         super();
-        this.name = name;
+        if (isString(name)) {
+            this.name = name;
+        } else {
+            checkQualifiedName(name, false, "name");
+            this._name = name.local;
+            this._namespace = name.ns;
+            this._prefix = name.prefix;
+        }
+    }
+
+    /**
+     * Gets the original formatting of the element.
+     *
+     * @returns The original formatting of the element. This value may be
+     *          undefined.
+     */
+    get format(): IElementFormat | undefined {
+        return this._format;
+    }
+
+    /**
+     * Sets the original formatting of the element.
+     *
+     * @param format The original formatting of the element. This value may be
+     *               undefined.
+     */
+    set format(format: IElementFormat | undefined) {
+        if (isObject(format)) {
+            if (!isBoolean(format.selfClosing)) {
+                throw new TypeError("format.selfClosing should be a"
+                                    + " boolean");
+            } else if (!isString(format.startTagEnd)
+                       || !validateWhitespace(format.startTagEnd))
+            {
+                throw new Error("format.startTagEnd should be a string"
+                                + " containing only whitespace");
+            } else if (!isString(format.endTagEnd)
+                       || !validateWhitespace(format.endTagEnd))
+            {
+                throw new Error("format.endTagEnd should be a string"
+                                + " containing only whitespace");
+            }
+        } else if (!isUndefined(format)) {
+            throw new TypeError("format should be an Object or undefined");
+        }
+        this._format = format;
     }
 
     /**
-     * Gets the name of the element.
+     * Gets the name of the element. If the element is in a namespace, this is
+     * the local part of its name.
      *
      * @returns The name of the element.
      */
@@ -72,7 +177,8 @@ export default class XmlElement extends XmlNode {
     }
 
     /**
-     * Sets the name of the element.
+     * Sets the name of the element. If the element is in a namespace, this is
+     * the local part of its name, which should not contain colons.
      *
      * @param name The name of the element.
      */
@@ -82,15 +188,72 @@ export default class XmlElement extends XmlNode {
         } else if (!validateName(name)) {
             throw new Error("name should not contain characters not"
                             + " allowed in XML names");
+        } else if (!isUndefined(this._namespace) && name.indexOf(":") !== -1)
+        {
+            throw new Error("name should not contain colons if the element"
+                            + " is in a namespace");
         }
         this._name = name;
     }
 
+    /**
+     * Gets the namespace name of the element.
+     *
+     * @returns The namespace name of the element, or undefined if the element
+     *          is not in a namespace.
+     */
+    get namespace(): string | undefined {
+        return this._namespace;
+    }
+
+    /**
+     * Sets the namespace name of the element. The prefix of its name and the
+     * namespace declarations it needs are determined when it is serialized.
+     *
+     * @param namespace The namespace name of the element, or undefined if the
+     *                  element is not in a namespace.
+     */
+    set namespace(namespace: string | undefined) {
+        checkNamespace(namespace, "namespace");
+        if (!isUndefined(namespace) && this._name.indexOf(":") !== -1) {
+            throw new Error("namespace should be undefined if the name"
+                            + " contains colons");
+        }
+        checkPrefix(this._prefix, namespace, false, "prefix");
+        this._namespace = namespace;
+    }
+
+    /**
+     * Gets the preferred prefix of the name of the element.
+     *
+     * @returns The preferred prefix of the name of the element. This value
+     *          may be undefined.
+     */
+    get prefix(): string | undefined {
+        return this._prefix;
+    }
+
+    /**
+     * Sets the preferred prefix of the name of the element. The empty string
+     * requests that the element be placed in the default namespace. The
+     * prefix is only used if it is not already bound to another namespace by
+     * a declaration on the element itself.
+     *
+     * @param prefix The preferred prefix of the name of the element. This
+     *               value may be undefined, and should be undefined if the
+     *               element is not in a namespace.
+     */
+    set prefix(prefix: string | undefined) {
+        checkPrefix(prefix, this._namespace, false, "prefix");
+        this._prefix = prefix;
+    }
+
     /**
      * Inserts an new attribute at the specified index. If no index is
      * specified, the node is inserted at the end of this node's children.
      *
-     * @param name The name of the attribute.
+     * @param name The name of the attribute, or its qualified name if the
+     *             attribute is in a namespace.
      * @param value The value of the attribute. Strings are converted to
      *        XmlText nodes.
      * @param index The index at which the node should be inserted. If no index
@@ -99,22 +262,24 @@ export default class XmlElement extends XmlNode {
      *
      * @returns {XmlAttribute} The newly created attribute.
      */
-    public attribute(name: string, value: string | XmlNode | (string|XmlNode)[],
+    public attribute(name: string | IQualifiedName,
+                     value: string | XmlNode | (string|XmlNode)[],
                      index?: number): XmlAttribute
     {
-        if (isString(value)) {
-            value = new XmlText(value);
-        } else if (isArray(value)) {
-            const arrayVal = <(string|XmlNode)[]> value;
-            for (let i = 0; i < arrayVal.length; i++) {
-                if (isString(arrayVal[i])) {
-                    const strVal = <string> arrayVal[i];
-                    arrayVal[i] = new XmlText(strVal);
+        const attribute = createWithVersion(this.xmlVersion(), () => {
+            if (isString(value)) {
+                value = new XmlText(value);
+            } else if (isArray(value)) {
+                const arrayVal = <(string|XmlNode)[]> value;
+                for (let i = 0; i < arrayVal.length; i++) {
+                    if (isString(arrayVal[i])) {
+                        const strVal = <string> arrayVal[i];
+                        arrayVal[i] = new XmlText(strVal);
+                    }
                 }
             }
-        }
-
-        const attribute = new XmlAttribute(name, <XmlNode|XmlNode[]> value);
+            return new XmlAttribute(name, <XmlNode|XmlNode[]> value);
+        });
         this.insertChild(attribute, index);
         return attribute;
     }
@@ -143,7 +308,8 @@ export default class XmlElement extends XmlNode {
      * @returns The newly created CDATA section.
      */
     public cdata(content: string, index?: number): XmlCdata {
-        const cdata = new XmlCdata(content);
+        const cdata = createWithVersion(this.xmlVersion(),
+                                        () => new XmlCdata(content));
         this.insertChild(cdata, index);
         return cdata;
     }
@@ -162,11 +328,33 @@ export default class XmlElement extends XmlNode {
      * @returns The newly created character reference.
      */
     public charRef(char: string, hex?: boolean, index?: number): XmlCharRef {
-        const charRef = new XmlCharRef(char, hex);
+        const charRef = createWithVersion(this.xmlVersion(),
+                                          () => new XmlCharRef(char, hex));
         this.insertChild(charRef, index);
         return charRef;
     }
 
+    /**
+     * Returns a copy of this element. The copy has no parent.
+     *
+     * @param deep Whether the children of this element other than its
+     *             attributes should be copied as well, along with their
+     *             descendants. Attributes are always copied. If left
+     *             undefined, all children are copied.
+     *
+     * @returns The copy of this element.
+     */
+    public clone(deep: boolean = true): XmlElement {
+        const name: string | IQualifiedName = isUndefined(this.namespace)
+            ? this.name
+            : {local: this.name, ns: this.namespace, prefix: this.prefix};
+        const copy = new XmlElement(name);
+        copy.format = isUndefined(this.format) ? undefined
+                                               : {...this.format};
+        return this.copyInto(copy, deep ? this._children : this.attributes(),
+                             deep);
+    }
+
     /**
      * Inserts a new comment at the specified index. If no index is specified,
      * the node is inserted at the end of this node's children.
@@ -179,7 +367,8 @@ export default class XmlElement extends XmlNode {
      * @returns The newly created comment.
      */
     public comment(content: string, index?: number): XmlComment {
-        const comment = new XmlComment(content);
+        const comment = createWithVersion(this.xmlVersion(),
+                                          () => new XmlComment(content));
         this.insertChild(comment, index);
         return comment;
     }
@@ -188,14 +377,17 @@ export default class XmlElement extends XmlNode {
      * Inserts a new element at the specified index. If no index is specified,
      * the node is inserted at the end of this node's children.
      *
-     * @param name The name of the element.
+     * @param name The name of the element, or its qualified name if the
+     *             element is in a namespace.
      * @param index The index at which the node should be inserted. If no index
      *              is specified, the node is inserted at the end of this
      *              node's children.
      *
      * @returns The newly created element.
      */
-    public element(name: string, index?: number): XmlElement {
+    public element(name: string | IQualifiedName,
+                   index?: number): XmlElement
+    {
         const element = new XmlElement(name);
         this.insertChild(element, index);
         return element;
@@ -218,6 +410,58 @@ export default class XmlElement extends XmlNode {
         return entityRef;
     }
 
+    /**
+     * Returns the first descendant of this element, in document order, that
+     * is an element matching the specified selector.
+     *
+     * @param selector The selector the element should match.
+     *
+     * @returns The matching element, or undefined if there is none.
+     */
+    public find(selector: ElementSelector): XmlElement | undefined {
+        return findElements(this, selector, true)[0];
+    }
+
+    /**
+     * Returns the descendants of this element, in document order, that are
+     * elements matching the specified selector.
+     *
+     * @param selector The selector the elements should match.
+     *
+     * @returns The matching elements.
+     */
+    public findAll(selector: ElementSelector): XmlElement[] {
+        return findElements(this, selector, false);
+    }
+
+    /**
+     * Parses the specified XML fragment and inserts the resulting nodes at the
+     * specified index. If no index is specified, the nodes are inserted at the
+     * end of this node's children.
+     *
+     * The fragment may contain any mix of character data, references, CDATA
+     * sections, comments, processing instructions, and elements, such as
+     * `<b>hi</b> &amp; <i>there</i>`. The fragment is parsed using the rules
+     * of the version of XML that applies to this element. Throws an exception
+     * if the fragment is not well-formed; in that case, no nodes are
+     * inserted.
+     *
+     * @param xml The XML fragment to parse.
+     * @param index The index at which the nodes should be inserted. If no
+     *              index is specified, the nodes are inserted at the end of
+     *              this node's children.
+     *
+     * @returns The newly inserted nodes.
+     */
+    public fragment(xml: string, index?: number): XmlNode[] {
+        const nodes = parseFragment(xml, {}, this.xmlVersion());
+        for (let i = 0; i < nodes.length; i++) {
+            this.insertChild(nodes[i],
+                             isUndefined(index) ? index : index + i);
+        }
+        return nodes;
+    }
+
     /**
      * Inserts the specified node into this node's children at the specified
      * index. The node is not inserted if it is already present. If this node
@@ -253,13 +497,20 @@ export default class XmlElement extends XmlNode {
         }
 
         if (node instanceof XmlAttribute) {
+            // Attributes in a namespace are identified by their namespace
+            // name and local name
             const attributes = this._children.filter(
                 n => n instanceof XmlAttribute);
             for (const attribute of <XmlAttribute[]> attributes) {
-                if (attribute.name === node.name) {
+                if (attribute.name === node.name
+                    && attribute.namespace === node.namespace)
+                {
                     throw new Error("element already contains an"
                                     + " XmlAttribute object with name "
-                                    + node.name);
+                                    + node.name
+                                    + (isUndefined(node.namespace)
+                                       ? ""
+                                       : " in namespace " + node.namespace));
                 }
             }
         }
@@ -267,6 +518,18 @@ export default class XmlElement extends XmlNode {
         return super.insertChild(node, index);
     }
 
+    /**
+     * Returns true if this element matches the specified selector.
+     *
+     * @param selector The selector.
+     *
+     * @returns Whether this element matches the selector.
+     */
+    public matches(selector: ElementSelector): boolean {
+        checkElementSelector(selector);
+        return matchesSelector(this, selector);
+    }
+
     /**
      * Inserts a new processing instruction at the specified index. If no index
      * is specified, the node is inserted at the end of this node's children.
@@ -283,11 +546,39 @@ export default class XmlElement extends XmlNode {
     public procInst(target: string, content?: string,
                     index?: number): XmlProcInst
     {
-        const procInst = new XmlProcInst(target, content);
+        const procInst = createWithVersion(
+            this.xmlVersion(), () => new XmlProcInst(target, content));
         this.insertChild(procInst, index);
         return procInst;
     }
 
+    /**
+     * Reorders the attributes of this node in place. The other children of
+     * this node are not moved, and each attribute takes the place of one of
+     * the existing attributes.
+     *
+     * @param order The order in which the attributes should be sorted. If left
+     *              undefined, the attributes are sorted alphabetically.
+     *
+     * @returns This node.
+     */
+    public sortAttributes(order: AttributeOrder = "alphabetical"): XmlElement {
+        if (!isAttributeOrder(order)) {
+            throw new TypeError("order should be \"alphabetical\","
+                                + " \"insertion\","
+                                + " \"namespace-declarations-first\", or a"
+                                + " function");
+        }
+
+        const sorted = sortAttributes(this.attributes(), order);
+        for (let i = 0, j = 0; i < this._children.length; i++) {
+            if (this._children[i] instanceof XmlAttribute) {
+                this._children[i] = sorted[j++];
+            }
+        }
+        return this;
+    }
+
     /**
      * Inserts some new text at the specified index. If no index is specified,
      * the node is inserted at the end of this node's children.
@@ -300,7 +591,8 @@ export default class XmlElement extends XmlNode {
      * @returns The newly created text node.
      */
     public text(text: string, index?: number): XmlText {
-        const txt = new XmlText(text);
+        const txt = createWithVersion(this.xmlVersion(),
+                                      () => new XmlText(text));
         this.insertChild(txt, index);
         return txt;
     }
@@ -312,86 +604,194 @@ export default class XmlElement extends XmlNode {
      *
      * @returns An XML string representation of this node.
      */
-    public toString(options: IStringOptions = {}) {
+    public toString(options: IStringOptions = {}): string {
+        return new Serializer(this, options).read();
+    }
+
+    /**
+     * Returns a function that produces the parts of the XML string
+     * representation of this node one at a time. The start tag, the end tag
+     * and the whitespace added when pretty-printing are returned as strings,
+     * while each child node is returned as a separate part.
+     *
+     * Namespace declarations are added for the namespaces of this node, its
+     * descendants and their attributes that are not declared by the
+     * ancestors included in the string representation.
+     *
+     * @param options Formatting options for the string representation.
+     * @param scope The namespaces in scope at the parent of this node, or
+     *              undefined if this node is the outermost element in the
+     *              string representation.
+     * @param spacePreserved Whether whitespace is significant in the content
+     *                       of the parent of this node, or undefined if this
+     *                       node is the outermost element in the string
+     *                       representation.
+     * @param depth The number of elements enclosing this node in the string
+     *              representation.
+     *
+     * @returns A function that produces the parts of the XML string
+     *          representation of this node.
+     *
+     * @private
+     */
+    public toStringParts(options: IStringOptions = {}, scope?: INamespaces,
+                         spacePreserved?: boolean,
+                         depth: number = 0): () => StringPart | undefined
+    {
         const optionsObj = new StringOptions(options);
+        const names = resolveNames(this, scope);
 
-        const attributes = this.attributes();
+        const format = optionsObj.preserve ? this.format : undefined;
+        const pretty = optionsObj.pretty && !optionsObj.preserve;
+        const preserved = (pretty || !isUndefined(optionsObj.minify))
+                          && isSpacePreserved(this,
+                                              optionsObj.whitespaceSensitive,
+                                              spacePreserved);
+
+        const attributes = sortAttributes(this.attributes(),
+                                          optionsObj.attributeOrder);
         const nodes = this._children.filter(node => {
-            return (<XmlNode[]> attributes).indexOf(node) === -1;
+            return (<XmlNode[]> attributes).indexOf(node) === -1
+                   && !node.isOmitted(preserved, optionsObj);
         });
 
+        let emptyTagEnd: string | undefined;
+        if (nodes.length === 0) {
+            if (isUndefined(format)) {
+                emptyTagEnd = getEmptyTagEnd(this._name, optionsObj);
+            } else if (format.selfClosing) {
+                emptyTagEnd = "/>";
+            }
+        }
+        const empty = !isUndefined(emptyTagEnd);
+        const end = isUndefined(emptyTagEnd) ? ">" : emptyTagEnd;
+
         // Element tag start
-        let str = "<" + this._name;
+        let startTag = "<" + names.name;
+
+        // Namespace declarations and attributes
+        const declarations = names.declarations.map(prefix => {
+            return new XmlAttribute(prefix === "" ? "xmlns" : "xmlns:" + prefix,
+                                    new XmlText(names.scope[prefix]))
+                .toString(options);
+        });
+        const unsorted = this.attributes();
+        const attributeStrings = attributes.map(attribute => {
+            return attribute.toStringWithName(
+                names.attributes[unsorted.indexOf(attribute)], options);
+        });
+        if (pretty) {
+            startTag += formatAttributes(
+                names.name, declarations.concat(attributeStrings), end,
+                optionsObj, depth);
+        } else {
+            for (const declaration of declarations) {
+                startTag += " " + declaration;
+            }
+            for (let j = 0; j < attributes.length; j++) {
+                const attribute = attributes[j];
+                if (optionsObj.preserve && !isUndefined(attribute.format)) {
+                    startTag += attribute.format.before;
+                } else {
+                    startTag += " ";
+                }
+                startTag += attributeStrings[j];
+            }
+            if (!isUndefined(format)) {
+                startTag += format.startTagEnd;
+            }
+            startTag += end;
+        }
 
-        // Attributes
-        for (const attribute of attributes) {
-            str += " " + attribute.toString(options);
+        if (empty) {
+            // Element empty tag end
+            let emptyTag: string | undefined = startTag;
+            return () => {
+                const part = emptyTag;
+                emptyTag = undefined;
+                return part;
+            };
         }
 
-        // Child nodes
-        if (nodes.length > 0) {
-            // Element non-empty tag end
-            str += ">";
+        // Line breaks are added before child nodes and the end tag unless all
+        // nodes are of type XmlCharacterReference, XmlEntityReference, or
+        // XmlText or are inline elements, the element has mixed content in
+        // mixed-content mode, or whitespace is significant in this element
+        const verbatim = pretty && preserved;
+        const lineBreaks = pretty && !verbatim
+                           && !allSameLineNodes(nodes, optionsObj)
+                           && !(optionsObj.mixedContent && hasText(nodes));
+
+        // Element end tag
+        let endTag = "</" + names.name;
+        if (!isUndefined(format)) {
+            endTag += format.endTagEnd;
+        }
+        endTag += ">";
 
-            const indenter = (line: string) => optionsObj.indent + line;
-            for (let i = 0; i < nodes.length; i++) {
+        // Element non-empty tag end
+        const parts: StringPart[] = [startTag];
+        let i = 0;
+        return () => {
+            if (parts.length > 0) {
+                return parts.shift();
+            } else if (i < nodes.length) {
                 const next = nodes[i];
-                let nextStr = next.toString(options);
                 const prev = i > 0 ? nodes[i - 1] : undefined;
+                i++;
 
-                // Line break before child nodes unless all nodes, or at least
-                // the most recent two, are of type XmlCharacterReference,
-                // XmlEntityReference, or XmlText
-                if (optionsObj.pretty) {
-                    if (!allSameLineNodes(nodes)) {
-                        if (!(i > 0 && onSameLine(next, prev))) {
-                            str += optionsObj.newline;
-                            nextStr = nextStr.split(optionsObj.newline)
-                                             .map(indenter)
-                                             .join(optionsObj.newline);
-                        }
-                    }
-                }
-
-                str += nextStr;
-            }
-
-            // Line break before end tag unless all nodes are of type
-            // XmlCharacterReference, XmlEntityReference, or XmlText
-            if (optionsObj.pretty) {
-                if (!allSameLineNodes(nodes)) {
-                    str += optionsObj.newline;
+                // Line break before child nodes unless the most recent two
+                // are of type XmlCharacterReference, XmlEntityReference, or
+                // XmlText
+                if (lineBreaks
+                    && !(i > 1 && onSameLine(next, prev, optionsObj)))
+                {
+                    parts.push({depth: depth + 1, indent: true, node: next,
+                                scope: names.scope, spacePreserved: preserved});
+                    return optionsObj.newline;
                 }
+                return {depth: depth + 1, indent: false, node: next,
+                        scope: names.scope, spacePreserved: preserved,
+                        verbatim};
+            } else if (i === nodes.length) {
+                i++;
+                return lineBreaks ? optionsObj.newline + endTag : endTag;
             }
+            return undefined;
+        };
+    }
 
-            // Element end tag
-            str += "</" + this._name + ">";
-        } else {
-            // Element empty tag end
-            str += "/>";
-        }
-
-        return str;
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return visitor.visitElement;
     }
 }
 
 /**
  * Returns true if the specified nodes are all of type {@link XmlCharRef},
- * {@link XmlEntityRef}, or {@link XmlText}.
+ * {@link XmlEntityRef}, or {@link XmlText}, or are inline elements.
  *
  * @param nodes The specified nodes.
+ * @param options Formatting options for the string representation.
  *
  * @returns Whether or not the specified nodes are all of type
- *          {@link XmlCharRef}, {@link XmlEntityRef}, or {@link XmlText}.
+ *          {@link XmlCharRef}, {@link XmlEntityRef}, or {@link XmlText}, or
+ *          are inline elements.
  *
  * @private
  */
-function allSameLineNodes(nodes: XmlNode[]): boolean {
+function allSameLineNodes(nodes: XmlNode[], options: StringOptions): boolean {
     for (const node of nodes) {
-        if (!((node instanceof XmlCharRef
-               || node instanceof XmlEntityRef
-               || node instanceof XmlText)))
-        {
+        if (!isSameLineNode(node, options)) {
             return false;
         }
     }
@@ -399,22 +799,117 @@ function allSameLineNodes(nodes: XmlNode[]): boolean {
 }
 
 /**
- * Returns true if the specified nodes are all of type {@link XmlCharRef},
- * {@link XmlEntityRef}, or {@link XmlText}.
+ * Returns true if any of the specified nodes is an {@link XmlText} node
+ * containing characters other than whitespace, or is of type
+ * {@link XmlCharRef} or {@link XmlEntityRef}.
+ *
+ * @param nodes The specified nodes.
+ *
+ * @returns Whether or not any of the specified nodes is text other than
+ *          whitespace.
+ *
+ * @private
+ */
+function hasText(nodes: XmlNode[]): boolean {
+    for (const node of nodes) {
+        if ((node instanceof XmlText && /[^ \t\r\n]/.test(node.text))
+            || node instanceof XmlCharRef
+            || node instanceof XmlEntityRef)
+        {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Returns true if the specified node is of type {@link XmlCharRef},
+ * {@link XmlEntityRef}, or {@link XmlText}, or is an inline element.
+ *
+ * @param node The specified node.
+ * @param options Formatting options for the string representation.
+ *
+ * @returns Whether or not the specified node is of type {@link XmlCharRef},
+ *          {@link XmlEntityRef}, or {@link XmlText}, or is an inline element.
+ *
+ * @private
+ */
+function isSameLineNode(node: XmlNode | undefined,
+                        options: StringOptions): boolean
+{
+    return node instanceof XmlCharRef
+           || node instanceof XmlEntityRef
+           || node instanceof XmlText
+           || (node instanceof XmlElement
+               && isInlineElement(node.name, options));
+}
+
+/**
+ * Returns true if the specified nodes are both of type {@link XmlCharRef},
+ * {@link XmlEntityRef}, or {@link XmlText}, or are inline elements.
  *
  * @param prev The first specified node.
  * @param next The second specified node.
+ * @param options Formatting options for the string representation.
  *
- * @returns Whether or not the specified nodes are all of type
- *          {@link XmlCharRef}, {@link XmlEntityRef}, or {@link XmlText}.
+ * @returns Whether or not the specified nodes are both of type
+ *          {@link XmlCharRef}, {@link XmlEntityRef}, or {@link XmlText}, or
+ *          are inline elements.
  *
  * @private
  */
-function onSameLine(prev: XmlNode, next?: XmlNode): boolean {
-    return (prev instanceof XmlCharRef
-            || prev instanceof XmlEntityRef
-            || prev instanceof XmlText)
-           && (next instanceof XmlCharRef
-               || next instanceof XmlEntityRef
-               || next instanceof XmlText);
+function onSameLine(prev: XmlNode, next: XmlNode | undefined,
+                    options: StringOptions): boolean
+{
+    return isSameLineNode(prev, options) && isSameLineNode(next, options);
+}
+
+/**
+ * Returns true if whitespace is significant in the content of the specified
+ * element, either because its name or the name of one of its ancestors is in
+ * the specified list, or because the nearest `xml:space` attribute on the
+ * element or its ancestors is set to "preserve".
+ *
+ * @param element The specified element.
+ * @param names The names of elements in which whitespace is always
+ *              significant.
+ * @param inherited Whether whitespace is significant in the content of the
+ *                  parent of the element. If left undefined, the ancestors of
+ *                  the element are examined instead.
+ *
+ * @returns Whether whitespace is significant in the content of the element.
+ *
+ * @private
+ */
+function isSpacePreserved(element: XmlElement, names: string[],
+                          inherited?: boolean): boolean
+{
+    if (names.indexOf(element.name) !== -1) {
+        return true;
+    }
+    for (const attribute of element.attributes()) {
+        const space = isUndefined(attribute.namespace)
+                      ? attribute.name === "xml:space"
+                      : attribute.namespace === xmlNamespace
+                        && attribute.name === "space";
+        if (!space) {
+            continue;
+        }
+        let value = "";
+        for (const child of attribute.children()) {
+            if (child instanceof XmlText) {
+                value += child.text;
+            } else if (child instanceof XmlCharRef) {
+                value += child.char;
+            }
+        }
+        if (value === "preserve" || value === "default") {
+            return value === "preserve";
+        }
+    }
+    if (!isUndefined(inherited)) {
+        return inherited;
+    }
+    return element.parent instanceof XmlElement
+           && isSpacePreserved(element.parent, names);
 }
@@ -14,10 +14,10 @@
  * limitations under the License.
  */
 
-import {IStringOptions} from "../options";
+import {IStringOptions, IVisitor, VisitorMethod} from "../options";
 import {isString} from "../utils";
 import {validateName} from "../validate";
-import XmlNode from "./XmlNode";
+import XmlNode, {createWithVersion} from "./XmlNode";
 
 /**
  * Represents an XML entity reference.
@@ -80,6 +80,19 @@ export default class XmlEntityRef extends XmlNode {
         throw new Error("XmlEntityRef nodes cannot have children");
     }
 
+    /**
+     * Returns a copy of this node. The copy has no parent.
+     *
+     * @param deep This parameter is unused.
+     *
+     * @returns The copy of this node.
+     */
+    public clone(deep: boolean = true): XmlEntityRef {
+        const copy = createWithVersion(this.xmlVersion(),
+                                       () => new XmlEntityRef(this.entity));
+        return this.copyInto(copy, [], deep);
+    }
+
     /**
      * Throws an exception since {@link XmlEntityRef} nodes cannot have any
      * children.
@@ -127,4 +140,18 @@ export default class XmlEntityRef extends XmlNode {
     public toString(options: IStringOptions = {}): string {
         return "&" + this.entity + ";";
     }
+
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return visitor.visitEntityRef;
+    }
 }
@@ -14,8 +14,187 @@
  * limitations under the License.
  */
 
-import {IStringOptions} from "../options";
-import {isInteger, isNumber, isUndefined} from "../utils";
+import {INamespaces} from "../namespaces";
+import {
+    ElementSelector,
+    IStringOptions,
+    IVisitor,
+    StringOptions,
+    VisitorMethod
+} from "../options";
+import {IWritable, pipe} from "../serialize";
+import {
+    isArray,
+    isBoolean,
+    isInteger,
+    isNumber,
+    isObject,
+    isString,
+    isUndefined
+} from "../utils";
+import {validateWhitespace} from "../validate";
+import XmlElement from "./XmlElement";
+
+/**
+ * The location in the original XML string of a node created by the parser.
+ */
+export interface ISourceLocation {
+    /**
+     * The column, starting at 1, at which the node begins.
+     */
+    column: number;
+    /**
+     * The offset, in UTF-16 code units, immediately following the end of the
+     * node.
+     */
+    endOffset: number;
+    /**
+     * The line, starting at 1, at which the node begins. Line feeds, carriage
+     * returns and carriage return and line feed pairs each end a line.
+     */
+    line: number;
+    /**
+     * The offset, in UTF-16 code units, at which the node begins.
+     */
+    offset: number;
+}
+
+/**
+ * A child node whose string representation is part of the string
+ * representation of its parent.
+ *
+ * @private
+ */
+export interface IChildPart {
+    /**
+     * The number of elements enclosing the child, if the parent is an
+     * element.
+     */
+    depth?: number;
+    /**
+     * Whether each line of the string representation of the child should be
+     * indented.
+     */
+    indent: boolean;
+    /**
+     * The child node.
+     */
+    node: XmlNode;
+    /**
+     * The namespaces in scope at the parent, if the parent is an element.
+     */
+    scope?: INamespaces;
+    /**
+     * Whether whitespace is significant in the content of the parent, if the
+     * parent is an element.
+     */
+    spacePreserved?: boolean;
+    /**
+     * Whether the string representation of the child should be written
+     * without the indentation of any ancestors, as when whitespace is
+     * significant in the content of the parent. If left undefined, the
+     * indentation of ancestors is applied.
+     */
+    verbatim?: boolean;
+}
+
+/**
+ * A part of the string representation of a node, which is either a string or
+ * a child node.
+ *
+ * @private
+ */
+export type StringPart = string | IChildPart;
+
+/**
+ * Whether new nodes record the call site at which they were created.
+ *
+ * @private
+ */
+let recordCallSites = false;
+
+/**
+ * The version of XML whose rules apply to nodes that do not have a parent.
+ *
+ * @private
+ */
+let pendingVersion = "1.0";
+
+/**
+ * Creates one or more nodes using the specified function, applying the rules
+ * of the specified version of XML to them until they are inserted into a
+ * document. This allows factory methods to create nodes that are only valid
+ * in the document to which they will be added.
+ *
+ * @param version The version of XML.
+ * @param func The function that creates the nodes.
+ *
+ * @returns The value returned by the function.
+ *
+ * @private
+ */
+export function createWithVersion<T>(version: string, func: () => T): T {
+    const previous = pendingVersion;
+    pendingVersion = version;
+    try {
+        return func();
+    } finally {
+        pendingVersion = previous;
+    }
+}
+
+/**
+ * Returns the frames of the specified stack trace, captured by the
+ * constructor of {@link XmlNode}, that follow the frames inside this library,
+ * so that the first frame is the code that created the node.
+ *
+ * @param stack The stack trace.
+ *
+ * @returns The frames of the stack trace outside this library.
+ *
+ * @private
+ */
+function getCallSite(stack: string): string {
+    const frames = stack.split("\n").slice(1);
+    const getFile = (frame: string) => {
+        const match = /([^\s(@]+):\d+:\d+\)?$/.exec(frame);
+        return match === null ? undefined : match[1];
+    };
+
+    // The first frame is this constructor, whose file determines the
+    // directory containing the library
+    const file = getFile(frames[0]);
+    if (isUndefined(file)) {
+        return frames.join("\n");
+    }
+    const match = /^(.*[\/\\])nodes[\/\\]XmlNode\.[jt]s$/.exec(file);
+    const root = match === null ? file : match[1];
+
+    let i = 0;
+    while (i < frames.length) {
+        const frameFile = getFile(frames[i]);
+        if (!isUndefined(frameFile) && frameFile.indexOf(root) !== 0) {
+            break;
+        }
+        i++;
+    }
+    return frames.slice(i === frames.length ? 0 : i).join("\n");
+}
+
+/**
+ * Sets whether new nodes record the call site at which they were created.
+ *
+ * @param enabled Whether new nodes record the call site at which they were
+ *                created.
+ *
+ * @private
+ */
+export function setRecordCallSites(enabled: boolean): void {
+    if (!isBoolean(enabled)) {
+        throw new TypeError("enabled should be a boolean");
+    }
+    recordCallSites = enabled;
+}
 
 /**
  * Represents an XML node.
@@ -27,6 +206,8 @@ import {isInteger, isNumber, isUndefined} from "../utils";
  */
 export default class XmlNode {
     protected _children: XmlNode[];
+    private _callSite?: string;
+    private _location?: ISourceLocation;
     private _parent?: XmlNode;
 
     /**
@@ -35,6 +216,63 @@ export default class XmlNode {
     constructor() {
         this._parent = undefined;
         this._children = [];
+        if (recordCallSites) {
+            const stack = new Error().stack;
+            if (isString(stack)) {
+                this._callSite = getCallSite(stack);
+            }
+        }
+    }
+
+    /**
+     * Gets the stack trace captured when this node was created, starting at
+     * the code outside this library that created it. Stack traces are only
+     * captured while debugging is enabled.
+     *
+     * @returns The stack trace captured when this node was created, or
+     *          undefined if none was captured.
+     */
+    get callSite(): string | undefined {
+        return this._callSite;
+    }
+
+    /**
+     * Gets the location of this node in the XML string from which it was
+     * parsed.
+     *
+     * @returns The location of this node in the XML string from which it was
+     *          parsed. This value may be undefined.
+     */
+    get location(): ISourceLocation | undefined {
+        return this._location;
+    }
+
+    /**
+     * Sets the location of this node in the XML string from which it was
+     * parsed.
+     *
+     * @param location The location of this node in the XML string from which
+     *                 it was parsed. This value may be undefined.
+     */
+    set location(location: ISourceLocation | undefined) {
+        if (isObject(location)) {
+            if (!isInteger(location.line) || location.line < 1
+                || !isInteger(location.column) || location.column < 1)
+            {
+                throw new RangeError("location.line and location.column should"
+                                     + " be positive integers");
+            } else if (!isInteger(location.offset) || location.offset < 0
+                       || !isInteger(location.endOffset)
+                       || location.endOffset < location.offset)
+            {
+                throw new RangeError("location.offset and location.endOffset"
+                                     + " should be non-negative integers"
+                                     + " defining a range");
+            }
+        } else if (!isUndefined(location)) {
+            throw new TypeError("location should be an Object or undefined");
+        }
+        this._location = location;
     }
 
     /**
@@ -58,6 +296,45 @@ export default class XmlNode {
         return this._children.slice();
     }
 
+    /**
+     * Returns a copy of this node, including its properties and original
+     * formatting. The copy has no parent, so it can be inserted anywhere
+     * without moving this node, and later changes to either node do not
+     * affect the other.
+     *
+     * @param deep Whether the children of this node should be copied as well,
+     *             along with their descendants. Attributes and their values
+     *             are always copied, as are the children of a document. If
+     *             left undefined, the children are copied.
+     *
+     * @returns The copy of this node.
+     */
+    public clone(deep: boolean = true): XmlNode {
+        throw new Error("clone not implemented for XmlNode");
+    }
+
+    /**
+     * Returns the nearest element that matches the specified selector,
+     * starting with this node itself and continuing with its ancestors. For
+     * nodes other than elements, such as text or attributes, this is the
+     * nearest matching element containing the node.
+     *
+     * @param selector The selector the element should match.
+     *
+     * @returns The matching element, or undefined if neither this node nor
+     *          any of its ancestors matches the selector.
+     */
+    public closest(selector: ElementSelector): XmlElement | undefined {
+        let node: XmlNode | undefined = this;
+        while (!isUndefined(node)) {
+            if (node.matches(selector)) {
+                return <XmlElement> node;
+            }
+            node = node.parent;
+        }
+        return undefined;
+    }
+
     /**
      * Inserts the specified node into this node's children at the specified
      * index. The node is not inserted if it is already present. If this node
@@ -99,6 +376,35 @@ export default class XmlNode {
         return undefined;
     }
 
+    /**
+     * Returns true if this node is omitted from the string representation of
+     * its parent when minifying.
+     *
+     * @param preserved Whether whitespace is significant in the parent of
+     *                  this node.
+     * @param options Formatting options for the string representation.
+     *
+     * @returns Whether this node is omitted.
+     *
+     * @private
+     */
+    public isOmitted(preserved: boolean, options: StringOptions): boolean {
+        return false;
+    }
+
+    /**
+     * Returns true if this node is an element that matches the specified
+     * selector.
+     *
+     * @param selector The selector.
+     *
+     * @returns Whether this node matches the selector. This is always false
+     *          for nodes other than elements.
+     */
+    public matches(selector: ElementSelector): boolean {
+        return false;
+    }
+
     /**
      * Gets the node that follows this one, or undefined if no such node
      * exists or if this node has no parent.
@@ -118,6 +424,33 @@ export default class XmlNode {
         return this.parent._children[this.parent._children.indexOf(this) + 1];
     }
 
+    /**
+     * Writes the XML string representation of this node to the specified
+     * destination, such as a Node.js `Writable` stream, in chunks rather than
+     * as a single string. Whenever the destination's `write` method returns
+     * false, writing is paused until the destination emits the "drain" event.
+     * Once the entire string representation has been written, the
+     * destination's `end` method is called. If an exception is thrown while
+     * writing, the destination's `destroy` method is called with it, or its
+     * `end` method if it has none. If the destination emits the "error" or
+     * "close" event while writing is paused, writing stops.
+     *
+     * The chunks written are identical, when concatenated, to the string
+     * returned by `toString` for the same options.
+     *
+     * @param writable The destination.
+     * @param options Formatting options for the string representation.
+     * @param callback A function called once the entire string representation
+     *                 has been written, or with the exception if one is thrown
+     *                 while producing the string representation or the
+     *                 destination fails or is closed while writing is paused.
+     */
+    public pipe(writable: IWritable, options: IStringOptions = {},
+                callback?: (err?: Error) => void): void
+    {
+        pipe(this, writable, options, callback);
+    }
+
     /**
      * Gets the node that is previous to this one, or undefined if no such node
      * exists or if this node has no parent.
@@ -209,6 +542,43 @@ export default class XmlNode {
         throw new Error("toString not implemented for XmlNode");
     }
 
+    /**
+     * Returns a function that produces the parts of the XML string
+     * representation of this node one at a time, and returns undefined once
+     * there are no parts remaining. Nodes that can contain a large number of
+     * descendants return their children as separate parts, so that their
+     * string representation can be produced incrementally. Other nodes return
+     * their entire string representation as a single part.
+     *
+     * @param options Formatting options for the string representation.
+     * @param scope The namespaces in scope at the parent of this node, or
+     *              undefined if the parent is not part of the string
+     *              representation or is not an element.
+     * @param spacePreserved Whether whitespace is significant in the content
+     *                       of the parent of this node, or undefined if the
+     *                       parent is not part of the string representation
+     *                       or is not an element.
+     * @param depth The number of elements enclosing this node in the string
+     *              representation, or undefined if the parent is not part of
+     *              the string representation or is not an element.
+     *
+     * @returns A function that produces the parts of the XML string
+     *          representation of this node.
+     *
+     * @private
+     */
+    public toStringParts(options: IStringOptions = {}, scope?: INamespaces,
+                         spacePreserved?: boolean,
+                         depth?: number): () => StringPart | undefined
+    {
+        let str: string | undefined = this.toString(options);
+        return () => {
+            const part = str;
+            str = undefined;
+            return part;
+        };
+    }
+
     /**
      * Returns the root node of the current hierarchy. If this node has no
      * parent, this node itself is returned.
@@ -229,4 +599,188 @@ export default class XmlNode {
     public up(): XmlNode | undefined {
         return this.parent;
     }
+
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return undefined;
+    }
+
+    /**
+     * Returns the version of XML whose rules apply to this node, as specified
+     * by the XML declaration of the document containing it. Nodes that are
+     * not part of a document containing an XML declaration follow the rules
+     * of XML 1.0.
+     *
+     * @returns The version of XML.
+     *
+     * @private
+     */
+    public xmlVersion(): string {
+        if (isUndefined(this.parent)) {
+            return pendingVersion;
+        } else {
+            return this.parent.xmlVersion();
+        }
+    }
+
+    /**
+     * Gives the specified copy of this node the location of this node and
+     * appends copies of the specified children of this node to it, without
+     * checking them again.
+     *
+     * @param copy The copy of this node.
+     * @param children The children of this node to copy.
+     * @param deep Whether the descendants of the children should be copied.
+     *
+     * @returns The copy of this node.
+     *
+     * @private
+     */
+    protected copyInto<T extends XmlNode>(copy: T, children: XmlNode[],
+                                          deep: boolean): T
+    {
+        copy._location = this._location;
+        for (const child of children) {
+            const childCopy = child.clone(deep);
+            childCopy._parent = copy;
+            copy._children.push(childCopy);
+        }
+        return copy;
+    }
+}
+
+/**
+ * The original formatting of an {@link XmlProcInst} node or of a markup
+ * declaration in the internal subset of an {@link XmlDtd}. This object is
+ * recorded by the parser when formatting is preserved and is used when the
+ * `preserve` formatting option is enabled.
+ */
+export interface IMarkupFormat {
+    /**
+     * The whitespace separating the target of the processing instruction or
+     * the keyword of the declaration from the text that follows it.
+     */
+    separator: string;
+}
+
+/**
+ * The whitespace preceding a node in an {@link XmlDocument} or in the internal
+ * subset of an {@link XmlDtd}. This object is recorded by the parser when
+ * formatting is preserved.
+ */
+export interface ISeparator {
+    /**
+     * The node that the whitespace precedes.
+     */
+    node: XmlNode;
+    /**
+     * The whitespace preceding the node.
+     */
+    whitespace: string;
+}
+
+/**
+ * Returns the whitespace recorded as preceding the specified node.
+ *
+ * @param separators The recorded separators.
+ * @param node The specified node.
+ *
+ * @returns The whitespace preceding the specified node, or undefined if no
+ *          whitespace was recorded for it.
+ *
+ * @private
+ */
+export function getSeparator(separators: ISeparator[],
+                             node: XmlNode): string | undefined
+{
+    for (const separator of separators) {
+        if (separator.node === node) {
+            return separator.whitespace;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Returns copies of the specified separators in which each node is replaced
+ * by its copy. Separators preceding nodes that were not copied are omitted.
+ *
+ * @param separators The recorded separators.
+ * @param nodes The nodes that were copied.
+ * @param copies The copies of the nodes, in the same order.
+ *
+ * @returns The copied separators.
+ *
+ * @private
+ */
+export function copySeparators(separators: ISeparator[], nodes: XmlNode[],
+                               copies: XmlNode[]): ISeparator[]
+{
+    const copied: ISeparator[] = [];
+    for (const separator of separators) {
+        const index = nodes.indexOf(separator.node);
+        if (index !== -1) {
+            copied.push({node: copies[index],
+                         whitespace: separator.whitespace});
+        }
+    }
+    return copied;
+}
+
+/**
+ * Throws an exception if the specified value is not a valid array of
+ * separators.
+ *
+ * @param separators The specified value.
+ * @param name The name of the property being validated, used in exception
+ *             messages.
+ *
+ * @private
+ */
+export function checkSeparators(separators: ISeparator[],
+                                name: string): void
+{
+    if (!isArray(separators)) {
+        throw new TypeError(name + " should be an array");
+    }
+    for (const separator of separators) {
+        if (!(separator.node instanceof XmlNode)) {
+            throw new TypeError(name + " should only contain separators for"
+                                + " instances of XmlNode");
+        } else if (!isString(separator.whitespace)
+                   || !validateWhitespace(separator.whitespace))
+        {
+            throw new Error(name + " should only contain whitespace");
+        }
+    }
+}
+
+/**
+ * Throws an exception if the specified value is not a valid markup format.
+ *
+ * @param format The specified value.
+ *
+ * @private
+ */
+export function checkMarkupFormat(format: IMarkupFormat | undefined): void {
+    if (isObject(format)) {
+        if (!isString(format.separator)
+            || format.separator.length === 0
+            || !validateWhitespace(format.separator))
+        {
+            throw new Error("format.separator should be a non-empty string"
+                            + " containing only whitespace");
+        }
+    } else if (!isUndefined(format)) {
+        throw new TypeError("format should be an Object or undefined");
+    }
 }
@@ -14,10 +14,20 @@
  * limitations under the License.
  */
 
-import {IStringOptions} from "../options";
+import {
+    IStringOptions,
+    IVisitor,
+    StringOptions,
+    VisitorMethod
+} from "../options";
+import {isOmittedProcInst} from "../serialize";
 import {isString, isUndefined} from "../utils";
 import {validateChar} from "../validate";
-import XmlNode from "./XmlNode";
+import XmlNode, {
+    IMarkupFormat,
+    checkMarkupFormat,
+    createWithVersion
+} from "./XmlNode";
 
 /**
  * Represents an XML processing instruction.
@@ -37,6 +47,7 @@ import XmlNode from "./XmlNode";
 export default class XmlProcInst extends XmlNode {
     private _target: string;
     private _content?: string;
+    private _format?: IMarkupFormat;
 
     /**
      * Initializes a new instance of the {@link XmlProcInst} class.
@@ -68,7 +79,7 @@ export default class XmlProcInst extends XmlNode {
     set target(target: string) {
         if (!isString(target)) {
             throw new TypeError("target should be a string");
-        } else if (!validateChar(target)) {
+        } else if (!validateChar(target, this.xmlVersion())) {
             throw new Error("target should not contain characters"
                             + " not allowed in XML");
         } else if (target === "xml") {
@@ -98,7 +109,7 @@ export default class XmlProcInst extends XmlNode {
             throw new TypeError("data should be a string or undefined");
         }
         if (isString(content)) {
-            if (!validateChar(content)) {
+            if (!validateChar(content, this.xmlVersion())) {
                 throw new Error("data should not contain characters"
                                 + " not allowed in XML");
             } else if (/\?>/.test(content)) {
@@ -108,6 +119,27 @@ export default class XmlProcInst extends XmlNode {
         this._content = content;
     }
 
+    /**
+     * Gets the original formatting of the processing instruction.
+     *
+     * @returns The original formatting of the processing instruction. This
+     *          value may be undefined.
+     */
+    get format(): IMarkupFormat | undefined {
+        return this._format;
+    }
+
+    /**
+     * Sets the original formatting of the processing instruction.
+     *
+     * @param format The original formatting of the processing instruction.
+     *               This value may be undefined.
+     */
+    set format(format: IMarkupFormat | undefined) {
+        checkMarkupFormat(format);
+        this._format = format;
+    }
+
     /**
      * Throws an exception since {@link XmlProcInst} nodes cannot have any
      * children.
@@ -118,6 +150,22 @@ export default class XmlProcInst extends XmlNode {
         throw new Error("XmlProcInst nodes cannot have children");
     }
 
+    /**
+     * Returns a copy of this node. The copy has no parent.
+     *
+     * @param deep This parameter is unused.
+     *
+     * @returns The copy of this node.
+     */
+    public clone(deep: boolean = true): XmlProcInst {
+        const copy = createWithVersion(this.xmlVersion(), () => {
+            return new XmlProcInst(this.target, this.content);
+        });
+        copy.format = isUndefined(this.format) ? undefined
+                                               : {...this.format};
+        return this.copyInto(copy, [], deep);
+    }
+
     /**
      * Throws an exception since {@link XmlProcInst} nodes cannot have any
      * children.
@@ -131,6 +179,22 @@ export default class XmlProcInst extends XmlNode {
         throw new Error("XmlProcInst nodes cannot have children");
     }
 
+    /**
+     * Returns true if this node is omitted from the string representation of
+     * its parent when minifying.
+     *
+     * @param preserved Whether whitespace is significant in the parent of
+     *                  this node.
+     * @param options Formatting options for the string representation.
+     *
+     * @returns Whether this node is omitted.
+     *
+     * @private
+     */
+    public isOmitted(preserved: boolean, options: StringOptions): boolean {
+        return isOmittedProcInst(this.target, options);
+    }
+
     /**
      * Throws an exception since {@link XmlProcInst} nodes cannot have any
      * children.
@@ -165,8 +229,24 @@ export default class XmlProcInst extends XmlNode {
     public toString(options: IStringOptions = {}): string {
         if (this.content === undefined) {
             return "<?" + this.target + "?>";
-        } else {
-            return "<?" + this.target + " " + this.content + "?>";
         }
+        const optionsObj = new StringOptions(options);
+        const separator = optionsObj.preserve && !isUndefined(this.format)
+                          ? this.format.separator : " ";
+        return "<?" + this.target + separator + this.content + "?>";
+    }
+
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return visitor.visitProcInst;
     }
 }
@@ -14,11 +14,19 @@
  * limitations under the License.
  */
 
-import {escapeAmpersands, escapeLeftAngleBrackets} from "../escape";
-import {IStringOptions} from "../options";
-import {isString} from "../utils";
+import {escapeCharData} from "../escape";
+import {
+    IStringOptions,
+    IVisitor,
+    StringOptions,
+    VisitorMethod
+} from "../options";
+import {isOmittedText} from "../serialize";
+import {isString, isUndefined} from "../utils";
 import {validateChar} from "../validate";
-import XmlNode from "./XmlNode";
+import XmlComment from "./XmlComment";
+import XmlNode, {createWithVersion} from "./XmlNode";
+import XmlProcInst from "./XmlProcInst";
 
 /**
  * Represents text in an XML document.
@@ -62,7 +70,7 @@ export default class XmlText extends XmlNode {
     set text(text: string) {
         if (!isString(text)) {
             throw new TypeError("text should be a string");
-        } else if (!validateChar(text)) {
+        } else if (!validateChar(text, this.xmlVersion(), true)) {
             throw new Error("text should not contain characters not allowed"
                             + " in XML");
         }
@@ -80,6 +88,19 @@ export default class XmlText extends XmlNode {
         throw new Error("XmlText nodes cannot have children");
     }
 
+    /**
+     * Returns a copy of this node. The copy has no parent.
+     *
+     * @param deep This parameter is unused.
+     *
+     * @returns The copy of this node.
+     */
+    public clone(deep: boolean = true): XmlText {
+        const copy = createWithVersion(this.xmlVersion(),
+                                       () => new XmlText(this.text));
+        return this.copyInto(copy, [], deep);
+    }
+
     /**
      * Throws an exception since {@link XmlText} nodes cannot have any
      * children.
@@ -93,6 +114,22 @@ export default class XmlText extends XmlNode {
         throw new Error("XmlText nodes cannot have children");
     }
 
+    /**
+     * Returns true if this node is omitted from the string representation of
+     * its parent when minifying.
+     *
+     * @param preserved Whether whitespace is significant in the parent of
+     *                  this node.
+     * @param options Formatting options for the string representation.
+     *
+     * @returns Whether this node is omitted.
+     *
+     * @private
+     */
+    public isOmitted(preserved: boolean, options: StringOptions): boolean {
+        return isOmittedText(this.text, preserved, options);
+    }
+
     /**
      * Throws an exception since {@link XmlText} nodes cannot have any
      * children.
@@ -125,9 +162,58 @@ export default class XmlText extends XmlNode {
      * @returns {string} An XML string representation of this node.
      */
     public toString(options: IStringOptions = {}): string {
-        let str = this.text;
-        str = escapeAmpersands(str);
-        str = escapeLeftAngleBrackets(str);
-        return str;
+        const optionsObj = new StringOptions(options);
+        return escapeCharData(this.text, optionsObj.escaping, false,
+                              this.xmlVersion(), getPrecedingBrackets(this));
+    }
+
+    /**
+     * Returns the method of the specified visitor that customizes the string
+     * representation of this type of node.
+     *
+     * @param visitor The visitor.
+     *
+     * @returns The method of the visitor, or undefined if it is not defined.
+     *
+     * @private
+     */
+    public visitorMethod(visitor: IVisitor): VisitorMethod<this> | undefined {
+        return visitor.visitText;
+    }
+}
+
+/**
+ * Returns the number of right square brackets (]) at the end of the text
+ * nodes immediately preceding the specified text node, up to two. Comments
+ * and processing instructions are skipped, since they may be omitted when
+ * minifying.
+ *
+ * @param node The text node.
+ *
+ * @returns The number of preceding right square brackets.
+ *
+ * @private
+ */
+function getPrecedingBrackets(node: XmlText): number {
+    // Only text starting with ">" or "]>" can complete the string "]]>"
+    if (!/^\]?>/.test(node.text) || isUndefined(node.parent)) {
+        return 0;
+    }
+    const siblings = node.parent.children();
+    let brackets = 0;
+    for (let i = siblings.indexOf(node) - 1; i >= 0 && brackets < 2; i--) {
+        const sibling = siblings[i];
+        if (sibling instanceof XmlComment || sibling instanceof XmlProcInst) {
+            continue;
+        } else if (!(sibling instanceof XmlText)) {
+            break;
+        }
+        const text = sibling.text;
+        const trailing = text.length - text.replace(/\]+$/, "").length;
+        brackets += trailing;
+        if (trailing < text.length) {
+            break;
+        }
     }
+    return brackets;
 }
@@ -14,7 +14,783 @@
  * limitations under the License.
  */
 
-import {isBoolean, isObject, isString, isUndefined} from "./utils";
+import {checkNamespace, xmlNamespace} from "./names";
+import XmlAttribute from "./nodes/XmlAttribute";
+import XmlCdata from "./nodes/XmlCdata";
+import XmlCharRef from "./nodes/XmlCharRef";
+import XmlComment from "./nodes/XmlComment";
+import XmlDecl from "./nodes/XmlDecl";
+import XmlDtd from "./nodes/XmlDtd";
+import XmlDtdAttlist from "./nodes/XmlDtdAttlist";
+import XmlDtdElement from "./nodes/XmlDtdElement";
+import XmlDtdEntity from "./nodes/XmlDtdEntity";
+import XmlDtdNotation from "./nodes/XmlDtdNotation";
+import XmlDtdParamEntityRef from "./nodes/XmlDtdParamEntityRef";
+import XmlElement from "./nodes/XmlElement";
+import XmlEntityRef from "./nodes/XmlEntityRef";
+import XmlNode from "./nodes/XmlNode";
+import XmlProcInst from "./nodes/XmlProcInst";
+import XmlText from "./nodes/XmlText";
+import {
+    isArray,
+    isBoolean,
+    isFunction,
+    isInteger,
+    isObject,
+    isString,
+    isUndefined
+} from "./utils";
+import {validateName, validateSingleChar} from "./validate";
+
+/**
+ * The order in which the attributes of an element are written. This type is
+ * used by the `attributeOrder` option of {@link IStringOptions} and by
+ * {@link XmlElement#sortAttributes}.
+ *
+ * If "insertion", attributes are written in the order in which they were
+ * added. If "alphabetical", attributes are sorted by name. If
+ * "namespace-declarations-first", the default namespace declaration comes
+ * first, followed by the other namespace declarations and then the remaining
+ * attributes, each sorted by name. A function is used as a comparator, as
+ * with `Array.prototype.sort`; attributes it considers equal keep their
+ * relative order.
+ */
+export type AttributeOrder = "alphabetical"
+                             | "insertion"
+                             | "namespace-declarations-first"
+                             | ((a: XmlAttribute, b: XmlAttribute) => number);
+
+/**
+ * The elements to find using {@link XmlElement#find},
+ * {@link XmlElement#findAll} and similar methods. A string matches elements
+ * with that name, a function matches elements for which it returns true, and
+ * an object matches elements satisfying all of the conditions it specifies.
+ */
+export type ElementSelector = string
+                              | IElementQuery
+                              | ((element: XmlElement) => boolean);
+
+/**
+ * A method of an {@link IVisitor} that returns the string representation of
+ * a node, such as a string derived from the default string representation.
+ *
+ * The `indent` argument is the indentation of the line on which the node is
+ * written. The returned string is written as is, so line breaks added by the
+ * method should be followed by this indentation to keep the added lines
+ * aligned with the node. The `defaultSerialize` argument returns the string
+ * representation the node would have had without the method, with the same
+ * options, and with any line breaks already followed by the appropriate
+ * indentation.
+ */
+export type VisitorMethod<T extends XmlNode> = (
+    node: T, indent: string, defaultSerialize: () => string) => string;
+
+/**
+ * Options controlling how the attributes of an element are laid out in its
+ * start tag when pretty-printing. This object is used by the
+ * `attributeLayout` option of {@link IStringOptions}.
+ *
+ * By default, all attributes are placed on the same line as the element name.
+ * If either limit is exceeded, each attribute is instead placed on its own
+ * line.
+ */
+export interface IAttributeLayoutOptions {
+    /**
+     * Whether the closing angle bracket of a start tag whose attributes were
+     * placed on their own lines should also be placed on its own line. If
+     * left undefined, the closing angle bracket follows the last attribute.
+     */
+    bracketOnNewLine?: boolean;
+    /**
+     * How the lines following the element name are indented when attributes
+     * are placed on their own lines. If "align", the first attribute remains
+     * on the same line as the element name and the remaining attributes are
+     * aligned under it. If "indent", every attribute is placed on its own line
+     * and indented once using the indent string. If left undefined, the
+     * default value is "align".
+     */
+    continuation?: "align" | "indent";
+    /**
+     * The number of attributes above which attributes are placed on their own
+     * lines. If left undefined, the number of attributes is not limited.
+     */
+    maxAttributes?: number;
+    /**
+     * The length above which attributes are placed on their own lines, as
+     * measured from the beginning of the line to the end of the start tag
+     * written on a single line. The indentation preceding the start tag is
+     * counted as one indent string for each element enclosing it in the
+     * string representation. If left undefined, the length of the start tag
+     * is not limited.
+     */
+    maxWidth?: number;
+}
+
+/**
+ * Implementation of the IAttributeLayoutOptions interface used to provide
+ * default values to fields.
+ *
+ * @private
+ */
+export class AttributeLayoutOptions implements IAttributeLayoutOptions {
+    public bracketOnNewLine: boolean = false;
+    public continuation: "align" | "indent" = "align";
+    public maxAttributes?: number;
+    public maxWidth?: number;
+
+    constructor(layoutOptions: IAttributeLayoutOptions = {}) {
+        if (!isObject(layoutOptions)) {
+            throw new TypeError("options.attributeLayout should be an Object"
+                                + " or undefined");
+        }
+
+        if (!isBoolean(layoutOptions.bracketOnNewLine)) {
+            if (!isUndefined(layoutOptions.bracketOnNewLine)) {
+                throw new TypeError("options.attributeLayout.bracketOnNewLine"
+                                    + " should be a boolean or undefined");
+            }
+        } else {
+            this.bracketOnNewLine = layoutOptions.bracketOnNewLine;
+        }
+
+        if (layoutOptions.continuation !== "align"
+            && layoutOptions.continuation !== "indent")
+        {
+            if (!isUndefined(layoutOptions.continuation)) {
+                throw new TypeError("options.attributeLayout.continuation"
+                                    + " should be \"align\", \"indent\", or"
+                                    + " undefined");
+            }
+        } else {
+            this.continuation = layoutOptions.continuation;
+        }
+
+        const maxAttributes = layoutOptions.maxAttributes;
+        if (!isInteger(maxAttributes)) {
+            if (!isUndefined(maxAttributes)) {
+                throw new TypeError("options.attributeLayout.maxAttributes"
+                                    + " should be an integer or undefined");
+            }
+        } else if (<number> maxAttributes < 0) {
+            throw new RangeError("options.attributeLayout.maxAttributes"
+                                 + " should not be negative");
+        } else {
+            this.maxAttributes = maxAttributes;
+        }
+
+        const maxWidth = layoutOptions.maxWidth;
+        if (!isInteger(maxWidth)) {
+            if (!isUndefined(maxWidth)) {
+                throw new TypeError("options.attributeLayout.maxWidth should"
+                                    + " be an integer or undefined");
+            }
+        } else if (<number> maxWidth < 1) {
+            throw new RangeError("options.attributeLayout.maxWidth should be"
+                                 + " at least 1");
+        } else {
+            this.maxWidth = maxWidth;
+        }
+    }
+}
+
+/**
+ * The options used when generating the canonical form of a node. This object
+ * is used by the `canonicalize` function.
+ */
+export interface ICanonicalOptions {
+    /**
+     * Whether the exclusive canonical form defined by the W3C Exclusive XML
+     * Canonicalization 1.0 recommendation should be generated, in which only
+     * the namespace declarations visibly used by an element are included. If
+     * left undefined, the inclusive canonical form is generated.
+     */
+    exclusive?: boolean;
+    /**
+     * The InclusiveNamespaces PrefixList used when generating the exclusive
+     * canonical form. The declarations of these prefixes are treated as in
+     * the inclusive canonical form. The default namespace is denoted by the
+     * string "#default". If left undefined, the list is empty.
+     */
+    inclusiveNamespaces?: string[];
+    /**
+     * Whether comments should be included in the canonical form. If left
+     * undefined, comments are omitted.
+     */
+    withComments?: boolean;
+}
+
+/**
+ * Implementation of the ICanonicalOptions interface used to provide default
+ * values to fields.
+ *
+ * @private
+ */
+export class CanonicalOptions implements ICanonicalOptions {
+    public exclusive: boolean = false;
+    public inclusiveNamespaces: string[] = [];
+    public withComments: boolean = false;
+
+    constructor(canonicalOptions: ICanonicalOptions = {}) {
+        if (!isObject(canonicalOptions)) {
+            throw new TypeError("options should be an Object or undefined");
+        }
+
+        if (!isBoolean(canonicalOptions.exclusive)) {
+            if (!isUndefined(canonicalOptions.exclusive)) {
+                throw new TypeError("options.exclusive should be a boolean"
+                                    + " or undefined");
+            }
+        } else {
+            this.exclusive = canonicalOptions.exclusive;
+        }
+
+        const prefixes = canonicalOptions.inclusiveNamespaces;
+        if (!isArray(prefixes)) {
+            if (!isUndefined(prefixes)) {
+                throw new TypeError("options.inclusiveNamespaces should be an"
+                                    + " array of strings or undefined");
+            }
+        } else {
+            for (const prefix of prefixes) {
+                if (!isString(prefix)) {
+                    throw new TypeError("options.inclusiveNamespaces should be"
+                                        + " an array of strings or"
+                                        + " undefined");
+                } else if (prefix !== "#default"
+                           && (!validateName(prefix)
+                               || prefix.indexOf(":") !== -1))
+                {
+                    throw new Error("options.inclusiveNamespaces should"
+                                    + " contain only namespace prefixes or"
+                                    + " the string '#default'");
+                }
+            }
+            this.inclusiveNamespaces = prefixes;
+        }
+
+        if (!isBoolean(canonicalOptions.withComments)) {
+            if (!isUndefined(canonicalOptions.withComments)) {
+                throw new TypeError("options.withComments should be a boolean"
+                                    + " or undefined");
+            }
+        } else {
+            this.withComments = canonicalOptions.withComments;
+        }
+    }
+}
+
+/**
+ * Conditions that elements must satisfy to match an {@link ElementSelector}.
+ * Conditions that are left undefined are not checked.
+ */
+export interface IElementQuery {
+    /**
+     * A mapping from attribute names to the values the attributes should
+     * have. The value true only requires that the attribute is present, while
+     * the value false requires that it is absent. Attribute values include
+     * the characters represented by character references.
+     */
+    attributes?: {[name: string]: string | boolean};
+    /**
+     * The name the elements should have. The names of elements in a
+     * namespace do not include a prefix.
+     */
+    name?: string;
+    /**
+     * A function that returns true for the elements that should match.
+     */
+    predicate?: (element: XmlElement) => boolean;
+}
+
+/**
+ * Options controlling how elements without children other than attributes
+ * are written. This object is used by the `emptyElements` option of
+ * {@link IStringOptions}.
+ *
+ * These options do not apply to elements whose original formatting is
+ * reproduced using the `preserve` formatting option.
+ */
+export interface IEmptyElementOptions {
+    /**
+     * The element names to which the opposite of the policy applies, or a
+     * function that returns true for such element names. For example, with
+     * the "expand" policy, an override list containing "br" and "hr" keeps
+     * those elements self-closing. If left undefined, the policy applies to
+     * all elements.
+     */
+    overrides?: string[] | ((name: string) => boolean);
+    /**
+     * How empty elements are written. If "selfClose", they are written as an
+     * empty-element tag, such as `<a/>`. If "expand", they are written as a
+     * start tag immediately followed by an end tag, such as `<a></a>`. If left
+     * undefined, the default value is "selfClose".
+     */
+    policy?: "expand" | "selfClose";
+    /**
+     * Whether a space should be added before the closing delimiter of an
+     * empty-element tag, such as `<a />`. If left undefined, no space is
+     * added.
+     */
+    spaceBeforeSlash?: boolean;
+}
+
+/**
+ * Implementation of the IEmptyElementOptions interface used to provide
+ * default values to fields.
+ *
+ * @private
+ */
+export class EmptyElementOptions implements IEmptyElementOptions {
+    public overrides: string[] | ((name: string) => boolean) = [];
+    public policy: "expand" | "selfClose" = "selfClose";
+    public spaceBeforeSlash: boolean = false;
+
+    constructor(emptyOptions: IEmptyElementOptions = {}) {
+        if (!isObject(emptyOptions)) {
+            throw new TypeError("options.emptyElements should be an Object or"
+                                + " undefined");
+        }
+
+        const overrides = emptyOptions.overrides;
+        if (isArray(overrides)) {
+            for (const name of overrides) {
+                if (!isString(name)) {
+                    throw new TypeError("options.emptyElements.overrides"
+                                        + " should be an array of strings, a"
+                                        + " function, or undefined");
+                } else if (!validateName(name)) {
+                    throw new Error("options.emptyElements.overrides should"
+                                    + " contain only element names");
+                }
+            }
+            this.overrides = overrides;
+        } else if (isFunction(overrides)) {
+            this.overrides = overrides;
+        } else if (!isUndefined(overrides)) {
+            throw new TypeError("options.emptyElements.overrides should be an"
+                                + " array of strings, a function, or"
+                                + " undefined");
+        }
+
+        if (emptyOptions.policy !== "expand"
+            && emptyOptions.policy !== "selfClose")
+        {
+            if (!isUndefined(emptyOptions.policy)) {
+                throw new TypeError("options.emptyElements.policy should be"
+                                    + " \"expand\", \"selfClose\", or"
+                                    + " undefined");
+            }
+        } else {
+            this.policy = emptyOptions.policy;
+        }
+
+        if (!isBoolean(emptyOptions.spaceBeforeSlash)) {
+            if (!isUndefined(emptyOptions.spaceBeforeSlash)) {
+                throw new TypeError("options.emptyElements.spaceBeforeSlash"
+                                    + " should be a boolean or undefined");
+            }
+        } else {
+            this.spaceBeforeSlash = emptyOptions.spaceBeforeSlash;
+        }
+    }
+}
+
+/**
+ * Options controlling which characters are replaced with references in the
+ * string representation of text and attribute values. This object is used by
+ * the `escaping` option of {@link IStringOptions}.
+ *
+ * Ampersands and left angle brackets are always escaped, as are the quotation
+ * marks used to enclose attribute values.
+ */
+export interface IEscapingOptions {
+    /**
+     * Whether tabs, line feeds, and carriage returns in attribute values
+     * should be replaced with character references, so that they are not
+     * normalized to spaces by a parser. If left undefined, they are not
+     * replaced.
+     */
+    attributeWhitespace?: boolean;
+    /**
+     * When right angle brackets should be escaped. If "always", all right
+     * angle brackets are escaped. If "afterBrackets", only right angle
+     * brackets following the string "]]" are escaped, which is the minimum
+     * required for well-formed XML. If left undefined, the default value is
+     * "afterBrackets".
+     */
+    greaterThan?: "afterBrackets" | "always";
+    /**
+     * A mapping from characters to the character or entity references that
+     * should replace them, such as "&amp;#160;" for a no-break space. Each key
+     * must be a single character. These replacements take precedence over
+     * the other options.
+     * If left undefined, no custom replacements are made.
+     */
+    map?: {[char: string]: string};
+    /**
+     * The code point above which characters should be replaced with
+     * hexadecimal character references. This value must be at least 127; a
+     * value of 127 restricts the output to US-ASCII. If left undefined, no
+     * characters are replaced.
+     */
+    maxCodePoint?: number;
+}
+
+/**
+ * Implementation of the IEscapingOptions interface used to provide default
+ * values to fields.
+ *
+ * @private
+ */
+export class EscapingOptions implements IEscapingOptions {
+    public attributeWhitespace: boolean = false;
+    public greaterThan: "afterBrackets" | "always" = "afterBrackets";
+    public map: {[char: string]: string} = {};
+    public maxCodePoint: number = 0x10FFFF;
+
+    constructor(escapingOptions: IEscapingOptions = {}) {
+        if (!isObject(escapingOptions)) {
+            throw new TypeError("options.escaping should be an Object or"
+                                + " undefined");
+        }
+
+        if (!isBoolean(escapingOptions.attributeWhitespace)) {
+            if (!isUndefined(escapingOptions.attributeWhitespace)) {
+                throw new TypeError("options.escaping.attributeWhitespace"
+                                    + " should be a boolean or undefined");
+            }
+        } else {
+            this.attributeWhitespace = escapingOptions.attributeWhitespace;
+        }
+
+        if (escapingOptions.greaterThan !== "afterBrackets"
+            && escapingOptions.greaterThan !== "always")
+        {
+            if (!isUndefined(escapingOptions.greaterThan)) {
+                throw new TypeError("options.escaping.greaterThan should be"
+                                    + " \"afterBrackets\", \"always\", or"
+                                    + " undefined");
+            }
+        } else {
+            this.greaterThan = escapingOptions.greaterThan;
+        }
+
+        const map = escapingOptions.map;
+        if (!isObject(map)) {
+            if (!isUndefined(map)) {
+                throw new TypeError("options.escaping.map should be an Object"
+                                    + " or undefined");
+            }
+        } else {
+            for (const char of Object.keys(map)) {
+                if (!validateSingleChar(char) || !isReference(map[char])) {
+                    throw new Error("options.escaping.map should map single"
+                                    + " characters to character or entity"
+                                    + " references");
+                }
+            }
+            this.map = map;
+        }
+
+        const maxCodePoint = escapingOptions.maxCodePoint;
+        if (!isInteger(maxCodePoint)) {
+            if (!isUndefined(maxCodePoint)) {
+                throw new TypeError("options.escaping.maxCodePoint should be"
+                                    + " an integer or undefined");
+            }
+        } else if (<number> maxCodePoint < 0x7F) {
+            throw new RangeError("options.escaping.maxCodePoint should be at"
+                                 + " least 127");
+        } else {
+            this.maxCodePoint = <number> maxCodePoint;
+        }
+    }
+}
+
+/**
+ * Options controlling which insignificant whitespace and optional constructs
+ * are omitted from the string representation when minifying. This object is
+ * used by the `minify` option of {@link IStringOptions}.
+ */
+export interface IMinifyOptions {
+    /**
+     * Whether comments should be omitted. If left undefined, comments are
+     * omitted.
+     */
+    comments?: boolean;
+    /**
+     * Whether an XML declaration that specifies only version 1.0, without an
+     * encoding or standalone document declaration, should be omitted. Such a
+     * declaration has no effect on how the document is parsed. If left
+     * undefined, it is omitted.
+     */
+    declaration?: boolean;
+    /**
+     * The targets of the processing instructions that should be omitted, or a
+     * function that returns true for such targets. If left undefined, no
+     * processing instructions are omitted.
+     */
+    procInsts?: string[] | ((target: string) => boolean);
+    /**
+     * Whether each attribute value should be enclosed in whichever quotation
+     * marks require the fewest character references, rather than those
+     * specified by the `doubleQuotes` option. If left undefined, the
+     * quotation marks are chosen this way.
+     */
+    quotes?: boolean;
+    /**
+     * Whether text nodes containing only whitespace should be omitted, except
+     * in elements in which whitespace is significant as described for the
+     * `whitespaceSensitive` option. If left undefined, such text nodes are
+     * omitted.
+     */
+    whitespace?: boolean;
+}
+
+/**
+ * Implementation of the IMinifyOptions interface used to provide default
+ * values to fields.
+ *
+ * @private
+ */
+export class MinifyOptions implements IMinifyOptions {
+    public comments: boolean = true;
+    public declaration: boolean = true;
+    public procInsts: string[] | ((target: string) => boolean) = [];
+    public quotes: boolean = true;
+    public whitespace: boolean = true;
+
+    constructor(minifyOptions: IMinifyOptions = {}) {
+        if (!isObject(minifyOptions)) {
+            throw new TypeError("options.minify should be an Object or"
+                                + " undefined");
+        }
+
+        if (!isBoolean(minifyOptions.comments)) {
+            if (!isUndefined(minifyOptions.comments)) {
+                throw new TypeError("options.minify.comments should be a"
+                                    + " boolean or undefined");
+            }
+        } else {
+            this.comments = minifyOptions.comments;
+        }
+
+        if (!isBoolean(minifyOptions.declaration)) {
+            if (!isUndefined(minifyOptions.declaration)) {
+                throw new TypeError("options.minify.declaration should be a"
+                                    + " boolean or undefined");
+            }
+        } else {
+            this.declaration = minifyOptions.declaration;
+        }
+
+        const procInsts = minifyOptions.procInsts;
+        if (isArray(procInsts)) {
+            for (const target of procInsts) {
+                if (!isString(target)) {
+                    throw new TypeError("options.minify.procInsts should be an"
+                                        + " array of strings, a function, or"
+                                        + " undefined");
+                }
+            }
+            this.procInsts = procInsts;
+        } else if (isFunction(procInsts)) {
+            this.procInsts = procInsts;
+        } else if (!isUndefined(procInsts)) {
+            throw new TypeError("options.minify.procInsts should be an array"
+                                + " of strings, a function, or undefined");
+        }
+
+        if (!isBoolean(minifyOptions.quotes)) {
+            if (!isUndefined(minifyOptions.quotes)) {
+                throw new TypeError("options.minify.quotes should be a"
+                                    + " boolean or undefined");
+            }
+        } else {
+            this.quotes = minifyOptions.quotes;
+        }
+
+        if (!isBoolean(minifyOptions.whitespace)) {
+            if (!isUndefined(minifyOptions.whitespace)) {
+                throw new TypeError("options.minify.whitespace should be a"
+                                    + " boolean or undefined");
+            }
+        } else {
+            this.whitespace = minifyOptions.whitespace;
+        }
+    }
+}
+
+/**
+ * The options used when normalizing the namespace declarations of a node.
+ * This object is used by the `normalizeNamespaces` function.
+ */
+export interface INamespaceOptions {
+    /**
+     * Whether namespace declarations should be moved from descendants to the
+     * outermost element where doing so does not change the namespace of any
+     * element or attribute. Declarations of the default namespace are never
+     * moved. If left undefined, declarations are moved.
+     */
+    hoist?: boolean;
+    /**
+     * Whether namespace declarations whose prefix is not used by any element
+     * or attribute in their scope should be removed. Prefixes used in the
+     * values of `xsi:type` attributes are considered used, but those used in
+     * other attribute values or in text are not. If left undefined, such
+     * declarations are removed.
+     */
+    removeUnused?: boolean;
+    /**
+     * A mapping from preferred prefixes to namespace names. Declarations
+     * binding another prefix to one of these namespaces are changed to use
+     * the preferred prefix, along with the names using them, unless the
+     * preferred prefix is already used for something else in their scope. If
+     * left undefined, no prefixes are renamed.
+     */
+    renamePrefixes?: {[prefix: string]: string};
+}
+
+/**
+ * Implementation of the INamespaceOptions interface used to provide default
+ * values to fields.
+ *
+ * @private
+ */
+export class NamespaceOptions implements INamespaceOptions {
+    public hoist: boolean = true;
+    public removeUnused: boolean = true;
+    public renamePrefixes: {[prefix: string]: string} = {};
+
+    constructor(namespaceOptions: INamespaceOptions = {}) {
+        if (!isObject(namespaceOptions)) {
+            throw new TypeError("options should be an Object or undefined");
+        }
+
+        if (!isBoolean(namespaceOptions.hoist)) {
+            if (!isUndefined(namespaceOptions.hoist)) {
+                throw new TypeError("options.hoist should be a boolean or"
+                                    + " undefined");
+            }
+        } else {
+            this.hoist = namespaceOptions.hoist;
+        }
+
+        if (!isBoolean(namespaceOptions.removeUnused)) {
+            if (!isUndefined(namespaceOptions.removeUnused)) {
+                throw new TypeError("options.removeUnused should be a boolean"
+                                    + " or undefined");
+            }
+        } else {
+            this.removeUnused = namespaceOptions.removeUnused;
+        }
+
+        const renamePrefixes = namespaceOptions.renamePrefixes;
+        if (!isObject(renamePrefixes)) {
+            if (!isUndefined(renamePrefixes)) {
+                throw new TypeError("options.renamePrefixes should be an"
+                                    + " Object or undefined");
+            }
+        } else {
+            const namespaces: string[] = [];
+            for (const prefix of Object.keys(renamePrefixes)) {
+                const ns = renamePrefixes[prefix];
+                const property = "options.renamePrefixes." + prefix;
+                if (!validateName(prefix) || prefix.indexOf(":") !== -1
+                    || prefix === "xmlns")
+                {
+                    throw new Error("options.renamePrefixes should only"
+                                    + " contain namespace prefixes other than"
+                                    + " xmlns");
+                }
+                if (!isString(ns)) {
+                    throw new TypeError(property + " should be a string");
+                }
+                checkNamespace(ns, property);
+                if ((prefix === "xml") !== (ns === xmlNamespace)) {
+                    throw new Error(property + " should be the namespace bound"
+                                    + " to xml if and only if the prefix is"
+                                    + " xml");
+                } else if (namespaces.indexOf(ns) !== -1) {
+                    throw new Error(property + " should not be a namespace"
+                                    + " to which another prefix is renamed");
+                }
+                namespaces.push(ns);
+            }
+            this.renamePrefixes = renamePrefixes;
+        }
+    }
+}
+
+/**
+ * Methods that customize the string representation of particular types of
+ * nodes. This object is used by the `visitor` option of
+ * {@link IStringOptions}.
+ *
+ * The method corresponding to the type of each descendant of the node being
+ * serialized is called, if it is defined. This includes the declarations in
+ * the internal subset of a DTD. Attributes, along with the text and
+ * references in their values, are written as part of the start tag of their
+ * element and are not passed to the visitor.
+ */
+export interface IVisitor {
+    /**
+     * Returns the string representation of a CDATA section.
+     */
+    visitCdata?: VisitorMethod<XmlCdata>;
+    /**
+     * Returns the string representation of a character reference.
+     */
+    visitCharRef?: VisitorMethod<XmlCharRef>;
+    /**
+     * Returns the string representation of a comment.
+     */
+    visitComment?: VisitorMethod<XmlComment>;
+    /**
+     * Returns the string representation of an XML declaration.
+     */
+    visitDecl?: VisitorMethod<XmlDecl>;
+    /**
+     * Returns the string representation of a document type definition.
+     */
+    visitDtd?: VisitorMethod<XmlDtd>;
+    /**
+     * Returns the string representation of an attribute-list declaration.
+     */
+    visitDtdAttlist?: VisitorMethod<XmlDtdAttlist>;
+    /**
+     * Returns the string representation of an element type declaration.
+     */
+    visitDtdElement?: VisitorMethod<XmlDtdElement>;
+    /**
+     * Returns the string representation of an entity declaration.
+     */
+    visitDtdEntity?: VisitorMethod<XmlDtdEntity>;
+    /**
+     * Returns the string representation of a notation declaration.
+     */
+    visitDtdNotation?: VisitorMethod<XmlDtdNotation>;
+    /**
+     * Returns the string representation of a parameter entity reference.
+     */
+    visitDtdParamEntityRef?: VisitorMethod<XmlDtdParamEntityRef>;
+    /**
+     * Returns the string representation of an element and its descendants.
+     */
+    visitElement?: VisitorMethod<XmlElement>;
+    /**
+     * Returns the string representation of an entity reference.
+     */
+    visitEntityRef?: VisitorMethod<XmlEntityRef>;
+    /**
+     * Returns the string representation of a processing instruction.
+     */
+    visitProcInst?: VisitorMethod<XmlProcInst>;
+    /**
+     * Returns the string representation of text.
+     */
+    visitText?: VisitorMethod<XmlText>;
+}
 
 /**
  * Formatting options for the string representation of an {@link XmlNode} and
@@ -22,28 +798,125 @@ import {isBoolean, isObject, isString, isUndefined} from "./utils";
  * {@link XmlNode}.
  */
 export interface IStringOptions {
+    /**
+     * The order in which the attributes of each element are written. If left
+     * undefined, the default value is "insertion".
+     */
+    attributeOrder?: AttributeOrder;
+    /**
+     * Options controlling how attributes are laid out in start tags when
+     * pretty-printing. If left undefined, all attributes are placed on the
+     * same line as the element name.
+     */
+    attributeLayout?: IAttributeLayoutOptions;
     /**
      * Whether double quotes or single quotes should be used in XML attributes.
      * If left undefined, single quotes are used.
      */
     doubleQuotes?: boolean;
+    /**
+     * Options controlling how elements without children other than attributes
+     * are written. If left undefined, such elements are written as
+     * empty-element tags without a space before the closing delimiter.
+     */
+    emptyElements?: IEmptyElementOptions;
+    /**
+     * Options controlling which characters are replaced with references in
+     * text and attribute values. If left undefined, only the characters that
+     * must be replaced for the XML to be well-formed are replaced.
+     */
+    escaping?: IEscapingOptions;
     /**
      * The indent string used for pretty-printing. If left undefined, the
      * default indent string is four spaces.
      */
     indent?: string;
+    /**
+     * The names of elements that are laid out like text when pretty-printing,
+     * such as "b" or "em", or a function that returns true for such element
+     * names. These elements are not placed on their own lines when adjacent
+     * to text or other inline elements, and an element whose children are
+     * all text or inline elements is written on a single line. If left
+     * undefined, no elements are laid out like text.
+     */
+    inlineElements?: string[] | ((name: string) => boolean);
+    /**
+     * Options controlling which insignificant whitespace and optional
+     * constructs are omitted, which is useful for reducing the size of the
+     * string representation. Pretty-printing is disabled when this option is
+     * specified unless the `pretty` option is explicitly enabled. If left
+     * undefined, nothing is omitted.
+     */
+    minify?: IMinifyOptions;
+    /**
+     * Whether all of the children of an element containing text other than
+     * whitespace, or character or entity references, should be kept on the
+     * same line when pretty-printing, as is appropriate for mixed content.
+     * If left undefined, only the children that are text or inline elements
+     * are kept on the same line.
+     */
+    mixedContent?: boolean;
     /**
      * The newline string used for pretty-printing. If left undefined, the
      * default newline string is "\n".
      */
     newline?: string;
+    /**
+     * Whether the original formatting recorded on nodes created by the parser,
+     * such as the quotation marks and whitespace used in start tags, should be
+     * reproduced. Whitespace is not added between nodes in elements when this
+     * option is enabled, since the original whitespace is represented using
+     * {@link XmlText} nodes. Nodes without recorded formatting are formatted
+     * using the other options. If left undefined, the original formatting is
+     * not reproduced.
+     */
+    preserve?: boolean;
     /**
      * Whether pretty-printing is enabled. If left undefined, pretty-printing
      * is enabled.
      */
     pretty?: boolean;
+    /**
+     * Methods that customize the string representation of particular types of
+     * nodes, such as writing character references in uppercase hexadecimal.
+     * This option is not supported by {@link XmlWriter}. If left undefined,
+     * all nodes use their default string representation.
+     */
+    visitor?: IVisitor;
+    /**
+     * The names of elements in which whitespace is always significant, such
+     * as "pre". When pretty-printing, no whitespace is added to the content of
+     * these elements or their descendants, and the lines of their content are
+     * not indented. The same applies to elements with an `xml:space`
+     * attribute set to "preserve" and their descendants, unless a descendant
+     * sets it back to "default". If left undefined, only the `xml:space`
+     * attribute is taken into account.
+     */
+    whitespaceSensitive?: string[];
 }
 
+/**
+ * The names of the methods of {@link IVisitor}.
+ *
+ * @private
+ */
+const visitorMethods: Array<keyof IVisitor> = [
+    "visitCdata",
+    "visitCharRef",
+    "visitComment",
+    "visitDecl",
+    "visitDtd",
+    "visitDtdAttlist",
+    "visitDtdElement",
+    "visitDtdEntity",
+    "visitDtdNotation",
+    "visitDtdParamEntityRef",
+    "visitElement",
+    "visitEntityRef",
+    "visitProcInst",
+    "visitText"
+];
+
 /**
  * Implementation of the IStringOptions interface used to provide default values
  * to fields.
@@ -51,16 +924,42 @@ export interface IStringOptions {
  * @private
  */
 export class StringOptions implements IStringOptions {
+    public attributeLayout: AttributeLayoutOptions =
+        new AttributeLayoutOptions();
+    public attributeOrder: AttributeOrder = "insertion";
     public doubleQuotes: boolean = false;
+    public emptyElements: EmptyElementOptions = new EmptyElementOptions();
+    public escaping: EscapingOptions = new EscapingOptions();
     public indent: string = "    ";
+    public inlineElements: string[] | ((name: string) => boolean) = [];
+    public minify?: MinifyOptions;
+    public mixedContent: boolean = false;
     public newline: string = "\n";
+    public preserve: boolean = false;
     public pretty: boolean = true;
+    public visitor?: IVisitor;
+    public whitespaceSensitive: string[] = [];
 
     constructor(stringOptions: IStringOptions = {}) {
         if (!isObject(stringOptions)) {
             throw new TypeError("options should be an Object or undefined");
         }
 
+        if (!isUndefined(stringOptions.attributeLayout)) {
+            this.attributeLayout = new AttributeLayoutOptions(
+                stringOptions.attributeLayout);
+        }
+
+        const attributeOrder = stringOptions.attributeOrder;
+        if (isAttributeOrder(attributeOrder)) {
+            this.attributeOrder = attributeOrder;
+        } else if (!isUndefined(attributeOrder)) {
+            throw new TypeError("options.attributeOrder should be"
+                                + " \"alphabetical\", \"insertion\","
+                                + " \"namespace-declarations-first\", a"
+                                + " function, or undefined");
+        }
+
         if (!isBoolean(stringOptions.doubleQuotes)) {
             if (!isUndefined(stringOptions.doubleQuotes)) {
                 throw new TypeError("options.doubleQuotes should be a boolean"
@@ -70,6 +969,15 @@ export class StringOptions implements IStringOptions {
             this.doubleQuotes = stringOptions.doubleQuotes;
         }
 
+        if (!isUndefined(stringOptions.emptyElements)) {
+            this.emptyElements = new EmptyElementOptions(
+                stringOptions.emptyElements);
+        }
+
+        if (!isUndefined(stringOptions.escaping)) {
+            this.escaping = new EscapingOptions(stringOptions.escaping);
+        }
+
         if (!isString(stringOptions.indent)) {
             if (!isUndefined(stringOptions.indent)) {
                 throw new TypeError("options.indent should be a string"
@@ -79,6 +987,40 @@ export class StringOptions implements IStringOptions {
             this.indent = stringOptions.indent;
         }
 
+        const inlineElements = stringOptions.inlineElements;
+        if (isArray(inlineElements)) {
+            for (const name of inlineElements) {
+                if (!isString(name)) {
+                    throw new TypeError("options.inlineElements should be an"
+                                        + " array of strings, a function, or"
+                                        + " undefined");
+                } else if (!validateName(name)) {
+                    throw new Error("options.inlineElements should contain"
+                                    + " only element names");
+                }
+            }
+            this.inlineElements = inlineElements;
+        } else if (isFunction(inlineElements)) {
+            this.inlineElements = inlineElements;
+        } else if (!isUndefined(inlineElements)) {
+            throw new TypeError("options.inlineElements should be an array of"
+                                + " strings, a function, or undefined");
+        }
+
+        if (!isUndefined(stringOptions.minify)) {
+            this.minify = new MinifyOptions(stringOptions.minify);
+            this.pretty = false;
+        }
+
+        if (!isBoolean(stringOptions.mixedContent)) {
+            if (!isUndefined(stringOptions.mixedContent)) {
+                throw new TypeError("options.mixedContent should be a boolean"
+                                    + " or undefined");
+            }
+        } else {
+            this.mixedContent = stringOptions.mixedContent;
+        }
+
         if (!isString(stringOptions.newline)) {
             if (!isUndefined(stringOptions.newline)) {
                 throw new TypeError("options.newline should be a string"
@@ -88,6 +1030,15 @@ export class StringOptions implements IStringOptions {
             this.newline = stringOptions.newline;
         }
 
+        if (!isBoolean(stringOptions.preserve)) {
+            if (!isUndefined(stringOptions.preserve)) {
+                throw new TypeError("options.preserve should be a boolean"
+                                    + " or undefined");
+            }
+        } else {
+            this.preserve = stringOptions.preserve;
+        }
+
         if (!isBoolean(stringOptions.pretty)) {
             if (!isUndefined(stringOptions.pretty)) {
                 throw new TypeError("options.pretty should be a boolean"
@@ -96,6 +1047,80 @@ export class StringOptions implements IStringOptions {
         } else {
             this.pretty = stringOptions.pretty;
         }
+
+        const visitor = stringOptions.visitor;
+        if (isObject(visitor)) {
+            for (const method of visitorMethods) {
+                if (!isFunction(visitor[method])
+                    && !isUndefined(visitor[method]))
+                {
+                    throw new TypeError("options.visitor." + method
+                                        + " should be a function or"
+                                        + " undefined");
+                }
+            }
+            this.visitor = visitor;
+        } else if (!isUndefined(visitor)) {
+            throw new TypeError("options.visitor should be an Object or"
+                                + " undefined");
+        }
+
+        const names = stringOptions.whitespaceSensitive;
+        if (!isArray(names)) {
+            if (!isUndefined(names)) {
+                throw new TypeError("options.whitespaceSensitive should be an"
+                                    + " array of strings or undefined");
+            }
+        } else {
+            for (const name of names) {
+                if (!isString(name)) {
+                    throw new TypeError("options.whitespaceSensitive should be"
+                                        + " an array of strings or"
+                                        + " undefined");
+                } else if (!validateName(name)) {
+                    throw new Error("options.whitespaceSensitive should"
+                                    + " contain only element names");
+                }
+            }
+            this.whitespaceSensitive = names;
+        }
+    }
+}
+
+/**
+ * Options for the encoded representation of an {@link XmlDocument}. This
+ * object is used by the `toBuffer` method of {@link XmlDocument}.
+ */
+export interface IBufferOptions extends IStringOptions {
+    /**
+     * Whether a byte order mark should be written at the beginning of the
+     * output. A byte order mark is always written for the UTF-16 encoding and
+     * can optionally be written for the UTF-8 encoding. If left undefined, a
+     * byte order mark is only written for the UTF-16 encoding.
+     */
+    bom?: boolean;
+}
+
+/**
+ * Implementation of the IBufferOptions interface used to provide default
+ * values to fields.
+ *
+ * @private
+ */
+export class BufferOptions extends StringOptions implements IBufferOptions {
+    public bom?: boolean;
+
+    constructor(bufferOptions: IBufferOptions = {}) {
+        super(bufferOptions);
+
+        if (!isBoolean(bufferOptions.bom)) {
+            if (!isUndefined(bufferOptions.bom)) {
+                throw new TypeError("options.bom should be a boolean or"
+                                    + " undefined");
+            }
+        } else {
+            this.bom = bufferOptions.bom;
+        }
     }
 }
 
@@ -166,3 +1191,122 @@ export class DeclarationOptions implements IDeclarationOptions {
         }
     }
 }
+
+/**
+ * The options used when parsing an XML string. This object is used by the
+ * `parse` function.
+ */
+export interface IParseOptions {
+    /**
+     * Whether the original formatting of the string should be preserved, so
+     * that the string representation of the resulting tree generated with the
+     * `preserve` formatting option is identical to the original string.
+     *
+     * When this option is enabled, line breaks and whitespace in attribute
+     * values are not normalized, and references to the predefined entities
+     * `&amp;gt;`, `&amp;quot;`, and `&amp;apos;` are represented using
+     * {@link XmlEntityRef} nodes. If left undefined, the original formatting
+     * is not preserved.
+     */
+    preserve?: boolean;
+}
+
+/**
+ * Implementation of the IParseOptions interface used to provide default values
+ * to fields.
+ *
+ * @private
+ */
+export class ParseOptions implements IParseOptions {
+    public preserve: boolean = false;
+
+    constructor(parseOptions: IParseOptions = {}) {
+        if (!isObject(parseOptions)) {
+            throw new TypeError("options should be an Object or undefined");
+        }
+
+        if (!isBoolean(parseOptions.preserve)) {
+            if (!isUndefined(parseOptions.preserve)) {
+                throw new TypeError("options.preserve should be a boolean"
+                                    + " or undefined");
+            }
+        } else {
+            this.preserve = parseOptions.preserve;
+        }
+    }
+}
+
+/**
+ * Returns true if the specified value is a valid attribute order.
+ *
+ * @param value The specified value.
+ *
+ * @returns Whether the specified value is a valid attribute order.
+ *
+ * @private
+ */
+export function isAttributeOrder(value: any): value is AttributeOrder {
+    return value === "alphabetical" || value === "insertion"
+           || value === "namespace-declarations-first" || isFunction(value);
+}
+
+/**
+ * Throws an exception if the specified value is not a valid element
+ * selector.
+ *
+ * @param selector The specified value.
+ *
+ * @private
+ */
+export function checkElementSelector(selector: any): void {
+    if (isString(selector) || isFunction(selector)) {
+        return;
+    } else if (!isObject(selector)) {
+        throw new TypeError("selector should be a string, a function, or an"
+                            + " Object");
+    }
+
+    const query = <IElementQuery> selector;
+    if (!isString(query.name) && !isUndefined(query.name)) {
+        throw new TypeError("selector.name should be a string or undefined");
+    } else if (!isFunction(query.predicate)
+               && !isUndefined(query.predicate))
+    {
+        throw new TypeError("selector.predicate should be a function or"
+                            + " undefined");
+    }
+
+    const attributes = query.attributes;
+    if (isObject(attributes)) {
+        for (const name of Object.keys(attributes)) {
+            const value = attributes[name];
+            if (!isString(value) && !isBoolean(value)) {
+                throw new TypeError("selector.attributes." + name + " should"
+                                    + " be a string or a boolean");
+            }
+        }
+    } else if (!isUndefined(attributes)) {
+        throw new TypeError("selector.attributes should be an Object or"
+                            + " undefined");
+    }
+}
+
+/**
+ * Returns true if the specified value is a character reference or an entity
+ * reference.
+ *
+ * @param value The specified value.
+ *
+ * @returns Whether the specified value is a character or entity reference.
+ *
+ * @private
+ */
+function isReference(value: any): boolean {
+    if (!isString(value) || value.charAt(0) !== "&"
+        || value.charAt(value.length - 1) !== ";")
+    {
+        return false;
+    }
+    const name = value.substring(1, value.length - 1);
+    return /^#([0-9]+|x[0-9a-fA-F]+)$/.test(name) || validateName(name);
+}
@@ -0,0 +1,1176 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import XmlAttribute, {IAttributeFormat} from "./nodes/XmlAttribute";
+import XmlCdata from "./nodes/XmlCdata";
+import XmlCharRef from "./nodes/XmlCharRef";
+import XmlComment from "./nodes/XmlComment";
+import XmlDecl, {IDeclarationFormat} from "./nodes/XmlDecl";
+import XmlDocument, {IDocumentFormat} from "./nodes/XmlDocument";
+import XmlDtd, {IDtdFormat} from "./nodes/XmlDtd";
+import XmlDtdAttlist from "./nodes/XmlDtdAttlist";
+import XmlDtdElement from "./nodes/XmlDtdElement";
+import XmlDtdEntity from "./nodes/XmlDtdEntity";
+import XmlDtdNotation from "./nodes/XmlDtdNotation";
+import XmlDtdParamEntityRef from "./nodes/XmlDtdParamEntityRef";
+import XmlElement from "./nodes/XmlElement";
+import XmlEntityRef from "./nodes/XmlEntityRef";
+import XmlNode, {
+    ISeparator,
+    ISourceLocation,
+    createWithVersion
+} from "./nodes/XmlNode";
+import XmlProcInst from "./nodes/XmlProcInst";
+import XmlText from "./nodes/XmlText";
+import {IParseOptions, ParseOptions} from "./options";
+import {fromCodePoint, isString, isUndefined} from "./utils";
+import {validateName} from "./validate";
+
+/**
+ * The replacement text of the entities predefined by the XML specification.
+ *
+ * @private
+ */
+const predefinedEntities: {[entity: string]: string} = {
+    amp: "&",
+    apos: "'",
+    gt: ">",
+    lt: "<",
+    quot: "\""
+};
+
+/**
+ * A position in an XML string.
+ *
+ * @private
+ */
+export interface IPosition {
+    /**
+     * The column, starting at 1, of the position.
+     */
+    column: number;
+    /**
+     * The line, starting at 1, of the position.
+     */
+    line: number;
+    /**
+     * The offset, in UTF-16 code units, of the position.
+     */
+    offset: number;
+}
+
+/**
+ * A parsed start tag or empty-element tag.
+ *
+ * @private
+ */
+export interface IStartTag {
+    /**
+     * The element to which the tag belongs.
+     */
+    element: XmlElement;
+    /**
+     * Whether the tag is an empty-element tag.
+     */
+    selfClosing: boolean;
+    /**
+     * The whitespace preceding the end of the tag.
+     */
+    startTagEnd: string;
+}
+
+/**
+ * A markup declaration in the internal subset of a document type
+ * declaration.
+ *
+ * @private
+ */
+type MarkupDecl = XmlDtdAttlist | XmlDtdElement | XmlDtdEntity
+                  | XmlDtdNotation;
+
+/**
+ * Parses the specified XML string into an {@link XmlDocument}.
+ *
+ * Throws an exception if the string is not a well-formed XML document. The
+ * message of the exception includes the line and column at which the problem
+ * was detected.
+ *
+ * @param str The XML string to parse.
+ * @param options The options used when parsing the string.
+ *
+ * @returns The parsed XML document.
+ *
+ * @private
+ */
+export function parseDocument(str: string,
+                              options: IParseOptions = {}): XmlDocument
+{
+    if (!isString(str)) {
+        throw new TypeError("xml should be a string");
+    }
+    return new Parser(str, new ParseOptions(options)).parseDocument();
+}
+
+/**
+ * Parses the specified XML string as mixed content, such as the content of an
+ * element, rather than as a complete document.
+ *
+ * Throws an exception if the string is not well-formed. The message of the
+ * exception includes the line and column at which the problem was detected.
+ *
+ * @param str The XML string to parse.
+ * @param options The options used when parsing the string.
+ * @param version The XML version of the document to which the parsed nodes
+ *                will be added.
+ *
+ * @returns The parsed nodes, none of which have a parent.
+ *
+ * @private
+ */
+export function parseFragment(str: string, options: IParseOptions = {},
+                              version: string = "1.0"): XmlNode[]
+{
+    if (!isString(str)) {
+        throw new TypeError("xml should be a string");
+    }
+    return new Parser(str, new ParseOptions(options), undefined,
+                      version).parseFragment();
+}
+
+/**
+ * Recursive descent parser that builds an {@link XmlDocument} tree from an
+ * XML string.
+ *
+ * @private
+ */
+export class Parser {
+    private _lineStarts: number[];
+    private _origin: IPosition;
+    private _pos: number;
+    private _preserve: boolean;
+    private _str: string;
+    private _version: string;
+
+    /**
+     * Initializes a new instance of the {@link Parser} class.
+     *
+     * @param str The XML string to parse.
+     * @param options The options used when parsing the string.
+     * @param origin The position of the beginning of the string in the
+     *               original input, if the string is part of a larger input.
+     *               Locations and exception messages are reported relative to
+     *               this position.
+     * @param version The XML version of the document, if the string is part
+     *                of a document whose XML declaration has already been
+     *                parsed.
+     */
+    constructor(str: string, options: ParseOptions,
+                origin: IPosition = {column: 1, line: 1, offset: 0},
+                version: string = "1.0")
+    {
+        this._str = str;
+        this._origin = origin;
+        this._pos = str.charAt(0) === "\uFEFF" ? 1 : 0;
+        this._preserve = options.preserve;
+        this._version = version;
+
+        this._lineStarts = [0];
+        for (let i = 0; i < str.length; i++) {
+            const char = str.charAt(i);
+            if (char === "\n" || (char === "\r" && str.charAt(i + 1) !== "\n"))
+            {
+                this._lineStarts.push(i + 1);
+            }
+        }
+    }
+
+    /**
+     * Gets the current position in the string.
+     *
+     * @returns The current position in the string.
+     */
+    get position(): number {
+        return this._pos;
+    }
+
+    /**
+     * Sets the current position in the string.
+     *
+     * @param position The current position in the string.
+     */
+    set position(position: number) {
+        this._pos = position;
+    }
+
+    /**
+     * Returns a new exception with the specified message and the line and
+     * column corresponding to the specified position.
+     *
+     * @param message The message of the exception.
+     * @param pos The position in the string at which the problem was detected.
+     *            If left undefined, the current position is used.
+     *
+     * @returns The new exception.
+     */
+    public error(message: string, pos: number = this._pos): Error {
+        const location = this.locate(pos, pos);
+        return new Error(message + " at line " + location.line + ", column "
+                         + location.column);
+    }
+
+    /**
+     * Returns the location in the string of the construct spanning the
+     * specified positions.
+     *
+     * @param start The position at which the construct begins.
+     * @param end The position immediately following the end of the construct.
+     *            If left undefined, the current position is used.
+     *
+     * @returns The location of the construct.
+     */
+    public locate(start: number, end: number = this._pos): ISourceLocation {
+        let low = 0;
+        let high = this._lineStarts.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (this._lineStarts[mid] <= start) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return {
+            column: low === 0 ? this._origin.column + start
+                              : start - this._lineStarts[low] + 1,
+            endOffset: this._origin.offset + end,
+            line: this._origin.line + low,
+            offset: this._origin.offset + start
+        };
+    }
+
+    /**
+     * Parses a CDATA section.
+     *
+     * @returns The parsed CDATA section.
+     */
+    public parseCdata(): XmlCdata {
+        const start = this._pos;
+        this.expect("<![CDATA[");
+        const data = this.readUntil("]]>", "CDATA section");
+        const cdata = this.create(
+            () => new XmlCdata(this.normalizeNewlines(data)), start);
+        return this.located(cdata, start);
+    }
+
+    /**
+     * Parses a comment.
+     *
+     * @returns The parsed comment.
+     */
+    public parseComment(): XmlComment {
+        const start = this._pos;
+        this.expect("<!--");
+        const content = this.readUntil("-->", "comment");
+        const comment = this.create(
+            () => new XmlComment(this.normalizeNewlines(content)), start);
+        return this.located(comment, start);
+    }
+
+    /**
+     * Parses an XML declaration.
+     *
+     * @returns The parsed XML declaration.
+     */
+    public parseDecl(): XmlDecl {
+        const start = this._pos;
+        this.expect("<?xml");
+
+        const values: {[name: string]: string} = {};
+        const formats: {[name: string]: IAttributeFormat} = {};
+        const order = ["version", "encoding", "standalone"];
+        let last = -1;
+        let whitespace: string;
+        while (true) {
+            whitespace = this.readWhitespace();
+            if (this.lookingAt("?>")) {
+                this._pos += 2;
+                break;
+            } else if (whitespace.length === 0) {
+                throw this.error("expected whitespace in XML declaration");
+            }
+
+            const nameStart = this._pos;
+            const name = this.parseName();
+            const index = order.indexOf(name);
+            if (index <= last) {
+                throw this.error("unexpected " + name + " in XML"
+                                 + " declaration", nameStart);
+            }
+            last = index;
+            formats[name] = this.parseEquals(whitespace);
+            values[name] = this.parseQuoted();
+        }
+
+        if (!isString(values.version)) {
+            throw this.error("XML declaration should contain a version",
+                             start);
+        }
+        const decl = this.create(() => new XmlDecl(values), start);
+        this._version = decl.version;
+        if (this._preserve) {
+            const format: IDeclarationFormat = {
+                end: whitespace,
+                version: formats.version
+            };
+            if (!isUndefined(formats.encoding)) {
+                format.encoding = formats.encoding;
+            }
+            if (!isUndefined(formats.standalone)) {
+                format.standalone = formats.standalone;
+            }
+            decl.format = format;
+        }
+        return this.located(decl, start);
+    }
+
+    /**
+     * Parses the entire string as an XML document.
+     *
+     * @returns The parsed XML document.
+     */
+    public parseDocument(): XmlDocument {
+        const documentStart = this._pos;
+        const prolog: XmlNode[] = [];
+        const separators: ISeparator[] = [];
+        if (this.lookingAt("<?xml") && /^[\s?]/.test(this.peek(5))) {
+            const decl = this.parseDecl();
+            prolog.push(decl);
+            separators.push({node: decl, whitespace: ""});
+        }
+
+        let dtdSeen = false;
+        let whitespace: string;
+        while (true) {
+            whitespace = this.readWhitespace();
+            let node: XmlNode;
+            if (this.atEnd()) {
+                throw this.error("document should contain a root element");
+            } else if (this.lookingAt("<!--")) {
+                node = this.parseComment();
+            } else if (this.lookingAt("<?")) {
+                node = this.parseProcInst();
+            } else if (this.lookingAt("<!DOCTYPE")) {
+                if (dtdSeen) {
+                    throw this.error("document should contain only one"
+                                     + " document type declaration");
+                }
+                node = this.parseDtd();
+                dtdSeen = true;
+            } else if (this.lookingAt("<")) {
+                break;
+            } else {
+                throw this.error("unexpected character data before root"
+                                 + " element");
+            }
+            prolog.push(node);
+            separators.push({node, whitespace});
+        }
+
+        const start = this._pos;
+        this.expect("<");
+        const name = this.parseName();
+        const document = this.create(() => new XmlDocument(name), start);
+        for (let i = 0; i < prolog.length; i++) {
+            document.insertChild(prolog[i], i);
+        }
+        separators.push({node: document.root(), whitespace});
+        this.parseElementRest(document.root());
+        this.located(document.root(), start);
+
+        while (true) {
+            whitespace = this.readWhitespace();
+            let node: XmlNode;
+            if (this.atEnd()) {
+                break;
+            } else if (this.lookingAt("<!--")) {
+                node = this.parseComment();
+            } else if (this.lookingAt("<?")) {
+                node = this.parseProcInst();
+            } else {
+                throw this.error("unexpected content after root element");
+            }
+            document.insertChild(node);
+            separators.push({node, whitespace});
+        }
+
+        if (this._preserve) {
+            const format: IDocumentFormat = {end: whitespace, separators};
+            if (this._str.charAt(0) === "\uFEFF") {
+                format.bom = true;
+            }
+            document.format = format;
+        }
+        return this.located(document, documentStart);
+    }
+
+    /**
+     * Parses a document type declaration, including its internal subset.
+     *
+     * @returns The parsed document type declaration.
+     */
+    public parseDtd(): XmlDtd {
+        const start = this._pos;
+        this.expect("<!DOCTYPE");
+        const format: IDtdFormat = {
+            beforeExternalId: "",
+            beforeName: this.requireWhitespace(),
+            beforePubId: "",
+            beforeSubset: "",
+            beforeSysId: "",
+            end: "",
+            pubIdQuote: "\"",
+            separators: [],
+            subsetEnd: "",
+            sysIdQuote: "\""
+        };
+        const name = this.parseName();
+
+        let sysId: string | undefined;
+        let pubId: string | undefined;
+        let whitespace = this.readWhitespace();
+        if (whitespace.length > 0 && this.lookingAt("SYSTEM")) {
+            format.beforeExternalId = whitespace;
+            this._pos += 6;
+            format.beforeSysId = this.requireWhitespace();
+            format.sysIdQuote = this.peek();
+            sysId = this.parseQuoted();
+            whitespace = this.readWhitespace();
+        } else if (whitespace.length > 0 && this.lookingAt("PUBLIC")) {
+            format.beforeExternalId = whitespace;
+            this._pos += 6;
+            format.beforePubId = this.requireWhitespace();
+            format.pubIdQuote = this.peek();
+            pubId = this.parseQuoted();
+            format.beforeSysId = this.requireWhitespace();
+            format.sysIdQuote = this.peek();
+            sysId = this.parseQuoted();
+            whitespace = this.readWhitespace();
+        }
+
+        const dtd = this.create(() => new XmlDtd(name, sysId, pubId), start);
+
+        if (this.lookingAt("[")) {
+            format.beforeSubset = whitespace;
+            this._pos++;
+            format.subsetEnd = this.parseIntSubset(dtd, format.separators);
+            this.expect("]");
+            whitespace = this.readWhitespace();
+        }
+        format.end = whitespace;
+        this.expect(">");
+
+        if (this._preserve) {
+            dtd.format = format;
+        }
+        return this.located(dtd, start);
+    }
+
+    /**
+     * Parses an end tag.
+     *
+     * @param name The name of the element that the end tag should close.
+     *
+     * @returns The whitespace preceding the closing angle bracket of the end
+     *          tag.
+     */
+    public parseEndTag(name: string): string {
+        const start = this._pos;
+        this.expect("</");
+        const endName = this.parseName();
+        if (endName !== name) {
+            throw this.error("end tag " + endName + " does not match start"
+                             + " tag " + name, start);
+        }
+        const whitespace = this.readWhitespace();
+        this.expect(">");
+        return whitespace;
+    }
+
+    /**
+     * Parses the entire string as mixed content, such as the content of an
+     * element.
+     *
+     * @returns The parsed nodes.
+     */
+    public parseFragment(): XmlNode[] {
+        const container = new XmlElement("fragment");
+        this.parseContent(container, true);
+        const nodes = container.children();
+        for (const node of nodes) {
+            container.removeChild(node);
+        }
+        return nodes;
+    }
+
+    /**
+     * Parses a processing instruction.
+     *
+     * @returns The parsed processing instruction.
+     */
+    public parseProcInst(): XmlProcInst {
+        const start = this._pos;
+        this.expect("<?");
+        const target = this.parseName();
+        if (target.toLowerCase() === "xml") {
+            throw this.error("XML declaration should only appear at the"
+                             + " beginning of the document", start);
+        }
+
+        let content: string | undefined;
+        let separator: string | undefined;
+        if (this.lookingAt("?>")) {
+            this._pos += 2;
+        } else {
+            separator = this.requireWhitespace();
+            content = this.normalizeNewlines(
+                this.readUntil("?>", "processing instruction"));
+        }
+        const procInst = this.create(() => new XmlProcInst(target, content),
+                                     start);
+        if (this._preserve && !isUndefined(separator)) {
+            procInst.format = {separator};
+        }
+        return this.located(procInst, start);
+    }
+
+    /**
+     * Parses a character or entity reference.
+     *
+     * @returns The replacement text of the reference if it is a reference to
+     *          one of the predefined entities, or a node representing the
+     *          reference otherwise.
+     */
+    public parseReference(): string | XmlNode {
+        const start = this._pos;
+        this.expect("&");
+        if (this.lookingAt("#")) {
+            this._pos++;
+            const hex = this.peek() === "x";
+            if (hex) {
+                this._pos++;
+            }
+            const digitsStart = this._pos;
+            const regex = hex ? /[0-9a-fA-F]/ : /[0-9]/;
+            while (!this.atEnd() && regex.test(this.peek())) {
+                this._pos++;
+            }
+            const digits = this._str.substring(digitsStart, this._pos);
+            if (digits.length === 0) {
+                throw this.error("invalid character reference", start);
+            }
+            this.expect(";");
+
+            const codePoint = parseInt(digits, hex ? 16 : 10);
+            if (codePoint > 0x10FFFF) {
+                throw this.error("invalid character reference", start);
+            }
+            const charRef = this.create(
+                () => new XmlCharRef(fromCodePoint(codePoint), hex), start);
+            if (this._preserve) {
+                charRef.format = {digits};
+            }
+            return this.located(charRef, start);
+        }
+
+        const entity = this.parseName();
+        this.expect(";");
+        if (predefinedEntities.hasOwnProperty(entity)) {
+            // The ampersand and left angle bracket are always escaped in
+            // the same way, so they can be replaced with text without
+            // affecting the original formatting
+            if (!this._preserve || entity === "amp" || entity === "lt") {
+                return predefinedEntities[entity];
+            }
+        }
+        const entityRef = this.create(() => new XmlEntityRef(entity), start);
+        return this.located(entityRef, start);
+    }
+
+    /**
+     * Parses a start tag or an empty-element tag.
+     *
+     * @returns The parsed tag. The element of the tag has no parent and no
+     *          content.
+     */
+    public parseStartTag(): IStartTag {
+        const start = this._pos;
+        this.expect("<");
+        const name = this.parseName();
+        const element = this.create(() => new XmlElement(name), start);
+        return this.parseStartTagRest(element);
+    }
+
+    /**
+     * Parses character data and references up to the next markup or the end
+     * of the string.
+     *
+     * @returns The parsed text and reference nodes, none of which have a
+     *          parent.
+     */
+    public parseText(): XmlNode[] {
+        const nodes: XmlNode[] = [];
+        let text = "";
+        let textStart = this._pos;
+        const flush = (end: number = this._pos) => {
+            if (text.length > 0) {
+                const content = this.normalizeNewlines(text);
+                nodes.push(this.located(
+                    this.create(() => new XmlText(content), textStart),
+                    textStart, end));
+                text = "";
+            }
+        };
+
+        while (!this.atEnd() && !this.lookingAt("<")) {
+            if (this.lookingAt("&")) {
+                const start = this._pos;
+                const ref = this.parseReference();
+                if (isString(ref)) {
+                    if (text.length === 0) {
+                        textStart = start;
+                    }
+                    text += ref;
+                } else {
+                    flush(start);
+                    nodes.push(ref);
+                }
+            } else {
+                const delimiter = /[<&]/g;
+                delimiter.lastIndex = this._pos;
+                const match = delimiter.exec(this._str);
+                const end = match === null ? this._str.length : match.index;
+                const data = this._str.substring(this._pos, end);
+                if (data.indexOf("]]>") !== -1) {
+                    throw this.error("character data should not contain"
+                                     + " ']]>'",
+                                     this._pos + data.indexOf("]]>"));
+                }
+                if (text.length === 0) {
+                    textStart = this._pos;
+                }
+                text += data;
+                this._pos = end;
+            }
+        }
+        flush();
+        return nodes;
+    }
+
+    /**
+     * Consumes any whitespace at the current position.
+     *
+     * @returns The consumed whitespace.
+     */
+    public readWhitespace(): string {
+        const start = this._pos;
+        while (/^[ \t\r\n]$/.test(this.peek())) {
+            this._pos++;
+        }
+        return this._str.substring(start, this._pos);
+    }
+
+    /**
+     * Returns whether the end of the string has been reached.
+     */
+    private atEnd(): boolean {
+        return this._pos >= this._str.length;
+    }
+
+    /**
+     * Invokes the specified function, which creates or modifies a node, and
+     * rethrows any exception it raises with the specified location appended.
+     * The node is validated according to the version of XML specified by the
+     * XML declaration, if any.
+     *
+     * @param func The function that creates or modifies the node.
+     * @param pos The position in the string to report if the function throws
+     *            an exception.
+     *
+     * @returns The value returned by the function.
+     */
+    private create<T>(func: () => T, pos: number): T {
+        try {
+            return createWithVersion(this._version, func);
+        } catch (e) {
+            throw this.error(e.message, pos);
+        }
+    }
+
+    /**
+     * Consumes the specified string, or throws an exception if the string
+     * does not appear at the current position.
+     *
+     * @param str The string to consume.
+     */
+    private expect(str: string): void {
+        if (!this.lookingAt(str)) {
+            throw this.error(this.atEnd()
+                             ? "unexpected end of input, expected '" + str
+                               + "'"
+                             : "expected '" + str + "'");
+        }
+        this._pos += str.length;
+    }
+
+    /**
+     * Records the location in the string of the specified node, which spans
+     * the specified positions.
+     *
+     * @param node The specified node.
+     * @param start The position at which the node begins.
+     * @param end The position immediately following the end of the node. If
+     *            left undefined, the current position is used.
+     *
+     * @returns The specified node.
+     */
+    private located<T extends XmlNode>(node: T, start: number,
+                                       end: number = this._pos): T
+    {
+        node.location = this.locate(start, end);
+        return node;
+    }
+
+    /**
+     * Returns whether the specified string appears at the current position.
+     *
+     * @param str The string to look for.
+     */
+    private lookingAt(str: string): boolean {
+        return this._str.substr(this._pos, str.length) === str;
+    }
+
+    /**
+     * Replaces all line breaks in the specified string with line feeds, as
+     * required by the XML specification, unless formatting is preserved. In
+     * XML 1.1, the next line (NEL) and line separator (LSEP) characters are
+     * also line breaks.
+     *
+     * @param str The specified string.
+     *
+     * @returns A copy of the specified string with normalized line breaks.
+     */
+    private normalizeNewlines(str: string): string {
+        if (this._preserve) {
+            return str;
+        }
+        if (this._version === "1.1") {
+            return str.replace(/\r[\n\u0085]?|[\u0085\u2028]/g, "\n");
+        }
+        return str.replace(/\r\n?/g, "\n");
+    }
+
+    /**
+     * Parses an attribute and adds it to the specified element.
+     *
+     * @param element The element to which the attribute belongs.
+     * @param before The whitespace preceding the attribute.
+     */
+    private parseAttribute(element: XmlElement, before: string): void {
+        const start = this._pos;
+        const name = this.parseName();
+        const format = this.parseEquals(before);
+        const value = this.parseAttributeValue();
+        this.create(() => {
+            const attribute = new XmlAttribute(name, value);
+            if (this._preserve) {
+                attribute.format = format;
+            }
+            element.insertChild(this.located(attribute, start));
+        }, start);
+    }
+
+    /**
+     * Parses a quoted attribute value.
+     *
+     * @returns The nodes that make up the value of the attribute.
+     */
+    private parseAttributeValue(): XmlNode[] {
+        const quote = this.peek();
+        if (quote !== "\"" && quote !== "'") {
+            throw this.error("expected quoted attribute value");
+        }
+        this._pos++;
+
+        const nodes: XmlNode[] = [];
+        let text = "";
+        let textStart = this._pos;
+        const flush = (end: number) => {
+            const content = text;
+            nodes.push(this.located(
+                this.create(() => new XmlText(content), textStart), textStart,
+                end));
+            text = "";
+        };
+
+        while (true) {
+            const char = this.peek();
+            if (this.atEnd()) {
+                throw this.error("unexpected end of input in attribute"
+                                 + " value");
+            } else if (char === quote) {
+                if (text.length > 0 || nodes.length === 0) {
+                    flush(this._pos);
+                }
+                this._pos++;
+                break;
+            } else if (char === "<") {
+                throw this.error("attribute value should not contain '<'");
+            }
+
+            if (text.length === 0) {
+                textStart = this._pos;
+            }
+            if (char === "&") {
+                const refStart = this._pos;
+                const ref = this.parseReference();
+                if (isString(ref)) {
+                    text += ref;
+                } else {
+                    if (text.length > 0) {
+                        flush(refStart);
+                    }
+                    nodes.push(ref);
+                }
+            } else if (this._preserve) {
+                text += char;
+                this._pos++;
+            } else if (char === "\r" && (this.peek(1) === "\n"
+                                         || (this._version === "1.1"
+                                             && this.peek(1) === "\u0085")))
+            {
+                text += " ";
+                this._pos += 2;
+            } else {
+                const whitespace = this._version === "1.1"
+                                   ? /[\t\n\r\u0085\u2028]/ : /[\t\n\r]/;
+                text += whitespace.test(char) ? " " : char;
+                this._pos++;
+            }
+        }
+
+        return nodes;
+    }
+
+    /**
+     * Parses the content of an element up to, but not including, its end tag
+     * and adds it to the specified element.
+     *
+     * @param element The element to which the content belongs.
+     * @param fragment Whether the content is a standalone fragment, in which
+     *                 case it ends at the end of the string rather than at an
+     *                 end tag.
+     */
+    private parseContent(element: XmlElement, fragment = false): void {
+        while (true) {
+            if (this.atEnd()) {
+                if (fragment) {
+                    return;
+                }
+                throw this.error("unexpected end of input, expected end tag"
+                                 + " for element " + element.name);
+            } else if (this.lookingAt("</")) {
+                if (fragment) {
+                    throw this.error("unexpected end tag");
+                }
+                return;
+            } else if (this.lookingAt("<![CDATA[")) {
+                element.insertChild(this.parseCdata());
+            } else if (this.lookingAt("<!--")) {
+                element.insertChild(this.parseComment());
+            } else if (this.lookingAt("<?")) {
+                element.insertChild(this.parseProcInst());
+            } else if (this.lookingAt("<")) {
+                const start = this._pos;
+                this._pos++;
+                const name = this.parseName();
+                const child = this.create(() => element.element(name), start);
+                this.parseElementRest(child);
+                this.located(child, start);
+            } else {
+                for (const node of this.parseText()) {
+                    element.insertChild(node);
+                }
+            }
+        }
+    }
+
+    /**
+     * Parses the attributes and content of an element, starting immediately
+     * after its name, and adds them to the specified element.
+     *
+     * @param element The element whose name has already been parsed.
+     */
+    private parseElementRest(element: XmlElement): void {
+        const tag = this.parseStartTagRest(element);
+        if (tag.selfClosing) {
+            return;
+        }
+
+        this.parseContent(element);
+
+        const endTagEnd = this.parseEndTag(element.name);
+        if (this._preserve) {
+            element.format = {
+                endTagEnd,
+                selfClosing: false,
+                startTagEnd: tag.startTagEnd
+            };
+        }
+    }
+
+    /**
+     * Parses the equals sign separating a name from a quoted value, such as
+     * in an attribute, including any surrounding whitespace.
+     *
+     * @param before The whitespace preceding the name.
+     *
+     * @returns The formatting of the name and value.
+     */
+    private parseEquals(before: string): IAttributeFormat {
+        const start = this._pos;
+        this.readWhitespace();
+        this.expect("=");
+        this.readWhitespace();
+        return {
+            before,
+            equals: this._str.substring(start, this._pos),
+            quote: this.peek()
+        };
+    }
+
+    /**
+     * Parses the internal subset of a document type declaration up to, but
+     * not including, the closing square bracket and adds its declarations to
+     * the specified document type declaration.
+     *
+     * @param dtd The document type declaration to which the internal subset
+     *            belongs.
+     * @param separators The array to which the whitespace preceding each
+     *                   declaration is added.
+     *
+     * @returns The whitespace preceding the closing square bracket.
+     */
+    private parseIntSubset(dtd: XmlDtd, separators: ISeparator[]): string {
+        while (true) {
+            const whitespace = this.readWhitespace();
+            const start = this._pos;
+            let node: XmlNode;
+            if (this.atEnd()) {
+                throw this.error("unexpected end of input in document type"
+                                 + " declaration");
+            } else if (this.lookingAt("]")) {
+                return whitespace;
+            } else if (this.lookingAt("<!--")) {
+                node = this.parseComment();
+            } else if (this.lookingAt("<?")) {
+                node = this.parseProcInst();
+            } else if (this.lookingAt("<!ELEMENT")) {
+                this._pos += 9;
+                node = this.parseMarkupDecl(
+                    text => new XmlDtdElement(text), start);
+            } else if (this.lookingAt("<!ATTLIST")) {
+                this._pos += 9;
+                node = this.parseMarkupDecl(
+                    text => new XmlDtdAttlist(text), start);
+            } else if (this.lookingAt("<!ENTITY")) {
+                this._pos += 8;
+                node = this.parseMarkupDecl(
+                    text => new XmlDtdEntity(text), start);
+            } else if (this.lookingAt("<!NOTATION")) {
+                this._pos += 10;
+                node = this.parseMarkupDecl(
+                    text => new XmlDtdNotation(text), start);
+            } else if (this.lookingAt("%")) {
+                this._pos++;
+                const entity = this.parseName();
+                this.expect(";");
+                node = this.create(() => new XmlDtdParamEntityRef(entity),
+                                   start);
+            } else {
+                throw this.error("unexpected content in document type"
+                                 + " declaration");
+            }
+            dtd.insertChild(this.located(node, start));
+            separators.push({node, whitespace});
+        }
+    }
+
+    /**
+     * Parses the remainder of a markup declaration in a document type
+     * declaration, starting immediately after its keyword.
+     *
+     * @param func The function that creates the declaration from its text,
+     *             excluding the keyword and the closing angle bracket.
+     * @param declStart The position of the beginning of the declaration.
+     *
+     * @returns The parsed declaration.
+     */
+    private parseMarkupDecl<T extends MarkupDecl>(func: (text: string) => T,
+                                                  declStart: number): T
+    {
+        const separator = this.requireWhitespace();
+        const start = this._pos;
+        let quote: string | undefined;
+        while (true) {
+            const char = this.peek();
+            if (this.atEnd()) {
+                throw this.error("unexpected end of input in markup"
+                                 + " declaration");
+            } else if (char === quote) {
+                quote = undefined;
+            } else if (quote === undefined && (char === "\"" || char === "'"))
+            {
+                quote = char;
+            } else if (quote === undefined && char === ">") {
+                break;
+            }
+            this._pos++;
+        }
+        const text = this.normalizeNewlines(
+            this._str.substring(start, this._pos));
+        this._pos++;
+        const decl = this.create(() => func(text), declStart);
+        if (this._preserve) {
+            decl.format = {separator};
+        }
+        return decl;
+    }
+
+    /**
+     * Parses an XML name.
+     *
+     * @returns The parsed name.
+     */
+    private parseName(): string {
+        const start = this._pos;
+        while (!this.atEnd() && !/[\s\/>=<?;"'\[\]%&]/.test(this.peek())) {
+            this._pos++;
+        }
+        const name = this._str.substring(start, this._pos);
+        if (!validateName(name)) {
+            throw this.error(name.length === 0 ? "expected name"
+                                               : "invalid name " + name,
+                             start);
+        }
+        return name;
+    }
+
+    /**
+     * Parses a quoted literal, such as a system identifier or a value in the
+     * XML declaration.
+     *
+     * @returns The contents of the literal, excluding quotation marks.
+     */
+    private parseQuoted(): string {
+        const quote = this.peek();
+        if (quote !== "\"" && quote !== "'") {
+            throw this.error("expected quoted literal");
+        }
+        this._pos++;
+        return this.readUntil(quote, "literal");
+    }
+
+    /**
+     * Parses the attributes of an element and the end of its start tag,
+     * starting immediately after its name, and adds the attributes to the
+     * specified element.
+     *
+     * @param element The element whose name has already been parsed.
+     *
+     * @returns The parsed tag.
+     */
+    private parseStartTagRest(element: XmlElement): IStartTag {
+        let whitespace: string;
+        while (true) {
+            whitespace = this.readWhitespace();
+            if (this.lookingAt("/>")) {
+                this._pos += 2;
+                if (this._preserve) {
+                    element.format = {
+                        endTagEnd: "",
+                        selfClosing: true,
+                        startTagEnd: whitespace
+                    };
+                }
+                return {element, selfClosing: true, startTagEnd: whitespace};
+            } else if (this.lookingAt(">")) {
+                this._pos += 1;
+                return {element, selfClosing: false, startTagEnd: whitespace};
+            } else if (this.atEnd()) {
+                throw this.error("unexpected end of input in start tag of"
+                                 + " element " + element.name);
+            } else if (whitespace.length === 0) {
+                throw this.error("expected whitespace before attribute");
+            }
+            this.parseAttribute(element, whitespace);
+        }
+    }
+
+    /**
+     * Returns the character at the specified offset from the current
+     * position.
+     *
+     * @param offset The offset from the current position. If left undefined,
+     *               the character at the current position is returned.
+     */
+    private peek(offset: number = 0): string {
+        return this._str.charAt(this._pos + offset);
+    }
+
+    /**
+     * Consumes characters up to and including the specified delimiter.
+     *
+     * @param delimiter The delimiter that ends the construct.
+     * @param construct A description of the construct being read, used in
+     *                  exception messages.
+     *
+     * @returns The characters preceding the delimiter.
+     */
+    private readUntil(delimiter: string, construct: string): string {
+        const end = this._str.indexOf(delimiter, this._pos);
+        if (end === -1) {
+            this._pos = this._str.length;
+            throw this.error("unexpected end of input in " + construct);
+        }
+        const str = this._str.substring(this._pos, end);
+        this._pos = end + delimiter.length;
+        return str;
+    }
+
+    /**
+     * Consumes whitespace, or throws an exception if there is no whitespace
+     * at the current position.
+     *
+     * @returns The consumed whitespace.
+     */
+    private requireWhitespace(): string {
+        const whitespace = this.readWhitespace();
+        if (whitespace.length === 0) {
+            throw this.error("expected whitespace");
+        }
+        return whitespace;
+    }
+}
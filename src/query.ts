@@ -0,0 +1,103 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {getValue} from "./namespaces";
+import XmlElement from "./nodes/XmlElement";
+import XmlNode from "./nodes/XmlNode";
+import {ElementSelector, checkElementSelector} from "./options";
+import {isFunction, isString, isUndefined} from "./utils";
+
+/**
+ * Returns the descendants of the specified node that match the specified
+ * selector, in document order.
+ *
+ * @param node The node whose descendants are searched.
+ * @param selector The selector.
+ * @param first Whether the search should stop at the first match.
+ *
+ * @returns The matching descendants.
+ *
+ * @private
+ */
+export function findElements(node: XmlNode, selector: ElementSelector,
+                             first: boolean): XmlElement[]
+{
+    checkElementSelector(selector);
+
+    const found: XmlElement[] = [];
+    const search = (parent: XmlNode): boolean => {
+        for (const child of parent.children()) {
+            if (!(child instanceof XmlElement)) {
+                continue;
+            }
+            if (matchesSelector(child, selector)) {
+                found.push(child);
+                if (first) {
+                    return true;
+                }
+            }
+            if (search(child)) {
+                return true;
+            }
+        }
+        return false;
+    };
+    search(node);
+    return found;
+}
+
+/**
+ * Returns true if the specified element matches the specified selector. The
+ * selector is assumed to be valid.
+ *
+ * @param element The element.
+ * @param selector The selector.
+ *
+ * @returns Whether the element matches the selector.
+ *
+ * @private
+ */
+export function matchesSelector(element: XmlElement,
+                                selector: ElementSelector): boolean
+{
+    if (isString(selector)) {
+        return element.name === selector;
+    } else if (isFunction(selector)) {
+        return selector(element);
+    }
+
+    if (!isUndefined(selector.name) && element.name !== selector.name) {
+        return false;
+    }
+    if (!isUndefined(selector.attributes)) {
+        const attributes = element.attributes();
+        for (const name of Object.keys(selector.attributes)) {
+            const expected = selector.attributes[name];
+            const attribute = attributes.filter(a => a.name === name)[0];
+            if (isUndefined(attribute)) {
+                if (expected !== false) {
+                    return false;
+                }
+            } else if (expected === false
+                       || (isString(expected)
+                           && getValue(attribute) !== expected))
+            {
+                return false;
+            }
+        }
+    }
+    return isUndefined(selector.predicate) || selector.predicate(element);
+}
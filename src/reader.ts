@@ -0,0 +1,786 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import XmlCharRef from "./nodes/XmlCharRef";
+import XmlElement from "./nodes/XmlElement";
+import XmlEntityRef from "./nodes/XmlEntityRef";
+import XmlNode, {ISourceLocation} from "./nodes/XmlNode";
+import XmlText from "./nodes/XmlText";
+import {IParseOptions, ParseOptions} from "./options";
+import {IPosition, Parser} from "./parse";
+import {fromCodePoint, isInteger, isString, isUndefined} from "./utils";
+
+/**
+ * The properties shared by all events returned by {@link XmlReader}.
+ */
+export interface IReaderEvent {
+    /**
+     * The location in the input of the construct that produced the event.
+     */
+    location: ISourceLocation;
+    /**
+     * The type of the event.
+     */
+    type: string;
+}
+
+/**
+ * An event returned by {@link XmlReader} for a CDATA section.
+ */
+export interface ICdataEvent extends IReaderEvent {
+    /**
+     * The character data of the CDATA section.
+     */
+    data: string;
+    type: "cdata";
+}
+
+/**
+ * An event returned by {@link XmlReader} for a comment.
+ */
+export interface ICommentEvent extends IReaderEvent {
+    /**
+     * The text of the comment.
+     */
+    content: string;
+    type: "comment";
+}
+
+/**
+ * An event returned by {@link XmlReader} for the XML declaration.
+ */
+export interface IDeclEvent extends IReaderEvent {
+    /**
+     * The encoding attribute of the declaration, if present.
+     */
+    encoding?: string;
+    /**
+     * The standalone attribute of the declaration, if present.
+     */
+    standalone?: string;
+    type: "decl";
+    /**
+     * The version attribute of the declaration.
+     */
+    version: string;
+}
+
+/**
+ * An event returned by {@link XmlReader} for the document type declaration.
+ * The declarations in the internal subset are checked but not reported.
+ */
+export interface IDoctypeEvent extends IReaderEvent {
+    /**
+     * The name of the document type declaration.
+     */
+    name: string;
+    /**
+     * The public identifier of the document type declaration, if present.
+     */
+    pubId?: string;
+    /**
+     * The system identifier of the document type declaration, if present.
+     */
+    sysId?: string;
+    type: "doctype";
+}
+
+/**
+ * An event returned by {@link XmlReader} for an end tag. This event is also
+ * returned immediately after the start element event for an empty-element
+ * tag.
+ */
+export interface IEndElementEvent extends IReaderEvent {
+    /**
+     * The name of the element.
+     */
+    name: string;
+    type: "endElement";
+}
+
+/**
+ * An event returned by {@link XmlReader} for a reference to an entity other
+ * than the entities predefined by the XML specification.
+ */
+export interface IEntityRefEvent extends IReaderEvent {
+    /**
+     * The name of the entity.
+     */
+    entity: string;
+    type: "entityRef";
+}
+
+/**
+ * An event returned by {@link XmlReader} for a processing instruction.
+ */
+export interface IProcInstEvent extends IReaderEvent {
+    /**
+     * The content of the processing instruction, if present.
+     */
+    content?: string;
+    /**
+     * The target of the processing instruction.
+     */
+    target: string;
+    type: "procInst";
+}
+
+/**
+ * An event returned by {@link XmlReader} for a start tag or an empty-element
+ * tag.
+ */
+export interface IStartElementEvent extends IReaderEvent {
+    /**
+     * The values of the attributes of the element, keyed by name. Character
+     * references and references to the predefined entities are replaced with
+     * the corresponding text, while references to other entities are left as
+     * is.
+     */
+    attributes: {[name: string]: string};
+    /**
+     * The name of the element.
+     */
+    name: string;
+    /**
+     * Whether the tag is an empty-element tag.
+     */
+    selfClosing: boolean;
+    type: "startElement";
+}
+
+/**
+ * An event returned by {@link XmlReader} for character data in an element.
+ * Character references and references to the predefined entities are replaced
+ * with the corresponding text.
+ */
+export interface ITextEvent extends IReaderEvent {
+    /**
+     * The character data.
+     */
+    text: string;
+    type: "text";
+}
+
+/**
+ * An event returned by {@link XmlReader}.
+ */
+export type ReaderEvent = ICdataEvent | ICommentEvent | IDeclEvent
+    | IDoctypeEvent | IEndElementEvent | IEntityRefEvent | IProcInstEvent
+    | IStartElementEvent | ITextEvent;
+
+/**
+ * Incremental pull parser for XML documents that are too large to be loaded
+ * into an {@link XmlDocument} all at once.
+ *
+ * The document is supplied in chunks using the `write` method, and the end of
+ * the document is signalled using the `end` method. Events describing the
+ * constructs of the document are retrieved one at a time using the `read`
+ * method, which returns undefined when more input is needed:
+ *
+ * ```javascript
+ * const reader = new XmlReader();
+ * reader.write("<feed><record id='1'>");
+ * reader.read(); // {type: "startElement", name: "feed", ...}
+ * reader.read(); // {type: "startElement", name: "record", ...}
+ * reader.read(); // undefined
+ * ```
+ *
+ * Immediately after a start element event is read, the `expand` method can be
+ * used to parse the rest of the element into an {@link XmlElement} instead of
+ * reading its content as events.
+ *
+ * Only the input that has not yet been read or expanded is retained in
+ * memory. The document is checked for well-formedness as it is read, and
+ * exceptions include the line and column at which the problem was detected.
+ */
+export default class XmlReader {
+    private _buffer: string;
+    private _declAllowed: boolean;
+    private _done: boolean;
+    private _dtdSeen: boolean;
+    private _ended: boolean;
+    private _expansion?: {depth: number, origin: IPosition};
+    private _lastStart?: IStartElementEvent;
+    private _options: ParseOptions;
+    private _origin: IPosition;
+    private _parser?: Parser;
+    private _pending: number[];
+    private _pos: number;
+    private _queue: ReaderEvent[];
+    private _rootSeen: boolean;
+    private _stack: string[];
+    private _version: string;
+
+    /**
+     * Initializes a new instance of the {@link XmlReader} class.
+     *
+     * @param options The options used when parsing elements using the
+     *                `expand` method.
+     */
+    constructor(options: IParseOptions = {}) {
+        this._options = new ParseOptions(options);
+        this._buffer = "";
+        this._declAllowed = true;
+        this._done = false;
+        this._dtdSeen = false;
+        this._ended = false;
+        this._origin = {column: 1, line: 1, offset: 0};
+        this._pending = [];
+        this._pos = 0;
+        this._queue = [];
+        this._rootSeen = false;
+        this._stack = [];
+        this._version = "1.0";
+    }
+
+    /**
+     * Gets whether the entire document has been read.
+     *
+     * @returns Whether the entire document has been read.
+     */
+    get done(): boolean {
+        return this._done;
+    }
+
+    /**
+     * Signals the end of the document.
+     *
+     * @param chunk The last chunk of the document. If left undefined, no
+     *              further input is added.
+     */
+    public end(chunk?: string | ArrayLike<number>): void {
+        if (!isUndefined(chunk)) {
+            this.write(chunk);
+        } else if (this._ended) {
+            throw new Error("input has already ended");
+        }
+        if (this._pending.length > 0) {
+            throw new Error("input should not end with an incomplete UTF-8"
+                            + " byte sequence");
+        }
+        this._ended = true;
+    }
+
+    /**
+     * Parses the element whose start element event was just read, including
+     * its attributes and content, into an {@link XmlElement}. The events for
+     * the content of the element, including its end element event, are not
+     * returned by subsequent calls to `read`.
+     *
+     * If the end of the element has not yet been supplied, undefined is
+     * returned and `expand` should be called again once more input has been
+     * written. The `read` method cannot be called in the meantime.
+     *
+     * Throws an exception if the last event read was not a start element
+     * event.
+     *
+     * @returns The parsed element, which has no parent, or undefined if more
+     *          input is needed.
+     */
+    public expand(): XmlElement | undefined {
+        if (isUndefined(this._expansion)) {
+            if (isUndefined(this._lastStart)) {
+                throw new Error("expand should only be called immediately"
+                                + " after a startElement event is read");
+            }
+            const location = this._lastStart.location;
+            this._expansion = {
+                depth: 1,
+                origin: {
+                    column: location.column,
+                    line: location.line,
+                    offset: location.offset
+                }
+            };
+            this._lastStart = undefined;
+        }
+
+        const expansion = this._expansion;
+        while (expansion.depth > 0) {
+            const event = this.next();
+            if (isUndefined(event)) {
+                return undefined;
+            } else if (event.type === "startElement") {
+                expansion.depth++;
+            } else if (event.type === "endElement") {
+                expansion.depth--;
+            }
+        }
+        this._expansion = undefined;
+
+        const str = this._buffer.substring(
+            expansion.origin.offset - this._origin.offset, this._pos);
+        const parser = new Parser(str, this._options, expansion.origin,
+                                  this._version);
+        return <XmlElement> parser.parseFragment()[0];
+    }
+
+    /**
+     * Returns the next event in the document.
+     *
+     * Throws an exception if the document is not well-formed or if an
+     * element is being expanded.
+     *
+     * @returns The next event in the document, or undefined if more input is
+     *          needed or if the entire document has been read.
+     */
+    public read(): ReaderEvent | undefined {
+        if (!isUndefined(this._expansion)) {
+            throw new Error("read should not be called while an element is"
+                            + " being expanded");
+        }
+        const event = this.next();
+        this._lastStart = !isUndefined(event) && event.type === "startElement"
+                          ? event : undefined;
+        return event;
+    }
+
+    /**
+     * Supplies the next chunk of the document. Buffers are decoded as UTF-8,
+     * and byte sequences may be split across chunks.
+     *
+     * @param chunk The next chunk of the document.
+     */
+    public write(chunk: string | ArrayLike<number>): void {
+        if (this._ended) {
+            throw new Error("input has already ended");
+        }
+
+        let str: string;
+        if (isString(chunk)) {
+            str = chunk;
+        } else if (typeof chunk === "object" && chunk !== null
+                   && isInteger(chunk.length))
+        {
+            str = this.decode(chunk);
+        } else {
+            throw new TypeError("chunk should be a string or a Buffer");
+        }
+
+        this.discard();
+        this._buffer += str;
+        this._parser = undefined;
+    }
+
+    /**
+     * Decodes the specified UTF-8 bytes, prefixed with any bytes left over
+     * from the previous chunk. Bytes at the end of the chunk that do not form
+     * a complete sequence are retained for the next chunk.
+     *
+     * @param bytes The bytes to decode.
+     *
+     * @returns The decoded string.
+     */
+    private decode(bytes: ArrayLike<number>): string {
+        const pending = this._pending;
+        const length = pending.length + bytes.length;
+        const byteAt = (i: number) => i < pending.length
+                                      ? pending[i]
+                                      : bytes[i - pending.length];
+
+        let str = "";
+        let units: number[] = [];
+        let i = 0;
+        while (i < length) {
+            const lead = byteAt(i);
+            let count: number;
+            let codePoint: number;
+            let min: number;
+            if (lead < 0x80) {
+                count = 0;
+                codePoint = lead;
+                min = 0;
+            } else if (lead >= 0xC2 && lead < 0xE0) {
+                count = 1;
+                codePoint = lead - 0xC0;
+                min = 0x80;
+            } else if (lead >= 0xE0 && lead < 0xF0) {
+                count = 2;
+                codePoint = lead - 0xE0;
+                min = 0x800;
+            } else if (lead >= 0xF0 && lead < 0xF5) {
+                count = 3;
+                codePoint = lead - 0xF0;
+                min = 0x10000;
+            } else {
+                throw new Error("invalid UTF-8 byte sequence");
+            }
+
+            if (i + count >= length) {
+                break;
+            }
+            for (let j = 1; j <= count; j++) {
+                const byte = byteAt(i + j);
+                if (byte < 0x80 || byte > 0xBF) {
+                    throw new Error("invalid UTF-8 byte sequence");
+                }
+                codePoint = codePoint * 0x40 + byte - 0x80;
+            }
+            if (codePoint < min || codePoint > 0x10FFFF
+                || (codePoint >= 0xD800 && codePoint <= 0xDFFF))
+            {
+                throw new Error("invalid UTF-8 byte sequence");
+            }
+
+            const chars = fromCodePoint(codePoint);
+            for (let j = 0; j < chars.length; j++) {
+                units.push(chars.charCodeAt(j));
+            }
+            if (units.length >= 4096) {
+                str += String.fromCharCode.apply(undefined, units);
+                units = [];
+            }
+            i += count + 1;
+        }
+        str += String.fromCharCode.apply(undefined, units);
+
+        const remaining: number[] = [];
+        for (; i < length; i++) {
+            remaining.push(byteAt(i));
+        }
+        this._pending = remaining;
+        return str;
+    }
+
+    /**
+     * Discards the part of the input that has been read and is no longer
+     * needed by a pending or possible expansion.
+     */
+    private discard(): void {
+        let keep = this._pos;
+        const starts = [this._expansion && this._expansion.origin.offset,
+                        this._lastStart && this._lastStart.location.offset];
+        for (const start of starts) {
+            if (!isUndefined(start)) {
+                keep = Math.min(keep, start - this._origin.offset);
+            }
+        }
+        if (keep === 0) {
+            return;
+        }
+
+        const location = this.parser().locate(keep, keep);
+        this._origin = {
+            column: location.column,
+            line: location.line,
+            offset: location.offset
+        };
+        this._buffer = this._buffer.substring(keep);
+        this._pos -= keep;
+        this._parser = undefined;
+    }
+
+    /**
+     * Returns the position in the buffer immediately following the construct
+     * beginning at the specified position, or -1 if the construct does not
+     * end within the buffer.
+     *
+     * @param pos The position at which the construct begins.
+     */
+    private findEnd(pos: number): number {
+        const buffer = this._buffer;
+        const remaining = buffer.length - pos;
+        const find = (delimiter: string, from: number) => {
+            const index = buffer.indexOf(delimiter, from);
+            return index === -1 ? -1 : index + delimiter.length;
+        };
+
+        if (buffer.charAt(pos) !== "<") {
+            return buffer.indexOf("<", pos);
+        } else if (remaining < 2
+                   || (buffer.charAt(pos + 1) === "!" && remaining < 9))
+        {
+            return -1;
+        } else if (buffer.substr(pos, 2) === "<?") {
+            return find("?>", pos + 2);
+        } else if (buffer.substr(pos, 4) === "<!--") {
+            return find("-->", pos + 4);
+        } else if (buffer.substr(pos, 9) === "<![CDATA[") {
+            return find("]]>", pos + 9);
+        }
+
+        // Find the closing angle bracket of the tag or declaration, ignoring
+        // any that appear in quoted literals or, in the internal subset of a
+        // document type declaration, in comments and processing instructions
+        let quote: string | undefined;
+        let subset = false;
+        let i = pos + 1;
+        while (i < buffer.length) {
+            const char = buffer.charAt(i);
+            if (!isUndefined(quote)) {
+                if (char === quote) {
+                    quote = undefined;
+                }
+            } else if (subset && buffer.substr(i, 4) === "<!--") {
+                i = find("-->", i + 4);
+                if (i === -1) {
+                    return -1;
+                }
+                continue;
+            } else if (subset && buffer.substr(i, 2) === "<?") {
+                i = find("?>", i + 2);
+                if (i === -1) {
+                    return -1;
+                }
+                continue;
+            } else if (char === "\"" || char === "'") {
+                quote = char;
+            } else if (char === "[") {
+                subset = true;
+            } else if (char === "]") {
+                subset = false;
+            } else if (char === ">" && !subset) {
+                return i + 1;
+            }
+            i++;
+        }
+        return -1;
+    }
+
+    /**
+     * Returns the next event in the document, parsing more of the buffer if
+     * necessary.
+     *
+     * @returns The next event in the document, or undefined if more input is
+     *          needed or if the entire document has been read.
+     */
+    private next(): ReaderEvent | undefined {
+        while (this._queue.length === 0) {
+            if (!this.scan()) {
+                return undefined;
+            }
+        }
+        return this._queue.shift();
+    }
+
+    /**
+     * Returns the parser for the current buffer.
+     */
+    private parser(): Parser {
+        if (isUndefined(this._parser)) {
+            this._parser = new Parser(this._buffer, new ParseOptions(),
+                                      this._origin, this._version);
+        }
+        return this._parser;
+    }
+
+    /**
+     * Parses the next construct in the buffer and adds the corresponding
+     * events to the queue.
+     *
+     * @returns Whether a construct was parsed.
+     */
+    private scan(): boolean {
+        const buffer = this._buffer;
+        const parser = this.parser();
+        if (this._done) {
+            return false;
+        } else if (this._origin.offset === 0 && this._pos === 0) {
+            if (buffer.length === 0 && !this._ended) {
+                return false;
+            } else if (buffer.charAt(0) === "\uFEFF") {
+                this._pos = 1;
+            }
+        }
+
+        const inRoot = this._stack.length > 0;
+        if (!inRoot) {
+            parser.position = this._pos;
+            const whitespace = parser.readWhitespace();
+            if (parser.position === buffer.length && !this._ended) {
+                return false;
+            } else if (whitespace.length > 0) {
+                this._declAllowed = false;
+                this._pos = parser.position;
+            }
+        }
+
+        if (this._pos >= buffer.length) {
+            if (!this._ended) {
+                return false;
+            } else if (inRoot) {
+                throw parser.error("unexpected end of input, expected end tag"
+                                   + " for element "
+                                   + this._stack[this._stack.length - 1],
+                                   this._pos);
+            } else if (!this._rootSeen) {
+                throw parser.error("document should contain a root element",
+                                   this._pos);
+            }
+            this._done = true;
+            return false;
+        } else if (this.findEnd(this._pos) === -1 && !this._ended) {
+            return false;
+        }
+
+        const start = this._pos;
+        const declAllowed = this._declAllowed;
+        this._declAllowed = false;
+        parser.position = start;
+        const lookingAt = (str: string) => buffer.substr(start, str.length)
+                                           === str;
+        if (lookingAt("<!--")) {
+            const comment = parser.parseComment();
+            this._queue.push({
+                content: comment.content,
+                location: <ISourceLocation> comment.location,
+                type: "comment"
+            });
+        } else if (lookingAt("<?")) {
+            if (declAllowed && /^<\?xml[\s?]/.test(buffer.substr(start, 6))) {
+                const decl = parser.parseDecl();
+                this._version = decl.version;
+                const event: IDeclEvent = {
+                    location: <ISourceLocation> decl.location,
+                    type: "decl",
+                    version: decl.version
+                };
+                if (!isUndefined(decl.encoding)) {
+                    event.encoding = decl.encoding;
+                }
+                if (!isUndefined(decl.standalone)) {
+                    event.standalone = decl.standalone;
+                }
+                this._queue.push(event);
+            } else {
+                const procInst = parser.parseProcInst();
+                const event: IProcInstEvent = {
+                    location: <ISourceLocation> procInst.location,
+                    target: procInst.target,
+                    type: "procInst"
+                };
+                if (!isUndefined(procInst.content)) {
+                    event.content = procInst.content;
+                }
+                this._queue.push(event);
+            }
+        } else if (this._rootSeen && !inRoot) {
+            throw parser.error("unexpected content after root element",
+                               start);
+        } else if (inRoot && lookingAt("<![CDATA[")) {
+            const cdata = parser.parseCdata();
+            this._queue.push({
+                data: cdata.data,
+                location: <ISourceLocation> cdata.location,
+                type: "cdata"
+            });
+        } else if (!inRoot && lookingAt("<!DOCTYPE")) {
+            if (this._dtdSeen) {
+                throw parser.error("document should contain only one"
+                                   + " document type declaration", start);
+            }
+            const dtd = parser.parseDtd();
+            this._dtdSeen = true;
+            const event: IDoctypeEvent = {
+                location: <ISourceLocation> dtd.location,
+                name: dtd.name,
+                type: "doctype"
+            };
+            if (!isUndefined(dtd.pubId)) {
+                event.pubId = dtd.pubId;
+            }
+            if (!isUndefined(dtd.sysId)) {
+                event.sysId = dtd.sysId;
+            }
+            this._queue.push(event);
+        } else if (inRoot && lookingAt("</")) {
+            const name = <string> this._stack.pop();
+            parser.parseEndTag(name);
+            this._queue.push({
+                location: parser.locate(start),
+                name,
+                type: "endElement"
+            });
+        } else if (lookingAt("<")) {
+            const tag = parser.parseStartTag();
+            const location = parser.locate(start);
+            const attributes: {[name: string]: string} = {};
+            for (const attribute of tag.element.attributes()) {
+                attributes[attribute.name] = attribute.children().map(
+                    node => nodeText(node)).join("");
+            }
+            this._rootSeen = true;
+            this._queue.push({
+                attributes,
+                location,
+                name: tag.element.name,
+                selfClosing: tag.selfClosing,
+                type: "startElement"
+            });
+            if (tag.selfClosing) {
+                this._queue.push({
+                    location,
+                    name: tag.element.name,
+                    type: "endElement"
+                });
+            } else {
+                this._stack.push(tag.element.name);
+            }
+        } else if (inRoot) {
+            let text: ITextEvent | undefined;
+            for (const node of parser.parseText()) {
+                const location = <ISourceLocation> node.location;
+                if (node instanceof XmlEntityRef) {
+                    this._queue.push({
+                        entity: node.entity,
+                        location,
+                        type: "entityRef"
+                    });
+                    text = undefined;
+                } else if (isUndefined(text)) {
+                    text = {
+                        location: {
+                            column: location.column,
+                            endOffset: location.endOffset,
+                            line: location.line,
+                            offset: location.offset
+                        },
+                        text: nodeText(node),
+                        type: "text"
+                    };
+                    this._queue.push(text);
+                } else {
+                    text.text += nodeText(node);
+                    text.location.endOffset = location.endOffset;
+                }
+            }
+        } else {
+            throw parser.error("unexpected character data before root"
+                               + " element", start);
+        }
+
+        this._pos = parser.position;
+        return true;
+    }
+}
+
+/**
+ * Returns the text represented by the specified text or reference node.
+ *
+ * @param node The specified node.
+ *
+ * @returns The text represented by the node.
+ *
+ * @private
+ */
+function nodeText(node: XmlNode): string {
+    if (node instanceof XmlCharRef) {
+        return node.char;
+    } else if (node instanceof XmlEntityRef) {
+        return "&" + node.entity + ";";
+    }
+    return (<XmlText> node).text;
+}
@@ -0,0 +1,820 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {INamespaces} from "./namespaces";
+import XmlAttribute from "./nodes/XmlAttribute";
+import XmlDecl from "./nodes/XmlDecl";
+import XmlNode, {IChildPart, StringPart} from "./nodes/XmlNode";
+import {AttributeOrder, IStringOptions, StringOptions} from "./options";
+import {IMappedRange} from "./sourcemap";
+import {isArray, isString, isUndefined} from "./utils";
+
+/**
+ * A destination for the string representation of a node, such as a Node.js
+ * `Writable` stream.
+ */
+export interface IWritable {
+    /**
+     * Releases the destination after an exception is thrown while writing to
+     * it, such as by destroying a Node.js stream with the exception. If left
+     * undefined, `end` is called instead.
+     *
+     * @param err The exception.
+     */
+    destroy?(err: Error): any;
+    /**
+     * Signals that no more chunks will be written.
+     */
+    end(): any;
+    /**
+     * Registers a listener that is called once when the specified event
+     * occurs. The "drain" event should occur when the destination is ready to
+     * accept more chunks, the "error" event when writing to it fails, and the
+     * "close" event when it is closed.
+     *
+     * @param event The name of the event.
+     * @param listener The listener.
+     */
+    once(event: string, listener: (err?: Error) => void): any;
+    /**
+     * Removes a listener registered using `once` that has not been called.
+     * If left undefined, the listeners registered while waiting for the
+     * destination to drain are left attached, but are ignored once one of
+     * them has been called.
+     *
+     * @param event The name of the event.
+     * @param listener The listener.
+     */
+    removeListener?(event: string, listener: (err?: Error) => void): any;
+    /**
+     * Writes the specified chunk.
+     *
+     * @param chunk The chunk to write.
+     *
+     * @returns False if the destination would like writing to stop until the
+     *          "drain" event occurs, or true otherwise.
+     */
+    write(chunk: string): boolean;
+}
+
+/**
+ * The size, in UTF-16 code units, above which {@link XmlNode#pipe} and
+ * {@link XmlWriter} write the accumulated output to the destination.
+ *
+ * @private
+ */
+export const chunkSize = 16384;
+
+/**
+ * Transforms the string representation of a node so that each of its lines
+ * is indented, as when pretty-printing the children of an element. The
+ * transformed string is identical to the result of splitting the whole string
+ * on newlines, prefixing each line with the indent string, and rejoining the
+ * lines, even if a newline is split across several calls to `write`.
+ *
+ * @private
+ */
+export class Indenter {
+    private _held: string;
+    private _indent: string;
+    private _newline: string;
+    private _started: boolean;
+
+    /**
+     * Initializes a new instance of the {@link Indenter} class.
+     *
+     * @param indent The indent string.
+     * @param newline The newline string.
+     * @param started Whether the first line has already been indented, so
+     *                that only the lines following newlines are indented.
+     */
+    constructor(indent: string, newline: string, started: boolean = false) {
+        this._held = "";
+        this._indent = indent;
+        this._newline = newline;
+        this._started = started;
+    }
+
+    /**
+     * Returns the transformed remainder of the string.
+     *
+     * @returns The transformed remainder of the string.
+     */
+    public flush(): string {
+        if (this._newline.length === 0) {
+            return "";
+        }
+        const str = this._started ? this._held : this._indent;
+        this._held = "";
+        this._started = true;
+        return str;
+    }
+
+    /**
+     * Transforms the specified part of the string. Text that may be the
+     * beginning of a newline is retained until the next call.
+     *
+     * @param part The specified part of the string.
+     *
+     * @returns The transformed part of the string.
+     */
+    public write(part: string): string {
+        if (this._newline.length === 0) {
+            // Splitting on the empty string separates each character
+            let indented = "";
+            for (let i = 0; i < part.length; i++) {
+                indented += this._indent + part.charAt(i);
+            }
+            return indented;
+        }
+
+        let str = "";
+        if (!this._started) {
+            str += this._indent;
+            this._started = true;
+        }
+
+        const pending = this._held + part;
+        let start = 0;
+        let index = pending.indexOf(this._newline);
+        while (index !== -1) {
+            str += pending.substring(start, index) + this._newline
+                   + this._indent;
+            start = index + this._newline.length;
+            index = pending.indexOf(this._newline, start);
+        }
+
+        let end = Math.max(start, pending.length - this._newline.length + 1);
+        while (end < pending.length
+               && this._newline.indexOf(pending.substring(end)) !== 0)
+        {
+            end++;
+        }
+        this._held = pending.substring(end);
+        return str + pending.substring(start, end);
+    }
+}
+
+/**
+ * Produces the string representation of a node and its descendants
+ * incrementally, using the parts returned by the `toStringParts` method of
+ * each node.
+ *
+ * @private
+ */
+export class Serializer {
+    private _offset: number;
+    private _options: IStringOptions;
+    private _optionsObj: StringOptions;
+    private _outer: Indenter[];
+    private _ranges?: IMappedRange[];
+    private _stack: Array<{indenter?: Indenter,
+                           next: () => StringPart | undefined,
+                           range?: IMappedRange,
+                           verbatim?: boolean}>;
+
+    /**
+     * Initializes a new instance of the {@link Serializer} class.
+     *
+     * @param node The node to serialize.
+     * @param options Formatting options for the string representation.
+     * @param ranges An array to which the range of the string representation
+     *               produced by each node is added. If left undefined, the
+     *               ranges are not recorded.
+     * @param levels The number of levels of indentation applied to the lines
+     *               following the first line, as when the node is written in
+     *               place of a child of another node.
+     * @param scope The namespaces in scope at the parent of the node, if the
+     *              node is written in place of a child of an element.
+     * @param spacePreserved Whether whitespace is significant in the content
+     *                       of the parent of the node, if the node is written
+     *                       in place of a child of an element.
+     * @param depth The number of elements enclosing the node, if the node is
+     *              written in place of a child of an element.
+     */
+    constructor(node: XmlNode, options: IStringOptions = {},
+                ranges?: IMappedRange[], levels: number = 0,
+                scope?: INamespaces, spacePreserved?: boolean,
+                depth?: number)
+    {
+        this._optionsObj = new StringOptions(options);
+        this._offset = 0;
+        this._options = options;
+        this._outer = [];
+        for (let i = 0; i < levels; i++) {
+            this._outer.push(new Indenter(this._optionsObj.indent,
+                                          this._optionsObj.newline, true));
+        }
+        this._ranges = ranges;
+        this._stack = [{
+            next: node.toStringParts(options, scope, spacePreserved, depth),
+            range: this.track(node, 0)
+        }];
+    }
+
+    /**
+     * Gets whether the entire string representation has been produced.
+     *
+     * @returns Whether the entire string representation has been produced.
+     */
+    get done(): boolean {
+        return this._stack.length === 0;
+    }
+
+    /**
+     * Produces the next part of the string representation.
+     *
+     * @param size The length above which no further parts are produced. If
+     *             left undefined, the rest of the string representation is
+     *             produced.
+     *
+     * @returns The next part of the string representation.
+     */
+    public read(size: number = Infinity): string {
+        let str = "";
+        while (str.length < size && this._stack.length > 0) {
+            const top = this._stack[this._stack.length - 1];
+            const part = top.next();
+            if (isUndefined(part)) {
+                this._stack.pop();
+                if (!isUndefined(top.indenter)) {
+                    str += this.emit(top.indenter.flush());
+                }
+                if (this._stack.length === 0) {
+                    str += this.flushOuter();
+                }
+                if (!isUndefined(top.range)) {
+                    top.range.endOffset = this._offset + str.length;
+                }
+            } else if (isString(part)) {
+                str += this.emit(part);
+            } else {
+                // The indentation of a child placed on its own line is not
+                // part of its range
+                const indented = part.indent
+                                 && this._optionsObj.newline.length > 0;
+                let offset = this._offset + str.length;
+                if (indented) {
+                    offset += this._optionsObj.indent.length;
+                }
+
+                let visited = this.visit(part);
+                if (!isUndefined(visited)) {
+                    // The string returned by the visitor already contains
+                    // the indentation of the lines following the first
+                    str += this.release(part);
+                    if (indented) {
+                        str += this.emit(this._optionsObj.indent);
+                    }
+                    this._stack.push({
+                        next: () => {
+                            const visitedPart = visited;
+                            visited = undefined;
+                            return visitedPart;
+                        },
+                        range: this.track(part.node, offset),
+                        verbatim: true
+                    });
+                    continue;
+                }
+
+                this._stack.push({
+                    indenter: part.indent
+                              ? new Indenter(this._optionsObj.indent,
+                                             this._optionsObj.newline)
+                              : undefined,
+                    next: part.node.toStringParts(this._options, part.scope,
+                                                  part.spacePreserved,
+                                                  part.depth),
+                    range: this.track(part.node, offset),
+                    verbatim: part.verbatim
+                });
+            }
+        }
+        this._offset += str.length;
+        return str;
+    }
+
+    /**
+     * Applies the indentation of each node on the stack, from the innermost
+     * to the outermost, to the specified part of the string representation.
+     * The indentation of nodes outside a child written verbatim is not
+     * applied.
+     *
+     * @param part The specified part of the string representation.
+     *
+     * @returns The indented part of the string representation.
+     */
+    private emit(part: string): string {
+        for (let i = this._stack.length - 1; i >= 0; i--) {
+            const indenter = this._stack[i].indenter;
+            if (!isUndefined(indenter)) {
+                part = indenter.write(part);
+            }
+            if (this._stack[i].verbatim) {
+                return part;
+            }
+        }
+        for (const indenter of this._outer) {
+            part = indenter.write(part);
+        }
+        return part;
+    }
+
+    /**
+     * Applies the indentation of the lines following the first to the
+     * specified part of the string representation, along with any text it
+     * retained.
+     *
+     * @param part The specified part of the string representation.
+     *
+     * @returns The indented part of the string representation.
+     */
+    private flushOuter(part: string = ""): string {
+        for (const indenter of this._outer) {
+            part = indenter.write(part) + indenter.flush();
+        }
+        return part;
+    }
+
+    /**
+     * Returns the number of levels of indentation that would be applied to
+     * the lines of the specified child of the node at the top of the stack.
+     *
+     * @param part The child.
+     *
+     * @returns The number of levels of indentation.
+     */
+    private levels(part: IChildPart): number {
+        let levels = part.indent ? 1 : 0;
+        if (part.verbatim) {
+            return levels;
+        }
+        for (let i = this._stack.length - 1; i >= 0; i--) {
+            if (!isUndefined(this._stack[i].indenter)) {
+                levels++;
+            }
+            if (this._stack[i].verbatim) {
+                return levels;
+            }
+        }
+        return levels + this._outer.length;
+    }
+
+    /**
+     * Returns the text retained by the indentation that would be applied to
+     * the specified child of the node at the top of the stack, so that it can
+     * be written before a string that is not indented.
+     *
+     * @param part The child.
+     *
+     * @returns The retained text.
+     */
+    private release(part: IChildPart): string {
+        let released = "";
+        if (part.verbatim) {
+            return released;
+        }
+        for (let i = this._stack.length - 1; i >= 0; i--) {
+            const indenter = this._stack[i].indenter;
+            if (!isUndefined(indenter)) {
+                released = indenter.write(released) + indenter.flush();
+            }
+            if (this._stack[i].verbatim) {
+                return released;
+            }
+        }
+        return this.flushOuter(released);
+    }
+
+    /**
+     * Records the beginning of the range of the string representation
+     * produced by the specified node, if ranges are being recorded.
+     *
+     * @param node The node.
+     * @param offset The offset at which the range begins.
+     *
+     * @returns The range, or undefined if ranges are not being recorded.
+     */
+    private track(node: XmlNode, offset: number): IMappedRange | undefined {
+        if (isUndefined(this._ranges)) {
+            return undefined;
+        }
+        const range = {endOffset: offset, node, offset};
+        this._ranges.push(range);
+        return range;
+    }
+
+    /**
+     * Returns the string representation of the specified child produced by
+     * the visitor specified by the `visitor` formatting option.
+     *
+     * @param part The child.
+     *
+     * @returns The string representation, or undefined if the visitor does
+     *          not handle the type of the child.
+     */
+    private visit(part: IChildPart): string | undefined {
+        const levels = this.levels(part);
+        let indent = "";
+        for (let i = 0; i < levels; i++) {
+            indent += this._optionsObj.indent;
+        }
+        return visitNode(part.node, this._optionsObj, indent, () => {
+            return new Serializer(part.node, this._options, undefined,
+                                  levels, part.scope, part.spacePreserved,
+                                  part.depth)
+                .read();
+        });
+    }
+}
+
+/**
+ * Returns the portion of a start tag or empty-element tag following the
+ * element name, laid out as specified by the `attributeLayout` formatting
+ * option. Attributes are only placed on their own lines when pretty-printing
+ * with a non-empty newline string.
+ *
+ * @param name The name of the element.
+ * @param attributes The string representations of the attributes.
+ * @param end The closing delimiter of the tag, such as ">" or "/>".
+ * @param options Formatting options for the string representation.
+ * @param depth The number of elements enclosing the element in the string
+ *              representation, each of which adds one indent string to the
+ *              indentation preceding the tag.
+ *
+ * @returns The attributes and closing delimiter of the tag.
+ *
+ * @private
+ */
+export function formatAttributes(name: string, attributes: string[],
+                                 end: string, options: StringOptions,
+                                 depth: number = 0): string
+{
+    let str = "";
+    for (const attribute of attributes) {
+        str += " " + attribute;
+    }
+
+    const layout = options.attributeLayout;
+    const wrap = (!isUndefined(layout.maxAttributes)
+                  && attributes.length > layout.maxAttributes)
+                 || (!isUndefined(layout.maxWidth)
+                     && depth * options.indent.length + name.length
+                        + str.length + end.length + 1 > layout.maxWidth);
+    if (!options.pretty || options.newline.length === 0 || !wrap) {
+        return str + end;
+    }
+
+    str = "";
+    if (layout.continuation === "align") {
+        const prefix = new Array(name.length + 3).join(" ");
+        for (let i = 0; i < attributes.length; i++) {
+            str += (i === 0 ? " " : options.newline + prefix) + attributes[i];
+        }
+    } else {
+        for (const attribute of attributes) {
+            str += options.newline + options.indent + attribute;
+        }
+    }
+    return str + (layout.bracketOnNewLine ? options.newline : "") + end;
+}
+
+/**
+ * Returns the closing delimiter of the empty-element tag of an element
+ * without children other than attributes, as specified by the
+ * `emptyElements` formatting option, or undefined if the element should
+ * instead be written as a start tag immediately followed by an end tag.
+ *
+ * @param name The name of the element.
+ * @param options Formatting options for the string representation.
+ *
+ * @returns The closing delimiter of the empty-element tag, or undefined.
+ *
+ * @private
+ */
+export function getEmptyTagEnd(name: string,
+                               options: StringOptions): string | undefined
+{
+    const empty = options.emptyElements;
+    const override = isArray(empty.overrides)
+                     ? empty.overrides.indexOf(name) !== -1
+                     : empty.overrides(name) === true;
+    if ((empty.policy === "selfClose") === override) {
+        return undefined;
+    }
+    return empty.spaceBeforeSlash ? " />" : "/>";
+}
+
+/**
+ * Returns the quotation mark enclosing an attribute value. When minifying
+ * with the `quotes` option enabled, this is whichever quotation mark occurs
+ * less often in the value, so that the fewest character references are
+ * needed; otherwise, it is specified by the `doubleQuotes` formatting option.
+ *
+ * @param value The attribute value, before escaping.
+ * @param options Formatting options for the string representation.
+ *
+ * @returns The quotation mark.
+ *
+ * @private
+ */
+export function getQuote(value: string, options: StringOptions): string {
+    const quote = options.doubleQuotes ? "\"" : "'";
+    if (isUndefined(options.minify) || !options.minify.quotes) {
+        return quote;
+    }
+    const doubles = value.split("\"").length;
+    const singles = value.split("'").length;
+    if (doubles === singles) {
+        return quote;
+    }
+    return doubles < singles ? "\"" : "'";
+}
+
+/**
+ * Returns true if elements with the specified name are laid out like text, as
+ * specified by the `inlineElements` formatting option.
+ *
+ * @param name The name of the element.
+ * @param options Formatting options for the string representation.
+ *
+ * @returns Whether elements with the specified name are laid out like text.
+ *
+ * @private
+ */
+export function isInlineElement(name: string,
+                                options: StringOptions): boolean
+{
+    const inline = options.inlineElements;
+    return isArray(inline) ? inline.indexOf(name) !== -1
+                           : inline(name) === true;
+}
+
+/**
+ * Returns true if the specified XML declaration is omitted when minifying
+ * because it specifies only version 1.0.
+ *
+ * @param decl The XML declaration.
+ * @param options Formatting options for the string representation.
+ *
+ * @returns Whether the XML declaration is omitted.
+ *
+ * @private
+ */
+export function isOmittedDecl(decl: XmlDecl, options: StringOptions): boolean {
+    return !isUndefined(options.minify) && options.minify.declaration
+           && decl.version === "1.0" && isUndefined(decl.encoding)
+           && isUndefined(decl.standalone);
+}
+
+/**
+ * Returns true if processing instructions with the specified target are
+ * omitted when minifying, as specified by the `procInsts` option.
+ *
+ * @param target The target of the processing instruction.
+ * @param options Formatting options for the string representation.
+ *
+ * @returns Whether the processing instruction is omitted.
+ *
+ * @private
+ */
+export function isOmittedProcInst(target: string,
+                                  options: StringOptions): boolean
+{
+    if (isUndefined(options.minify)) {
+        return false;
+    }
+    const procInsts = options.minify.procInsts;
+    return isArray(procInsts) ? procInsts.indexOf(target) !== -1
+                              : procInsts(target) === true;
+}
+
+/**
+ * Returns true if the specified text is omitted when minifying because it
+ * contains only whitespace.
+ *
+ * @param text The text.
+ * @param preserved Whether whitespace is significant in the element
+ *                  containing the text.
+ * @param options Formatting options for the string representation.
+ *
+ * @returns Whether the text is omitted.
+ *
+ * @private
+ */
+export function isOmittedText(text: string, preserved: boolean,
+                              options: StringOptions): boolean
+{
+    return !isUndefined(options.minify) && options.minify.whitespace
+           && !preserved && !/[^ \t\r\n]/.test(text);
+}
+
+/**
+ * Returns a copy of the specified attributes sorted in the specified order.
+ * The sort is stable, so attributes considered equal keep their relative
+ * order.
+ *
+ * @param attributes The attributes.
+ * @param order The order in which the attributes should be sorted.
+ *
+ * @returns The sorted attributes.
+ *
+ * @private
+ */
+export function sortAttributes(attributes: XmlAttribute[],
+                               order: AttributeOrder): XmlAttribute[]
+{
+    if (order === "insertion") {
+        return attributes.slice();
+    }
+
+    let compare: (a: XmlAttribute, b: XmlAttribute) => number;
+    if (order === "alphabetical") {
+        compare = (a, b) => compareNames(a.name, b.name);
+    } else if (order === "namespace-declarations-first") {
+        const rank = (name: string) => {
+            if (name === "xmlns") {
+                return 0;
+            }
+            return name.indexOf("xmlns:") === 0 ? 1 : 2;
+        };
+        compare = (a, b) => rank(a.name) - rank(b.name)
+                            || compareNames(a.name, b.name);
+    } else {
+        compare = order;
+    }
+
+    return attributes.map((attribute, index) => ({attribute, index}))
+                     .sort((a, b) => compare(a.attribute, b.attribute)
+                                     || a.index - b.index)
+                     .map(entry => entry.attribute);
+}
+
+/**
+ * Compares the specified names by their UTF-16 code units.
+ *
+ * @param a The first name.
+ * @param b The second name.
+ *
+ * @returns A negative number if the first name comes first, a positive
+ *          number if the second name comes first, or zero if they are equal.
+ *
+ * @private
+ */
+function compareNames(a: string, b: string): number {
+    if (a < b) {
+        return -1;
+    }
+    return a > b ? 1 : 0;
+}
+
+/**
+ * Returns the string representation of the specified node produced by the
+ * corresponding method of the visitor specified by the `visitor` formatting
+ * option.
+ *
+ * @param node The node.
+ * @param options Formatting options for the string representation.
+ * @param indent The indentation of the line on which the node is written.
+ * @param defaultSerialize A function that returns the string representation
+ *                         of the node without the visitor method.
+ *
+ * @returns The string representation, or undefined if the visitor does not
+ *          handle the type of the node.
+ *
+ * @private
+ */
+export function visitNode(node: XmlNode, options: StringOptions,
+                          indent: string,
+                          defaultSerialize: () => string): string | undefined
+{
+    const visitor = options.visitor;
+    if (isUndefined(visitor)) {
+        return undefined;
+    }
+    const method = node.visitorMethod(visitor);
+    if (isUndefined(method)) {
+        return undefined;
+    }
+    const str = method.call(visitor, node, indent, defaultSerialize);
+    if (!isString(str)) {
+        throw new TypeError("visitor methods should return strings");
+    }
+    return str;
+}
+
+/**
+ * Writes the string representation of the specified node to the specified
+ * destination in chunks, waiting for the destination to drain whenever it
+ * requests it.
+ *
+ * If no callback is specified, an exception thrown before the first wait for
+ * the destination to drain is thrown by this function. Later exceptions, and
+ * errors or closing of the destination while waiting for it, are not reported
+ * except through the destination.
+ *
+ * @param node The node to serialize.
+ * @param writable The destination.
+ * @param options Formatting options for the string representation.
+ * @param callback A function called once the entire string representation
+ *                 has been written and the destination has been ended, or
+ *                 with the exception if one is thrown while producing the
+ *                 string representation, after the destination has been
+ *                 destroyed or ended. It is also called with an exception if
+ *                 the destination emits the "error" or "close" event while
+ *                 waiting for it to drain.
+ *
+ * @private
+ */
+export function pipe(node: XmlNode, writable: IWritable,
+                     options: IStringOptions = {},
+                     callback?: (err?: Error) => void): void
+{
+    const serializer = new Serializer(node, options);
+    const finish = (err: Error | undefined, sync: boolean) => {
+        if (!isUndefined(callback)) {
+            callback(err);
+        } else if (!isUndefined(err) && sync) {
+            throw err;
+        }
+    };
+    const wait = () => {
+        let waiting = true;
+        const listeners: {[event: string]: (err?: Error) => void} = {
+            close: () => {
+                if (stop()) {
+                    finish(new Error("destination was closed before the"
+                                     + " string representation was"
+                                     + " written"), false);
+                }
+            },
+            drain: () => {
+                if (stop()) {
+                    flow(false);
+                }
+            },
+            error: (err?: Error) => {
+                if (stop()) {
+                    finish(isUndefined(err)
+                           ? new Error("destination emitted an error") : err,
+                           false);
+                }
+            }
+        };
+        const stop = () => {
+            if (!waiting) {
+                return false;
+            }
+            waiting = false;
+            for (const event of Object.keys(listeners)) {
+                if (!isUndefined(writable.removeListener)) {
+                    writable.removeListener(event, listeners[event]);
+                }
+            }
+            return true;
+        };
+        for (const event of Object.keys(listeners)) {
+            writable.once(event, listeners[event]);
+        }
+    };
+    const flow = (sync: boolean) => {
+        try {
+            while (!serializer.done) {
+                const chunk = serializer.read(chunkSize);
+                if (chunk.length > 0 && !writable.write(chunk)) {
+                    wait();
+                    return;
+                }
+            }
+            writable.end();
+        } catch (e) {
+            try {
+                if (isUndefined(writable.destroy)) {
+                    writable.end();
+                } else {
+                    writable.destroy(e);
+                }
+            } catch (ignored) {
+                // The original exception is reported instead
+            }
+            finish(e, sync);
+            return;
+        }
+        finish(undefined, sync);
+    };
+    flow(true);
+}
@@ -0,0 +1,154 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import XmlNode from "./nodes/XmlNode";
+import {IStringOptions} from "./options";
+import {Serializer} from "./serialize";
+import {isInteger} from "./utils";
+
+/**
+ * The string representation of a node together with a map from positions in
+ * the string to the nodes that produced them. This object is returned by the
+ * `serializeWithMap` function.
+ */
+export interface IMappedString {
+    /**
+     * The map from positions in the string representation to nodes.
+     */
+    map: XmlSourceMap;
+    /**
+     * The string representation of the node.
+     */
+    xml: string;
+}
+
+/**
+ * The range of the string representation produced by a node.
+ *
+ * @private
+ */
+export interface IMappedRange {
+    /**
+     * The offset, in UTF-16 code units, immediately following the end of the
+     * range.
+     */
+    endOffset: number;
+    /**
+     * The node that produced the range.
+     */
+    node: XmlNode;
+    /**
+     * The offset, in UTF-16 code units, at which the range begins.
+     */
+    offset: number;
+}
+
+/**
+ * Maps positions in the string representation of a node to the nodes that
+ * produced them, so that a problem reported at a particular line and column
+ * of the output can be traced back to the node responsible for it.
+ *
+ * Each position is mapped to the innermost node whose string representation
+ * contains it. Attributes are part of the string representation of their
+ * element, so positions within them are mapped to the element. The
+ * indentation preceding a node placed on its own line is mapped to its
+ * parent.
+ */
+export default class XmlSourceMap {
+    private _lineStarts: number[];
+    private _length: number;
+    private _ranges: IMappedRange[];
+
+    /**
+     * Initializes a new instance of the {@link XmlSourceMap} class.
+     *
+     * @param xml The string representation of the node.
+     * @param ranges The ranges produced by each node, ordered so that each
+     *               range precedes the ranges nested within it.
+     *
+     * @private
+     */
+    constructor(xml: string, ranges: IMappedRange[]) {
+        this._length = xml.length;
+        this._ranges = ranges;
+
+        this._lineStarts = [0];
+        for (let i = 0; i < xml.length; i++) {
+            const char = xml.charAt(i);
+            if (char === "\n" || (char === "\r" && xml.charAt(i + 1) !== "\n"))
+            {
+                this._lineStarts.push(i + 1);
+            }
+        }
+    }
+
+    /**
+     * Returns the node that produced the character at the specified line and
+     * column of the string representation. Line feeds, carriage returns and
+     * carriage return and line feed pairs each end a line.
+     *
+     * @param line The line, starting at 1.
+     * @param column The column, starting at 1, in UTF-16 code units.
+     *
+     * @returns The innermost node that produced the character, or undefined
+     *          if there is no character at the specified line and column.
+     */
+    public nodeAt(line: number, column: number): XmlNode | undefined {
+        if (!isInteger(line) || line < 1 || !isInteger(column) || column < 1) {
+            throw new RangeError("line and column should be positive"
+                                 + " integers");
+        }
+        if (line > this._lineStarts.length) {
+            return undefined;
+        }
+
+        const offset = this._lineStarts[line - 1] + column - 1;
+        const end = line < this._lineStarts.length ? this._lineStarts[line]
+                                                   : this._length;
+        if (offset >= end) {
+            return undefined;
+        }
+
+        // Nested ranges follow the ranges containing them, so the last range
+        // containing the offset is the innermost one
+        for (let i = this._ranges.length - 1; i >= 0; i--) {
+            const range = this._ranges[i];
+            if (range.offset <= offset && offset < range.endOffset) {
+                return range.node;
+            }
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Returns the string representation of the specified node together with a
+ * map from positions in the string to the nodes that produced them.
+ *
+ * @param node The node to serialize.
+ * @param options Formatting options for the string representation.
+ *
+ * @returns The string representation and the map.
+ *
+ * @private
+ */
+export function toMappedString(node: XmlNode,
+                               options: IStringOptions = {}): IMappedString
+{
+    const ranges: IMappedRange[] = [];
+    const xml = new Serializer(node, options, ranges).read();
+    return {map: new XmlSourceMap(xml, ranges), xml};
+}
@@ -56,6 +56,13 @@ export function isArray(val: any): val is any[] {
     return Object.prototype.toString.call(val) === "[object Array]";
 }
 
+/**
+ * @private
+ */
+export function isFunction(val: any): val is Function {
+    return Object.prototype.toString.call(val) === "[object Function]";
+}
+
 /**
  * @private
  */
@@ -89,3 +96,26 @@ export function getCodePoint(str: string, index: number): number {
     }
     return first;
 }
+
+/**
+ * Returns a string containing the character corresponding to the specified
+ * Unicode code point. Code points outside of the Basic Multilingual Plane are
+ * represented using a surrogate pair.
+ *
+ * @param codePoint The specified Unicode code point.
+ *
+ * @returns A string containing the corresponding character.
+ *
+ * @private
+ */
+export function fromCodePoint(codePoint: number): string {
+    if (!isInteger(codePoint) || codePoint < 0 || codePoint > 0x10FFFF) {
+        throw new RangeError("invalid code point");
+    }
+    if (codePoint <= 0xFFFF) {
+        return String.fromCharCode(codePoint);
+    }
+    codePoint -= 0x10000;
+    return String.fromCharCode(0xD800 + Math.floor(codePoint / 0x400),
+                               0xDC00 + codePoint % 0x400);
+}
@@ -18,15 +18,24 @@
  * Verifies that the specified string only contains characters permitted by the
  * XML specification.
  *
+ * XML 1.1 permits the control characters other than the null character, but
+ * the restricted characters among them may only appear as character
+ * references. They are therefore only permitted in strings that are escaped
+ * when serialized, such as text and attribute values.
+ *
  * @param str The string to validate.
+ * @param version The version of XML whose rules apply to the string.
+ * @param escaped Whether the string is escaped when serialized.
  *
  * @returns Whether the specified string only contains characters permitted by
  *          the XML specification.
  *
  * @private
  */
-export function validateChar(str: string): boolean {
-    let charRegex = "\\u0009|\\u000A|\\u000D|[\\u0020-\\uD7FF]";
+export function validateChar(str: string, version: string = "1.0",
+                             escaped: boolean = false): boolean
+{
+    let charRegex = getCharRegex(version, escaped);
     let surrogateCharRegex = "[\\uD800-\\uDBFF][\\uDC00-\\uDFFF]";
 
     if (str.length > 1024) {
@@ -39,18 +48,22 @@ export function validateChar(str: string): boolean {
 
 /**
  * Verifies that the specified string only contains a single character, and
- * that this character is permitted by the XML specification.
+ * that this character is permitted by the XML specification, either literally
+ * or as a character reference.
  *
  * @param str The string to validate.
+ * @param version The version of XML whose rules apply to the character.
  *
  * @returns Whether the specified string only contains a single character, and
  *          that this character is permitted by the XML specification.
  *
  * @private
  */
-export function validateSingleChar(str: string): boolean {
+export function validateSingleChar(str: string,
+                                   version: string = "1.0"): boolean
+{
     if (str.length === 1) {
-        return new RegExp("^\\u0009|\\u000A|\\u000D|[\\u0020-\\uD7FF]$")
+        return new RegExp("^(" + getCharRegex(version, true) + ")$")
             .test(str);
     } else if (str.length === 2) {
         return new RegExp("^[\\uD800-\\uDBFF][\\uDC00-\\uDFFF]$").test(str);
@@ -59,10 +72,36 @@ export function validateSingleChar(str: string): boolean {
     }
 }
 
+/**
+ * Returns a regular expression that matches a single character, other than a
+ * surrogate, permitted by the specified version of XML.
+ *
+ * @param version The version of XML. Versions other than 1.1 are treated as
+ *                XML 1.0.
+ * @param escaped Whether the restricted characters of XML 1.1, which may only
+ *                appear as character references, are matched.
+ *
+ * @returns The regular expression.
+ *
+ * @private
+ */
+function getCharRegex(version: string, escaped: boolean): string {
+    if (version !== "1.1") {
+        return "\\u0009|\\u000A|\\u000D|[\\u0020-\\uD7FF]";
+    } else if (escaped) {
+        return "[\\u0001-\\uD7FF]";
+    }
+    return "\\u0009|\\u000A|\\u000D|[\\u0020-\\u007E]|\\u0085"
+           + "|[\\u00A0-\\uD7FF]";
+}
+
 /**
  * Verifies that the specified string only contains characters permitted by the
  * XML specification for names.
  *
+ * The name rules of the fifth edition of XML 1.0 are the same as those of
+ * XML 1.1, so this function applies to documents of either version.
+ *
  * @param str The string to validate.
  *
  * @returns Whether the specified string only contains characters permitted by
@@ -108,3 +147,18 @@ export function validateName(str: string): boolean {
 
     return false;
 }
+
+/**
+ * Verifies that the specified string only contains whitespace characters as
+ * defined by the XML specification.
+ *
+ * @param str The string to validate.
+ *
+ * @returns Whether the specified string only contains whitespace characters
+ *          as defined by the XML specification.
+ *
+ * @private
+ */
+export function validateWhitespace(str: string): boolean {
+    return /^[ \t\r\n]*$/.test(str);
+}
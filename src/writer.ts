@@ -0,0 +1,793 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    escapeCharData,
+    escapeDoubleQuotes,
+    escapeSingleQuotes
+} from "./escape";
+import XmlAttribute from "./nodes/XmlAttribute";
+import XmlCdata from "./nodes/XmlCdata";
+import XmlComment from "./nodes/XmlComment";
+import XmlDecl from "./nodes/XmlDecl";
+import XmlDtd from "./nodes/XmlDtd";
+import {createWithVersion} from "./nodes/XmlNode";
+import XmlProcInst from "./nodes/XmlProcInst";
+import XmlText from "./nodes/XmlText";
+import {IDeclarationOptions, IStringOptions, StringOptions} from "./options";
+import {
+    Indenter,
+    chunkSize,
+    formatAttributes,
+    getEmptyTagEnd,
+    getQuote,
+    isInlineElement,
+    isOmittedDecl,
+    isOmittedText,
+    sortAttributes
+} from "./serialize";
+import {isString, isUndefined} from "./utils";
+import {validateChar, validateName} from "./validate";
+
+/**
+ * A destination for the output of {@link XmlWriter}, such as a Node.js
+ * `Writable` stream.
+ */
+export interface IWriterSink {
+    /**
+     * Signals that no more chunks will be written. This method is called by
+     * {@link XmlWriter#endDocument} if it is defined.
+     */
+    end?(): any;
+    /**
+     * Writes the specified chunk.
+     *
+     * @param chunk The chunk to write.
+     */
+    write(chunk: string): any;
+}
+
+/**
+ * A child held back until it is known whether the children of its parent are
+ * placed on their own lines.
+ *
+ * @private
+ */
+interface IHeldChild {
+    /**
+     * Whether the child is text or an inline element, which is not placed on
+     * its own line if it is adjacent to other such children.
+     */
+    inline: boolean;
+    /**
+     * The string representation of the child written so far.
+     */
+    parts: IHeldPart[];
+}
+
+/**
+ * A part of the string representation of a held child.
+ *
+ * @private
+ */
+interface IHeldPart {
+    /**
+     * The output.
+     */
+    str: string;
+    /**
+     * Whether the output is part of content in which whitespace is
+     * significant, so that no indentation is applied to it when the child is
+     * written.
+     */
+    verbatim: boolean;
+}
+
+/**
+ * The state of an element whose end tag has not yet been written.
+ *
+ * @private
+ */
+interface IFrame {
+    /**
+     * The names of the attributes written so far.
+     */
+    attributes: string[];
+    /**
+     * The number of right square brackets (]) at the end of the output of
+     * the last child written, if it was text.
+     */
+    brackets: number;
+    /**
+     * The held child of the parent to which the output of the element is
+     * added, if the element is held back.
+     */
+    captured?: IHeldChild;
+    /**
+     * The attributes written so far, if they are held back until the start
+     * tag is closed so that they can be sorted or placed on their own lines.
+     */
+    held?: XmlAttribute[];
+    /**
+     * The indenter applied to the element, if it was placed on its own line.
+     */
+    indenter?: Indenter;
+    /**
+     * Whether the children of the element are placed on their own lines, or
+     * undefined if this is not yet known.
+     */
+    lineBreaks?: boolean;
+    /**
+     * The name of the element.
+     */
+    name: string;
+    /**
+     * Whether the start tag of the element is still open for attributes.
+     */
+    open: boolean;
+    /**
+     * The children held back until it is known whether the children of the
+     * element are placed on their own lines.
+     */
+    pending: IHeldChild[];
+    /**
+     * Whether whitespace is significant in the content of the element, so
+     * that its content is written verbatim.
+     */
+    preserve: boolean;
+    /**
+     * Whether the last child written was text or an inline element.
+     */
+    previousInline: boolean;
+    /**
+     * Whether the tags of the element are written verbatim because
+     * whitespace is significant in the content of its parent.
+     */
+    verbatim: boolean;
+}
+
+/**
+ * Writes an XML document incrementally without building a tree of
+ * {@link XmlNode} objects, which makes it suitable for generating very large
+ * documents.
+ *
+ * Each method writes the next construct of the document and returns the
+ * writer, so calls can be chained. The same checks are performed as when
+ * building the equivalent tree, and an exception is thrown if a method is
+ * called when the corresponding construct is not allowed, such as an
+ * attribute after the content of an element or an end tag that does not
+ * match the current element.
+ *
+ * The output is identical to the string representation of the equivalent
+ * {@link XmlDocument} generated with the same formatting options. To achieve
+ * this when pretty-printing, text and inline elements written directly inside
+ * an element are held back until it is known whether the element contains
+ * other kinds of children. When the `mixedContent` formatting option is
+ * enabled, all children of an element are held back until text other than
+ * whitespace is written inside it or it is ended.
+ *
+ * If a sink is specified, the output is written to it in chunks; otherwise,
+ * it is accumulated and can be retrieved using {@link XmlWriter#toString}.
+ */
+export default class XmlWriter {
+    private _buffer: string;
+    private _docChildren: number;
+    private _doctype: boolean;
+    private _ended: boolean;
+    private _options: IStringOptions;
+    private _optionsObj: StringOptions;
+    private _root: boolean;
+    private _sink?: IWriterSink;
+    private _stack: IFrame[];
+    private _version: string;
+
+    /**
+     * Initializes a new instance of the {@link XmlWriter} class.
+     *
+     * @param options Formatting options for the output.
+     * @param sink The destination for the output. If left undefined, the
+     *             output is accumulated and can be retrieved using
+     *             {@link XmlWriter#toString}.
+     */
+    constructor(options: IStringOptions = {}, sink?: IWriterSink) {
+        this._optionsObj = new StringOptions(options);
+        this._options = options;
+        if (!isUndefined(this._optionsObj.visitor)) {
+            throw new Error("options.visitor is not supported by XmlWriter");
+        }
+        if (!isUndefined(sink) && (sink === null || typeof sink !== "object"
+                                   || typeof sink.write !== "function"))
+        {
+            throw new TypeError("sink should be an Object with a write"
+                                + " method or undefined");
+        }
+        this._sink = sink;
+
+        this._buffer = "";
+        this._docChildren = 0;
+        this._doctype = false;
+        this._ended = false;
+        this._root = false;
+        this._stack = [];
+        this._version = "1.0";
+    }
+
+    /**
+     * Writes an attribute of the element whose start tag was just written.
+     *
+     * @param name The name of the attribute.
+     * @param value The value of the attribute.
+     *
+     * @returns This writer.
+     */
+    public attribute(name: string, value: string): XmlWriter {
+        this.checkEnded();
+        if (!isString(name)) {
+            throw new TypeError("name should be a string");
+        } else if (!validateName(name)) {
+            throw new Error("name should not contain characters not"
+                            + " allowed in XML names");
+        }
+        if (!isString(value)) {
+            throw new TypeError("value should be a string");
+        } else if (!validateChar(value, this._version, true)) {
+            throw new Error("value should not contain characters not allowed"
+                            + " in XML");
+        }
+
+        const frame = this.top();
+        if (isUndefined(frame) || !frame.open) {
+            throw new Error("attributes should be written immediately after"
+                            + " the start tag of an element");
+        }
+        if (frame.attributes.indexOf(name) !== -1) {
+            throw new Error("element already contains an attribute with name "
+                            + name);
+        }
+        frame.attributes.push(name);
+
+        if (isUndefined(frame.held)) {
+            let str = escapeCharData(value, this._optionsObj.escaping, true,
+                                     this._version);
+            if (getQuote(value, this._optionsObj) === "\"") {
+                str = "\"" + escapeDoubleQuotes(str) + "\"";
+            } else {
+                str = "'" + escapeSingleQuotes(str) + "'";
+            }
+            this.emit(" " + name + "=" + str, frame.verbatim);
+        } else {
+            frame.held.push(new XmlAttribute(name, new XmlText(value)));
+        }
+
+        if (name === "xml:space" && (value === "preserve"
+                                     || value === "default")
+            && this._optionsObj.whitespaceSensitive.indexOf(frame.name) === -1)
+        {
+            frame.preserve = value === "preserve";
+            frame.lineBreaks = this._optionsObj.pretty && !frame.preserve
+                               ? undefined : false;
+        }
+        return this;
+    }
+
+    /**
+     * Writes a CDATA section.
+     *
+     * @param data The character data of the CDATA section.
+     *
+     * @returns This writer.
+     */
+    public cdata(data: string): XmlWriter {
+        this.checkEnded();
+        const node = createWithVersion(this._version,
+                                       () => new XmlCdata(data));
+        if (this._stack.length === 0) {
+            throw new Error("CDATA sections should be written inside the root"
+                            + " element");
+        }
+        this.child(node.toString(this._options), false);
+        return this;
+    }
+
+    /**
+     * Writes a comment.
+     *
+     * @param content The text of the comment.
+     *
+     * @returns This writer.
+     */
+    public comment(content: string): XmlWriter {
+        this.checkEnded();
+        const node = createWithVersion(this._version,
+                                       () => new XmlComment(content));
+        if (!node.isOmitted(false, this._optionsObj)) {
+            this.child(node.toString(this._options), false);
+        }
+        return this;
+    }
+
+    /**
+     * Writes a document type declaration without an internal subset. The
+     * document type declaration must precede the root element.
+     *
+     * @param name The name of the DTD.
+     * @param sysId The system identifier of the DTD, excluding quotation
+     *              marks.
+     * @param pubId The public identifier of the DTD, excluding quotation marks.
+     *              If a public identifier is provided, a system identifier
+     *              must be provided as well.
+     *
+     * @returns This writer.
+     */
+    public doctype(name: string, sysId?: string, pubId?: string): XmlWriter {
+        this.checkEnded();
+        const str = new XmlDtd(name, sysId, pubId).toString(this._options);
+        if (this._doctype || this._root) {
+            throw new Error("the document type declaration should be written"
+                            + " once, before the root element");
+        }
+        this._doctype = true;
+        this.child(str, false);
+        return this;
+    }
+
+    /**
+     * Writes the end tags of any elements that remain open and flushes the
+     * output. If a sink was specified and it has an `end` method, it is
+     * called. No other methods may be called afterwards.
+     *
+     * @returns This writer.
+     */
+    public endDocument(): XmlWriter {
+        this.checkEnded();
+        if (!this._root) {
+            throw new Error("document should contain a root element");
+        }
+        while (this._stack.length > 0) {
+            this.endElement();
+        }
+        this._ended = true;
+        this.flush();
+        if (!isUndefined(this._sink) && !isUndefined(this._sink.end)) {
+            this._sink.end();
+        }
+        return this;
+    }
+
+    /**
+     * Writes the end tag of the current element. If the element has no
+     * children, an empty-element tag is written instead.
+     *
+     * @param name The name of the element. If specified, an exception is
+     *             thrown if it does not match the name of the current
+     *             element.
+     *
+     * @returns This writer.
+     */
+    public endElement(name?: string): XmlWriter {
+        this.checkEnded();
+        const frame = this.top();
+        if (isUndefined(frame)) {
+            throw new Error("there is no element to end");
+        } else if (!isUndefined(name) && name !== frame.name) {
+            throw new Error("end tag for element " + name + " does not match"
+                            + " start tag for element " + frame.name);
+        }
+
+        const emptyTagEnd = getEmptyTagEnd(frame.name, this._optionsObj);
+        if (frame.open && !isUndefined(emptyTagEnd)) {
+            this.closeStartTag(frame, emptyTagEnd);
+        } else if (frame.open) {
+            this.closeStartTag(frame);
+            this.emit("</" + frame.name + ">", frame.verbatim);
+        } else {
+            if (isUndefined(frame.lineBreaks)) {
+                this.resolve(frame, frame.pending.some(held => !held.inline));
+            }
+            if (frame.lineBreaks) {
+                this.emit(this._optionsObj.newline);
+            }
+            this.emit("</" + frame.name + ">", frame.verbatim);
+        }
+
+        this._stack.pop();
+        if (!isUndefined(frame.indenter)) {
+            this.emit(frame.indenter.flush());
+        }
+        return this;
+    }
+
+    /**
+     * Writes the output accumulated so far to the sink. This method has no
+     * effect if no sink was specified.
+     *
+     * Output that depends on constructs not yet written, such as text held
+     * back while pretty-printing, is not included.
+     *
+     * @returns This writer.
+     */
+    public flush(): XmlWriter {
+        if (!isUndefined(this._sink) && this._buffer.length > 0) {
+            const chunk = this._buffer;
+            this._buffer = "";
+            this._sink.write(chunk);
+        }
+        return this;
+    }
+
+    /**
+     * Writes a processing instruction.
+     *
+     * @param target The target of the processing instruction.
+     * @param content The data of the processing instruction, or undefined if
+     *                there is no target.
+     *
+     * @returns This writer.
+     */
+    public procInst(target: string, content?: string): XmlWriter {
+        this.checkEnded();
+        const node = createWithVersion(this._version,
+                                       () => new XmlProcInst(target, content));
+        if (!node.isOmitted(false, this._optionsObj)) {
+            this.child(node.toString(this._options), false);
+        }
+        return this;
+    }
+
+    /**
+     * Writes an XML declaration. If this method is called, it must be called
+     * before any other method.
+     *
+     * @param options The options associated with the XML declaration.
+     *
+     * @returns This writer.
+     */
+    public startDocument(options: IDeclarationOptions = {}): XmlWriter {
+        this.checkEnded();
+        const decl = new XmlDecl(options);
+        if (this._docChildren !== 0 || this._stack.length !== 0) {
+            throw new Error("the XML declaration should be written before"
+                            + " anything else");
+        }
+        this._version = decl.version;
+        if (!isOmittedDecl(decl, this._optionsObj)) {
+            this.child(decl.toString(this._options), false);
+        }
+        return this;
+    }
+
+    /**
+     * Writes the start tag of an element. Attributes may be written until any
+     * other construct is written.
+     *
+     * @param name The name of the element.
+     *
+     * @returns This writer.
+     */
+    public startElement(name: string): XmlWriter {
+        this.checkEnded();
+        if (!isString(name)) {
+            throw new TypeError("name should be a string");
+        } else if (!validateName(name)) {
+            throw new Error("name should not contain characters not"
+                            + " allowed in XML names");
+        }
+        if (this._stack.length === 0) {
+            if (this._root) {
+                throw new Error("document should contain only one root"
+                                + " element");
+            }
+            this._root = true;
+        }
+
+        const layout = this._optionsObj.attributeLayout;
+        const parent = this.top();
+        const verbatim = !isUndefined(parent) && parent.preserve;
+        const preserve = verbatim || this._optionsObj.whitespaceSensitive
+                                         .indexOf(name) !== -1;
+        const inline = isInlineElement(name, this._optionsObj);
+        const captured = this.hold(inline, false);
+        const indent = isUndefined(captured) && this.place(inline);
+        if (!isUndefined(parent)) {
+            parent.brackets = 0;
+        }
+        this._stack.push({
+            attributes: [],
+            brackets: 0,
+            captured,
+            held: (this._optionsObj.pretty
+                   && (!isUndefined(layout.maxAttributes)
+                       || !isUndefined(layout.maxWidth)))
+                  || this._optionsObj.attributeOrder !== "insertion"
+                  ? [] : undefined,
+            indenter: indent
+                      ? new Indenter(this._optionsObj.indent,
+                                     this._optionsObj.newline)
+                      : undefined,
+            lineBreaks: this._optionsObj.pretty && !preserve ? undefined
+                                                              : false,
+            name,
+            open: true,
+            pending: [],
+            preserve,
+            previousInline: false,
+            verbatim
+        });
+        this.emit("<" + name, verbatim);
+        return this;
+    }
+
+    /**
+     * Writes character data. Characters are escaped as specified by the
+     * `escaping` formatting option.
+     *
+     * @param text The character data.
+     *
+     * @returns This writer.
+     */
+    public text(text: string): XmlWriter {
+        this.checkEnded();
+        if (!isString(text)) {
+            throw new TypeError("text should be a string");
+        } else if (!validateChar(text, this._version, true)) {
+            throw new Error("text should not contain characters not allowed"
+                            + " in XML");
+        }
+        const frame = this.top();
+        if (isUndefined(frame)) {
+            throw new Error("text should be written inside the root element");
+        }
+        if (isOmittedText(text, frame.preserve, this._optionsObj)) {
+            return this;
+        }
+        const str = escapeCharData(text, this._optionsObj.escaping, false,
+                                   this._version, frame.brackets);
+        const brackets = frame.brackets;
+        this.child(str, true, /[^ \t\r\n]/.test(text));
+        const trailing = str.length - str.replace(/\]+$/, "").length;
+        frame.brackets = trailing === str.length ? brackets + trailing
+                                                 : trailing;
+        return this;
+    }
+
+    /**
+     * Returns the output that has not been written to the sink. If no sink
+     * was specified, this is all of the output written so far.
+     *
+     * @returns The output that has not been written to the sink.
+     */
+    public toString(): string {
+        return this._buffer;
+    }
+
+    /**
+     * Throws an exception if the document has been ended.
+     */
+    private checkEnded(): void {
+        if (this._ended) {
+            throw new Error("document has already been ended");
+        }
+    }
+
+    /**
+     * Writes the string representation of a child of the current element, or
+     * of the document if there is no current element.
+     *
+     * @param str The string representation of the child.
+     * @param inline Whether the child is text or an inline element, which is
+     *               not placed on its own line if it is adjacent to other
+     *               such children.
+     * @param text Whether the child is text other than whitespace.
+     */
+    private child(str: string, inline: boolean, text: boolean = false): void {
+        const frame = this.top();
+        if (!isUndefined(frame)) {
+            frame.brackets = 0;
+        }
+
+        const held = this.hold(inline, text);
+        if (!isUndefined(held)) {
+            held.parts.push({str, verbatim: false});
+            return;
+        }
+
+        this.writeChild([{
+            str,
+            verbatim: !isUndefined(frame) && frame.preserve
+        }], inline);
+    }
+
+    /**
+     * Ends the start tag of the specified element if it is still open,
+     * writing any attributes that were held back.
+     *
+     * @param frame The state of the element.
+     * @param end The closing delimiter of the tag, such as ">" or "/>".
+     */
+    private closeStartTag(frame: IFrame, end: string = ">"): void {
+        if (frame.open) {
+            frame.open = false;
+            if (isUndefined(frame.held)) {
+                this.emit(end, frame.verbatim);
+            } else {
+                const attributes = sortAttributes(
+                    frame.held, this._optionsObj.attributeOrder).map(
+                    attribute => attribute.toString(this._options));
+                this.emit(formatAttributes(frame.name, attributes, end,
+                                           this._optionsObj,
+                                           this._stack.length - 1),
+                          frame.verbatim);
+            }
+        }
+    }
+
+    /**
+     * Applies the indentation of each open element, from the innermost to the
+     * outermost, to the specified output and adds it to the buffer, or to
+     * the held child of the innermost element that is held back. The
+     * indentation of elements outside an element whose tags are written
+     * verbatim is not applied.
+     *
+     * @param str The output.
+     * @param verbatim Whether the output is part of content in which
+     *                 whitespace is significant, so that no indentation is
+     *                 applied.
+     */
+    private emit(str: string, verbatim: boolean = false): void {
+        for (let i = this._stack.length - 1; i >= 0; i--) {
+            const frame = this._stack[i];
+            if (!verbatim && !isUndefined(frame.indenter)) {
+                str = frame.indenter.write(str);
+            }
+            if (!isUndefined(frame.captured)) {
+                const parts = frame.captured.parts;
+                const last = parts[parts.length - 1];
+                if (!isUndefined(last) && last.verbatim === verbatim) {
+                    last.str += str;
+                } else {
+                    parts.push({str, verbatim});
+                }
+                return;
+            }
+            verbatim = verbatim || frame.verbatim;
+        }
+        this._buffer += str;
+        if (this._buffer.length >= chunkSize) {
+            this.flush();
+        }
+    }
+
+    /**
+     * Holds back the next child of the current element if it is not yet
+     * known whether the children of the element are placed on their own
+     * lines and the child does not settle this. Otherwise, the children held
+     * back so far are written.
+     *
+     * @param inline Whether the child is text or an inline element.
+     * @param text Whether the child is text other than whitespace.
+     *
+     * @returns The held child to which the output of the child should be
+     *          added, or undefined if the child should be written.
+     */
+    private hold(inline: boolean, text: boolean): IHeldChild | undefined {
+        const frame = this.top();
+        if (isUndefined(frame) || !isUndefined(frame.lineBreaks)) {
+            return undefined;
+        }
+
+        this.closeStartTag(frame);
+        if (this._optionsObj.mixedContent && text) {
+            // The element has mixed content, so all of its children are
+            // placed on the same line
+            this.resolve(frame, false);
+            return undefined;
+        } else if (!this._optionsObj.mixedContent && !inline) {
+            // The element contains a child other than text or an inline
+            // element, so any children held back so far must be placed on
+            // their own lines
+            this.resolve(frame, true);
+            return undefined;
+        }
+
+        const held: IHeldChild = {inline, parts: []};
+        frame.pending.push(held);
+        return held;
+    }
+
+    /**
+     * Writes the separator that precedes the next child of the current
+     * element, or of the document if there is no current element.
+     *
+     * @param inline Whether the child is text or an inline element.
+     *
+     * @returns Whether the child should be indented.
+     */
+    private place(inline: boolean): boolean {
+        const frame = this.top();
+        if (isUndefined(frame)) {
+            if (this._optionsObj.pretty && this._docChildren > 0) {
+                this.emit(this._optionsObj.newline);
+            }
+            this._docChildren++;
+            return false;
+        }
+
+        this.closeStartTag(frame);
+        const lineBreaks = frame.lineBreaks === true
+                           && !(inline && frame.previousInline);
+        frame.previousInline = inline;
+        if (lineBreaks) {
+            this.emit(this._optionsObj.newline);
+        }
+        return lineBreaks;
+    }
+
+    /**
+     * Records whether the children of the specified element are placed on
+     * their own lines and writes the children held back so far.
+     *
+     * @param frame The state of the element, which must be the current
+     *              element.
+     * @param lineBreaks Whether the children are placed on their own lines.
+     */
+    private resolve(frame: IFrame, lineBreaks: boolean): void {
+        frame.lineBreaks = lineBreaks;
+        const pending = frame.pending;
+        frame.pending = [];
+        for (const held of pending) {
+            this.writeChild(held.parts, held.inline);
+        }
+    }
+
+    /**
+     * Returns the state of the current element.
+     *
+     * @returns The state of the current element, or undefined if there is no
+     *          current element.
+     */
+    private top(): IFrame | undefined {
+        return this._stack[this._stack.length - 1];
+    }
+
+    /**
+     * Writes the string representation of a child of the current element, or
+     * of the document if there is no current element, preceded by its
+     * separator. If the child is placed on its own line, it is indented,
+     * except for the parts of its output in which whitespace is significant.
+     *
+     * @param parts The string representation of the child.
+     * @param inline Whether the child is text or an inline element.
+     */
+    private writeChild(parts: IHeldPart[], inline: boolean): void {
+        if (this.place(inline)) {
+            const indenter = new Indenter(this._optionsObj.indent,
+                                          this._optionsObj.newline);
+            for (const part of parts) {
+                if (part.verbatim) {
+                    this.emit(indenter.flush());
+                    this.emit(part.str, true);
+                } else {
+                    this.emit(indenter.write(part.str));
+                }
+            }
+            this.emit(indenter.flush());
+        } else {
+            for (const part of parts) {
+                this.emit(part.str, part.verbatim);
+            }
+        }
+    }
+}
@@ -0,0 +1,241 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    XmlDocument,
+    XmlElement,
+    XmlText,
+    canonicalize,
+    parse
+} from "../../lib/main";
+import {assert} from "chai";
+
+describe("canonicalize", () => {
+    it("should omit the declaration and DTD and place nodes outside the root"
+       + " element on their own lines", () => {
+        let xml = "<?xml version=\"1.0\"?>\n\n"
+                  + "<?xml-stylesheet   href=\"doc.xsl\"\n"
+                  + "   type=\"text/xsl\"   ?>\n\n"
+                  + "<!DOCTYPE doc SYSTEM \"doc.dtd\">\n\n"
+                  + "<doc>Hello, world!<!-- Comment 1 --></doc>\n\n"
+                  + "<?pi-without-data     ?>\n\n"
+                  + "<!-- Comment 2 -->\n\n"
+                  + "<!-- Comment 3 -->";
+        for (let preserve of [false, true]) {
+            let document = parse(xml, {preserve});
+            assert.strictEqual(canonicalize(document),
+                               "<?xml-stylesheet href=\"doc.xsl\"\n"
+                               + "   type=\"text/xsl\"   ?>\n"
+                               + "<doc>Hello, world!</doc>\n"
+                               + "<?pi-without-data?>");
+            assert.strictEqual(canonicalize(document, {withComments: true}),
+                               "<?xml-stylesheet href=\"doc.xsl\"\n"
+                               + "   type=\"text/xsl\"   ?>\n"
+                               + "<doc>Hello, world!<!-- Comment 1 --></doc>\n"
+                               + "<?pi-without-data?>\n"
+                               + "<!-- Comment 2 -->\n"
+                               + "<!-- Comment 3 -->");
+        }
+    });
+
+    it("should expand empty elements and sort attributes and namespace"
+       + " declarations", () => {
+        let xml = "<doc>\n"
+                  + "   <e1   />\n"
+                  + "   <e2   ></e2>\n"
+                  + "   <e3   name = \"elem3\"   id=\"elem3\"   />\n"
+                  + "   <e4   name=\"elem4\"   id=\"elem4\"   ></e4>\n"
+                  + "   <e5 a:attr=\"out\" b:attr=\"sorted\" attr2=\"all\""
+                  + " attr=\"I'm\"\n"
+                  + "      xmlns:b=\"http://www.ietf.org\"\n"
+                  + "      xmlns:a=\"http://www.w3.org\"\n"
+                  + "      xmlns=\"http://example.org\"/>\n"
+                  + "   <e6 xmlns=\"\" xmlns:a=\"http://www.w3.org\">\n"
+                  + "      <e7 xmlns=\"http://www.ietf.org\">\n"
+                  + "         <e8 xmlns=\"\" xmlns:a=\"http://www.w3.org\">\n"
+                  + "            <e9 xmlns=\"\""
+                  + " xmlns:a=\"http://www.ietf.org\"/>\n"
+                  + "         </e8>\n"
+                  + "      </e7>\n"
+                  + "   </e6>\n"
+                  + "</doc>";
+        assert.strictEqual(canonicalize(parse(xml)),
+                           "<doc>\n"
+                           + "   <e1></e1>\n"
+                           + "   <e2></e2>\n"
+                           + "   <e3 id=\"elem3\" name=\"elem3\"></e3>\n"
+                           + "   <e4 id=\"elem4\" name=\"elem4\"></e4>\n"
+                           + "   <e5 xmlns=\"http://example.org\""
+                           + " xmlns:a=\"http://www.w3.org\""
+                           + " xmlns:b=\"http://www.ietf.org\" attr=\"I'm\""
+                           + " attr2=\"all\" b:attr=\"sorted\""
+                           + " a:attr=\"out\"></e5>\n"
+                           + "   <e6 xmlns:a=\"http://www.w3.org\">\n"
+                           + "      <e7 xmlns=\"http://www.ietf.org\">\n"
+                           + "         <e8 xmlns=\"\">\n"
+                           + "            <e9"
+                           + " xmlns:a=\"http://www.ietf.org\"></e9>\n"
+                           + "         </e8>\n"
+                           + "      </e7>\n"
+                           + "   </e6>\n"
+                           + "</doc>");
+    });
+
+    it("should replace references and CDATA sections and normalize"
+       + " attribute values", () => {
+        let xml = "<doc>\n"
+                  + "   <text>First line&#x0d;&#10;Second line</text>\n"
+                  + "   <value>&#x32;</value>\n"
+                  + "   <compute><![CDATA[value>\"0\" && value<\"10\""
+                  + " ?\"valid\":\"error\"]]></compute>\n"
+                  + "   <compute expr='value>\"0\" &amp;&amp; value&lt;\"10\""
+                  + " ?\"valid\":\"error\"'>valid</compute>\n"
+                  + "   <norm attr=' &apos;   &#x20;&#13;&#xa;&#9;   &apos; '"
+                  + "/>\n"
+                  + "   <normNames attr='   A   &#x20;&#13;&#xa;&#9;   B   '"
+                  + "/>\n"
+                  + "   <tabs attr='a\r\nb\tc'>d\r\ne\rf &gt; g</tabs>\n"
+                  + "</doc>";
+        let expected = "<doc>\n"
+                       + "   <text>First line&#xD;\nSecond line</text>\n"
+                       + "   <value>2</value>\n"
+                       + "   <compute>value&gt;\"0\" &amp;&amp; value&lt;\"10\""
+                       + " ?\"valid\":\"error\"</compute>\n"
+                       + "   <compute expr=\"value>&quot;0&quot; &amp;&amp;"
+                       + " value&lt;&quot;10&quot;"
+                       + " ?&quot;valid&quot;:&quot;error&quot;\">valid"
+                       + "</compute>\n"
+                       + "   <norm attr=\" '    &#xD;&#xA;&#x9;   ' \">"
+                       + "</norm>\n"
+                       + "   <normNames"
+                       + " attr=\"   A    &#xD;&#xA;&#x9;   B   \">"
+                       + "</normNames>\n"
+                       + "   <tabs attr=\"a b c\">d\ne\nf &gt; g</tabs>\n"
+                       + "</doc>";
+        assert.strictEqual(canonicalize(parse(xml)), expected);
+        assert.strictEqual(canonicalize(parse(xml, {preserve: true})),
+                           expected);
+    });
+
+    it("should treat nodes as the document represented by their string"
+       + " representation", () => {
+        let document = new XmlDocument("root");
+        document.decl();
+        let root = document.root();
+        root.attribute("b", "1\r\n2").charRef("\t", true);
+        root.attribute("a", "\"").entityRef("lt");
+        root.text("x\r\ny");
+        root.charRef("\r");
+        root.entityRef("gt");
+        root.cdata("]>");
+        root.element("empty");
+        root.comment("c\r\n");
+        root.procInst("p", "");
+        assert.strictEqual(canonicalize(document, {withComments: true}),
+                           "<root a=\"&quot;&lt;\" b=\"1 2&#x9;\">x\ny&#xD;"
+                           + "&gt;]&gt;<empty></empty><!--c\n--><?p?></root>");
+    });
+
+    it("should include the namespace declarations and xml attributes in"
+       + " scope at an element", () => {
+        let document = parse("<a xmlns='u' xmlns:p='v' xml:lang='en'"
+                             + " xml:space='preserve' x='1'>"
+                             + "<b p:x='1' xml:lang='fr' xmlns:p='v'><c/></b>"
+                             + "<d xmlns=''/></a>");
+        let children = <XmlElement[]> document.root().children().filter(
+            node => node instanceof XmlElement);
+        assert.strictEqual(canonicalize(children[0]),
+                           "<b xmlns=\"u\" xmlns:p=\"v\" xml:lang=\"fr\""
+                           + " xml:space=\"preserve\" p:x=\"1\">"
+                           + "<c></c></b>");
+        assert.strictEqual(canonicalize(children[1]),
+                           "<d xmlns:p=\"v\" xml:lang=\"en\""
+                           + " xml:space=\"preserve\"></d>");
+    });
+
+    it("should include only visibly used namespace declarations and those"
+       + " in the InclusiveNamespaces PrefixList in the exclusive canonical"
+       + " form", () => {
+        let document = parse("<env:Envelope xmlns:env='urn:env'"
+                             + " xmlns:ds='urn:ds' xmlns='urn:default'"
+                             + " xmlns:unused='urn:u' xml:lang='en'>"
+                             + "<env:Body xmlns:wsu='urn:wsu' wsu:Id='body'>"
+                             + "<ds:Sig><item a='1'/></ds:Sig>"
+                             + "<data xmlns=''/></env:Body></env:Envelope>");
+        let body = <XmlElement> document.root().children()[5];
+        assert.strictEqual(canonicalize(body),
+                           "<env:Body xmlns=\"urn:default\""
+                           + " xmlns:ds=\"urn:ds\" xmlns:env=\"urn:env\""
+                           + " xmlns:unused=\"urn:u\" xmlns:wsu=\"urn:wsu\""
+                           + " xml:lang=\"en\" wsu:Id=\"body\">"
+                           + "<ds:Sig><item a=\"1\"></item></ds:Sig>"
+                           + "<data xmlns=\"\"></data></env:Body>");
+        assert.strictEqual(canonicalize(body, {exclusive: true}),
+                           "<env:Body xmlns:env=\"urn:env\""
+                           + " xmlns:wsu=\"urn:wsu\" wsu:Id=\"body\">"
+                           + "<ds:Sig xmlns:ds=\"urn:ds\">"
+                           + "<item xmlns=\"urn:default\" a=\"1\"></item>"
+                           + "</ds:Sig><data></data></env:Body>");
+        assert.strictEqual(canonicalize(body, {
+                               exclusive: true,
+                               inclusiveNamespaces: ["#default", "unused"]
+                           }),
+                           "<env:Body xmlns=\"urn:default\""
+                           + " xmlns:env=\"urn:env\" xmlns:unused=\"urn:u\""
+                           + " xmlns:wsu=\"urn:wsu\" wsu:Id=\"body\">"
+                           + "<ds:Sig xmlns:ds=\"urn:ds\"><item a=\"1\">"
+                           + "</item></ds:Sig><data xmlns=\"\"></data>"
+                           + "</env:Body>");
+        assert.isTrue(body.parent === document.root());
+        assert.throws(() => canonicalize(parse("<p:a/>"), {exclusive: true}),
+                      /prefix p/);
+    });
+
+    it("should resolve the names of namespace-aware elements and"
+       + " attributes", () => {
+        let doc = new XmlDocument({local: "root", ns: "urn:r", prefix: "r"});
+        let root = doc.root();
+        root.attribute({local: "id", ns: "urn:a", prefix: "a"},
+                       new XmlText("1"));
+        let child = root.element({local: "child", ns: "urn:c"});
+        child.attribute({local: "lang", ns: "http://www.w3.org/XML/1998/"
+                                           + "namespace"},
+                        new XmlText("en"));
+        let grandchild = child.element({local: "leaf", ns: "urn:r"});
+        assert.strictEqual(canonicalize(doc),
+                           "<r:root xmlns:a=\"urn:a\" xmlns:ns1=\"urn:c\""
+                           + " xmlns:r=\"urn:r\" a:id=\"1\">"
+                           + "<ns1:child xml:lang=\"en\">"
+                           + "<r:leaf></r:leaf></ns1:child></r:root>");
+        assert.strictEqual(canonicalize(grandchild),
+                           "<r:leaf xmlns:a=\"urn:a\" xmlns:ns1=\"urn:c\""
+                           + " xmlns:r=\"urn:r\" xml:lang=\"en\">"
+                           + "</r:leaf>");
+        assert.strictEqual(canonicalize(grandchild, {exclusive: true}),
+                           "<r:leaf xmlns:r=\"urn:r\"></r:leaf>");
+    });
+
+    it("should throw an error if the document cannot be canonicalized",
+       () => {
+        assert.throws(() => canonicalize(parse("<a p:b='c'/>")),
+                      /prefix p/);
+        assert.throws(() => canonicalize(parse("<a>&e;</a>")), /entity e/);
+        assert.throws(() => canonicalize(new XmlDocument("a").root()
+                                                             .text("b")));
+        assert.throws(() => canonicalize(new XmlDocument("a"),
+                                         <any> {withComments: 1}));
+    });
+});
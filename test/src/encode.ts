@@ -0,0 +1,70 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {encode, getMaxCodePoint} from "../../lib/encode";
+import {assert} from "chai";
+
+let bytes = (buffer: Uint8Array): number[] => {
+    return Array.prototype.slice.call(buffer);
+};
+
+describe("encode", () => {
+    describe("#encode", () => {
+        it("should encode a string using the specified encoding", () => {
+            let str = "aé€😀";
+            assert.deepEqual(bytes(encode(str, "UTF-8")),
+                             [0x61, 0xC3, 0xA9, 0xE2, 0x82, 0xAC, 0xF0, 0x9F,
+                              0x98, 0x80]);
+            assert.deepEqual(bytes(encode(str, "utf-16le")),
+                             [0x61, 0x00, 0xE9, 0x00, 0xAC, 0x20, 0x3D, 0xD8,
+                              0x00, 0xDE]);
+            assert.deepEqual(bytes(encode(str, "UTF-16BE")),
+                             [0x00, 0x61, 0x00, 0xE9, 0x20, 0xAC, 0xD8, 0x3D,
+                              0xDE, 0x00]);
+            assert.deepEqual(bytes(encode("aé", "ISO-8859-1")),
+                             [0x61, 0xE9]);
+            assert.deepEqual(bytes(encode("a", "US-ASCII")), [0x61]);
+        });
+
+        it("should write a byte order mark if specified or required", () => {
+            assert.deepEqual(bytes(encode("a", "UTF-8", true)),
+                             [0xEF, 0xBB, 0xBF, 0x61]);
+            assert.deepEqual(bytes(encode("a", "UTF-16")),
+                             [0xFE, 0xFF, 0x00, 0x61]);
+            assert.throws(() => encode("a", "UTF-16", false));
+            assert.throws(() => encode("a", "UTF-16LE", true));
+            assert.throws(() => encode("a", "ISO-8859-1", true));
+        });
+
+        it("should throw an error if a character cannot be represented in"
+           + " the encoding", () => {
+            assert.throws(() => encode("Ā", "ISO-8859-1"), /U\+100/);
+            assert.throws(() => encode("\u0080", "US-ASCII"), /U\+80/);
+        });
+    });
+
+    describe("#getMaxCodePoint", () => {
+        it("should return the highest code point of the encoding", () => {
+            assert.strictEqual(getMaxCodePoint("utf-8"), 0x10FFFF);
+            assert.strictEqual(getMaxCodePoint("ISO-8859-1"), 0xFF);
+            assert.strictEqual(getMaxCodePoint("US-ASCII"), 0x7F);
+        });
+
+        it("should throw an error if the encoding is not supported", () => {
+            assert.throws(() => getMaxCodePoint("EBCDIC"));
+        });
+    });
+});
@@ -16,13 +16,88 @@
 
 import {
     escapeAmpersands,
+    escapeCharData,
     escapeDoubleQuotes,
     escapeLeftAngleBrackets,
     escapeSingleQuotes
 } from "../../lib/escape";
+import {EscapingOptions} from "../../lib/options";
 import {assert} from "chai";
 
 describe("escape", () => {
+    describe("#escapeCharData", () => {
+        it("should escape ampersands, left angle brackets, and the string"
+           + " ']]>' by default", () => {
+            let options = new EscapingOptions();
+            assert.strictEqual(escapeCharData("a&b<c>d]]>e]]]>\t'\"\u00e9",
+                                              options, false),
+                               "a&amp;b&lt;c>d]]&gt;e]]]&gt;\t'\"\u00e9");
+            assert.strictEqual(escapeCharData("a\tb\nc\rd", options, true),
+                               "a\tb\nc\rd");
+        });
+
+        it("should escape right angle brackets and whitespace in attribute"
+           + " values if specified", () => {
+            let options = new EscapingOptions({attributeWhitespace: true,
+                                               greaterThan: "always"});
+            assert.strictEqual(escapeCharData("a>b\tc\nd\re", options, false),
+                               "a&gt;b\tc\nd\re");
+            assert.strictEqual(escapeCharData("a>b\tc\nd\re", options, true),
+                               "a&gt;b&#x9;c&#xA;d&#xD;e");
+        });
+
+        it("should escape characters above the specified code point", () => {
+            let options = new EscapingOptions({maxCodePoint: 0xFF});
+            assert.strictEqual(escapeCharData("a\u00ff\u0100\ud83d\ude00",
+                                              options, false),
+                               "a\u00ff&#x100;&#x1F600;");
+        });
+
+        it("should replace characters using the specified map", () => {
+            let options = new EscapingOptions({
+                map: {
+                    "\u00a0": "&#160;",
+                    "\ud83d\ude00": "&smile;",
+                    ">": "&#62;",
+                    "a": "&a;",
+                    "|": "&#124;"
+                },
+                maxCodePoint: 0x7F
+            });
+            assert.strictEqual(escapeCharData("ab|\u00a0\u00e9\ud83d\ude00]]>",
+                                              options, false),
+                               "&a;b&#124;&#160;&#xE9;&smile;]]&#62;");
+        });
+
+        it("should escape the string ']]>' formed with the preceding right"
+           + " square brackets", () => {
+            let options = new EscapingOptions();
+            assert.strictEqual(escapeCharData(">b", options, false, "1.0", 2),
+                               "&gt;b");
+            assert.strictEqual(escapeCharData("]>b", options, false, "1.0",
+                                              1),
+                               "]&gt;b");
+            assert.strictEqual(escapeCharData(">b", options, false, "1.0", 1),
+                               ">b");
+            options = new EscapingOptions({map: {">": "&#62;"}});
+            assert.strictEqual(escapeCharData(">]]>", options, false, "1.0",
+                                              3),
+                               "&#62;]]&#62;");
+        });
+
+        it("should escape restricted characters and line breaks other than"
+           + " carriage returns and line feeds in XML 1.1", () => {
+            let options = new EscapingOptions();
+            assert.strictEqual(
+                escapeCharData("a\u0001\t\u007f\u0085\u00a0\u2028b", options,
+                               false, "1.1"),
+                "a&#x1;\t&#x7F;&#x85;\u00a0&#x2028;b");
+            assert.strictEqual(
+                escapeCharData("a\u007f\u0085\u2028b", options, false),
+                "a\u007f\u0085\u2028b");
+        });
+    });
+
     describe("#escapeAmpersands", () => {
         it("should escape all ampersands in a string", () => {
             assert.strictEqual(escapeAmpersands("&"), "&amp;");
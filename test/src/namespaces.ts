@@ -0,0 +1,251 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    XmlDocument,
+    XmlText,
+    checkNamespaces,
+    normalizeNamespaces,
+    parse
+} from "../../lib/main";
+import {assert} from "chai";
+
+describe("checkNamespaces", () => {
+    it("should accept documents that conform to the namespaces"
+       + " recommendation", () => {
+        let document = parse("<a:doc xmlns:a=\"http://a\" xmlns=\"http://b\">"
+                             + "<e a:x=\"1\" x=\"2\" xml:lang=\"en\"/>"
+                             + "<f xmlns=\"\"/></a:doc>");
+        checkNamespaces(document);
+
+        let element = document.root().children()[2];
+        checkNamespaces(element);
+
+        let svg = new XmlDocument({local: "svg", ns: "http://svg"});
+        svg.root().element({local: "rect", ns: "http://svg"})
+           .attribute({local: "href", ns: "http://xlink"}, new XmlText("#a"));
+        checkNamespaces(svg);
+    });
+
+    it("should throw an error if a name is not a qualified name", () => {
+        assert.throws(() => checkNamespaces(parse("<a:b:c/>")),
+                      "element a:b:c should have a qualified name at line 1,"
+                      + " column 1");
+        assert.throws(() => checkNamespaces(parse("<:a/>")),
+                      "element :a should have a qualified name");
+        assert.throws(() => checkNamespaces(parse("<a b:=\"1\"/>")),
+                      "attribute b: of element a should have a qualified"
+                      + " name at line 1, column 4");
+        assert.throws(() => checkNamespaces(parse("<a xmlns:b:c=\"x\"/>")),
+                      "attribute xmlns:b:c of element a should have a"
+                      + " qualified name");
+    });
+
+    it("should throw an error if a prefix is not declared", () => {
+        assert.throws(() => checkNamespaces(parse("<foo:bar/>")),
+                      "prefix foo of element foo:bar is not declared");
+        assert.throws(() => checkNamespaces(parse("<a>\n<b c:d=\"1\"/></a>")),
+                      "prefix c of attribute c:d of element b is not"
+                      + " declared at line 2, column 4");
+        assert.throws(() => checkNamespaces(parse("<xmlns:a/>")),
+                      "element xmlns:a should not use the prefix xmlns");
+        assert.throws(() => checkNamespaces(
+                          parse("<?xml version=\"1.1\"?>"
+                                + "<a xmlns:b=\"http://b\">"
+                                + "<b:c xmlns:b=\"\"/></a>")),
+                      "prefix b of element b:c is not declared");
+
+        let root = parse("<a xmlns:b=\"http://b\"><b:c/></a>").root();
+        let child = root.children()[1];
+        checkNamespaces(child);
+        root.attributes()[0].remove();
+        assert.throws(() => checkNamespaces(child),
+                      "prefix b of element b:c is not declared");
+    });
+
+    it("should throw an error if a reserved prefix or namespace is"
+       + " rebound", () => {
+        checkNamespaces(parse("<a xmlns:xml=\"http://www.w3.org/XML/1998/"
+                              + "namespace\"/>"));
+        assert.throws(() => checkNamespaces(
+                          parse("<a xmlns:xml=\"http://a\"/>")),
+                      "attribute xmlns:xml of element a should not bind the"
+                      + " prefix xml to another namespace");
+        assert.throws(() => checkNamespaces(
+                          parse("<a xmlns:xmlns=\"http://a\"/>")),
+                      "attribute xmlns:xmlns of element a should not declare"
+                      + " the prefix xmlns");
+        assert.throws(() => checkNamespaces(
+                          parse("<a xmlns=\"http://www.w3.org/2000/"
+                                + "xmlns/\"/>")),
+                      "attribute xmlns of element a should not bind a"
+                      + " reserved namespace");
+        assert.throws(() => checkNamespaces(
+                          parse("<a xmlns:b=\"http://www.w3.org/XML/1998/"
+                                + "namespace\"/>")),
+                      "attribute xmlns:b of element a should not bind a"
+                      + " reserved namespace");
+        assert.throws(() => checkNamespaces(parse("<a xmlns:b=\"\"/>")),
+                      "attribute xmlns:b of element a should not undeclare"
+                      + " a prefix in XML 1.0");
+    });
+
+    it("should throw an error if two attributes have the same expanded"
+       + " name", () => {
+        assert.throws(() => checkNamespaces(
+                          parse("<a xmlns:b=\"http://x\" xmlns:c=\"http://x\""
+                                + " b:d=\"1\" c:d=\"2\"/>")),
+                      "attribute c:d of element a has the same namespace and"
+                      + " local name as attribute b:d");
+
+        let document = parse("<a xmlns:b=\"http://x\" b:d=\"1\"/>");
+        document.root().attribute({local: "d", ns: "http://x"},
+                                  new XmlText("2"));
+        assert.throws(() => checkNamespaces(document),
+                      "attribute b:d of element a has the same namespace and"
+                      + " local name as attribute b:d");
+    });
+
+    it("should throw an error if the node is not a document or"
+       + " element", () => {
+        assert.throws(() => checkNamespaces(new XmlText("a")),
+                      "node should be an instance of XmlDocument or"
+                      + " XmlElement");
+    });
+});
+
+describe("normalizeNamespaces", () => {
+    let options = {doubleQuotes: true, pretty: false};
+
+    it("should move declarations to the outermost element and remove"
+       + " redundant ones", () => {
+        let document = parse("<doc><a:e xmlns:a=\"http://a\"/>"
+                             + "<a:e xmlns:a=\"http://a\" a:x=\"1\"/>"
+                             + "<f xmlns:a=\"http://a\"><a:e/></f></doc>");
+        normalizeNamespaces(document);
+        assert.strictEqual(document.toString(options),
+                           "<doc xmlns:a=\"http://a\"><a:e/><a:e a:x=\"1\"/>"
+                           + "<f><a:e/></f></doc>");
+
+        let element = parse("<doc xmlns:a=\"http://a\"><e>"
+                            + "<a:f xmlns:a=\"http://a\"/></e></doc>").root();
+        normalizeNamespaces(element.children()[1]);
+        assert.strictEqual(element.toString(options),
+                           "<doc xmlns:a=\"http://a\"><e><a:f/></e></doc>");
+    });
+
+    it("should not move declarations if that would change the namespace of"
+       + " an element or attribute", () => {
+        let xml = "<doc><a:e xmlns:a=\"http://a\"/>"
+                  + "<a:e xmlns:a=\"http://b\"/>"
+                  + "<f xmlns:b=\"http://b\" b:x=\"1\">"
+                  + "<b:e xmlns:b=\"http://c\"/>"
+                  + "</f><e xmlns=\"http://d\"/></doc>";
+        let document = parse(xml);
+        normalizeNamespaces(document);
+        assert.strictEqual(document.toString(options),
+                           "<doc xmlns:a=\"http://a\" xmlns:b=\"http://b\">"
+                           + "<a:e/><a:e xmlns:a=\"http://b\"/>"
+                           + "<f b:x=\"1\"><b:e xmlns:b=\"http://c\"/></f>"
+                           + "<e xmlns=\"http://d\"/></doc>");
+
+        document = parse("<doc><c:e/><e xmlns:c=\"http://c\"><c:f/></e>"
+                         + "</doc>");
+        normalizeNamespaces(document);
+        assert.strictEqual(document.toString(options),
+                           "<doc><c:e/><e xmlns:c=\"http://c\"><c:f/></e>"
+                           + "</doc>");
+    });
+
+    it("should remove unused declarations if the removeUnused option is"
+       + " enabled", () => {
+        let xml = "<doc xmlns:a=\"http://a\" xmlns:b=\"http://b\""
+                  + " xmlns=\"http://d\"><e xmlns=\"\"><b:f/>"
+                  + "<g xmlns:b=\"http://c\" xmlns:c=\"http://c\"/></e>"
+                  + "</doc>";
+        let document = parse(xml);
+        normalizeNamespaces(document, {hoist: false, removeUnused: false});
+        assert.strictEqual(document.toString(options), xml);
+
+        normalizeNamespaces(document, {hoist: false});
+        assert.strictEqual(document.toString(options),
+                           "<doc xmlns:b=\"http://b\" xmlns=\"http://d\">"
+                           + "<e xmlns=\"\"><b:f/><g/></e></doc>");
+
+        document = new XmlDocument("doc");
+        document.root().attribute("xmlns:s", "http://svg");
+        document.root().element({local: "rect", ns: "http://svg"});
+        normalizeNamespaces(document);
+        assert.strictEqual(document.toString(options),
+                           "<doc xmlns:s=\"http://svg\"><s:rect/></doc>");
+    });
+
+    it("should keep declarations used in the values of xsi:type attributes"
+       + " if the removeUnused option is enabled", () => {
+        let xsi = "http://www.w3.org/2001/XMLSchema-instance";
+        let xml = "<p:doc xmlns:p=\"http://p\" xmlns:t=\"http://t\""
+                  + " xmlns=\"http://d\" xmlns:u=\"http://u\">"
+                  + "<p:e xmlns:i=\"" + xsi + "\" i:type=\" t:Foo\"/>"
+                  + "<p:e xmlns:i=\"" + xsi + "\" i:type=\"Foo\"/>"
+                  + "<p:e xmlns:i=\"http://i\" i:type=\"u:Bar\"/></p:doc>";
+        let document = parse(xml);
+        normalizeNamespaces(document, {hoist: false});
+        assert.strictEqual(document.toString(options),
+                           "<p:doc xmlns:p=\"http://p\" xmlns:t=\"http://t\""
+                           + " xmlns=\"http://d\">"
+                           + "<p:e xmlns:i=\"" + xsi + "\" i:type=\" t:Foo\"/>"
+                           + "<p:e xmlns:i=\"" + xsi + "\" i:type=\"Foo\"/>"
+                           + "<p:e xmlns:i=\"http://i\" i:type=\"u:Bar\"/>"
+                           + "</p:doc>");
+
+        document = new XmlDocument("p:doc");
+        document.root().attribute("xmlns:p", "http://p");
+        document.root().attribute("xmlns:t", "http://t");
+        document.root().attribute({local: "type", ns: xsi, prefix: "xsi"},
+                                  "t:Foo");
+        normalizeNamespaces(document);
+        assert.strictEqual(document.toString(options),
+                           "<p:doc xmlns:xsi=\"" + xsi + "\""
+                           + " xmlns:p=\"http://p\" xmlns:t=\"http://t\""
+                           + " xsi:type=\"t:Foo\"/>");
+    });
+
+    it("should rename prefixes if the renamePrefixes option is"
+       + " specified", () => {
+        let document = parse("<doc><x:e xmlns:x=\"http://a\" x:y=\"1\">"
+                             + "<x:f/></x:e><y:e xmlns:y=\"http://a\"/>"
+                             + "<z:e xmlns:z=\"http://b\"/></doc>");
+        normalizeNamespaces(document, {renamePrefixes: {a: "http://a"}});
+        assert.strictEqual(document.toString(options),
+                           "<doc xmlns:a=\"http://a\" xmlns:z=\"http://b\">"
+                           + "<a:e a:y=\"1\"><a:f/></a:e><a:e/><z:e/>"
+                           + "</doc>");
+
+        document = parse("<doc xmlns:a=\"http://b\"><a:e/>"
+                         + "<x:e xmlns:x=\"http://a\"><a:f/></x:e></doc>");
+        normalizeNamespaces(document, {renamePrefixes: {a: "http://a"}});
+        assert.strictEqual(document.toString(options),
+                           "<doc xmlns:a=\"http://b\" xmlns:x=\"http://a\">"
+                           + "<a:e/><x:e><a:f/></x:e></doc>");
+    });
+
+    it("should throw an error if the node is not a document or"
+       + " element", () => {
+        assert.throws(() => normalizeNamespaces(new XmlText("a")),
+                      "node should be an instance of XmlDocument or"
+                      + " XmlElement");
+    });
+});
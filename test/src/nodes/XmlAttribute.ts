@@ -41,6 +41,51 @@ describe("XmlAttribute", () => {
             assert.strictEqual(node.toString(),
                                "name='value&#x61;&#98;&test;'");
         });
+
+        it("should create an XmlAttribute node in the specified"
+           + " namespace", () => {
+            let node = new XmlAttribute({local: "a", ns: "urn:a", prefix: "p"},
+                                        new XmlText("b"));
+            assert.strictEqual(node.name, "a");
+            assert.strictEqual(node.namespace, "urn:a");
+            assert.strictEqual(node.prefix, "p");
+            assert.strictEqual(node.toString(), "p:a='b'");
+            assert.throws(() => new XmlAttribute(
+                {local: "a", ns: "urn:a", prefix: ""}, new XmlText("b")));
+            assert.throws(() => new XmlAttribute(
+                {local: "a", prefix: "p"}, new XmlText("b")));
+        });
+    });
+
+    describe("#format", () => {
+        it("should return undefined if no formatting was recorded", () => {
+            let node = new XmlAttribute("name", new XmlText("value"));
+            assert.isUndefined(node.format);
+        });
+
+        it("should set this node's formatting to the specified value and use"
+           + " it when formatting is preserved", () => {
+            let node = new XmlAttribute("name", new XmlText("a\"b'c"));
+            node.format = {before: "\n", equals: " = ", quote: "\""};
+            assert.strictEqual(node.format.equals, " = ");
+            assert.strictEqual(node.toString({preserve: true}),
+                               "name = \"a&quot;b'c\"");
+            assert.strictEqual(node.toString(), "name='a\"b&apos;c'");
+            node.format = undefined;
+            assert.isUndefined(node.format);
+        });
+
+        it("should throw an error if the specified value is not a valid"
+           + " attribute format", () => {
+            let node = new XmlAttribute("name", new XmlText("value"));
+            assert.throws(() => node.format = <any> "test");
+            assert.throws(() => node.format = {before: "", equals: "=",
+                                               quote: "'"});
+            assert.throws(() => node.format = {before: " ", equals: "a",
+                                               quote: "'"});
+            assert.throws(() => node.format = {before: " ", equals: "=",
+                                               quote: "a"});
+        });
     });
 
     describe("#name", () => {
@@ -82,6 +127,30 @@ describe("XmlAttribute", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this attribute and its value", () => {
+            let value = [new XmlText("c"), new XmlCharRef("d")];
+            let node = new XmlAttribute({local: "b", ns: "http://a",
+                                         prefix: "a"}, value);
+            for (let copy of [node.clone(), node.clone(false)]) {
+                assert.strictEqual(copy.toString(), node.toString());
+                assert.strictEqual(copy.namespace, "http://a");
+                assert.strictEqual(copy.prefix, "a");
+                assert.notStrictEqual(copy.children()[0], node.children()[0]);
+                assert.strictEqual(copy.children()[0].parent, copy);
+            }
+        });
+
+        it("should copy the format of this attribute instead of sharing"
+           + " it", () => {
+            let node = new XmlAttribute("a", [new XmlText("b")]);
+            node.format = {before: "\n", equals: " = ", quote: "\""};
+            let copy = node.clone();
+            assert.deepEqual(copy.format, node.format);
+            assert.notStrictEqual(copy.format, node.format);
+        });
+    });
+
     describe("#entityRef", () => {
         it("should add an XmlEntityRef node to this node's children at the"
            + " specified index with the specified entity name and return"
@@ -185,5 +254,21 @@ describe("XmlAttribute", () => {
             assert.strictEqual(secondNode.toString({doubleQuotes: true}),
                                "name=\"&quot;hello&quot;\"");
         });
+
+        it("should return a string escaped as specified by the escaping"
+           + " options", () => {
+            let node = new XmlAttribute("a", new XmlText("b\tc\r\nd>'"));
+            node.insertChild(new XmlCharRef("\t"));
+            assert.strictEqual(node.toString(),
+                               "a='b\tc\r\nd>&apos;&#9;'");
+            assert.strictEqual(node.toString({
+                                   escaping: {
+                                       attributeWhitespace: true,
+                                       greaterThan: "always",
+                                       map: {"'": "&#39;"}
+                                   }
+                               }),
+                               "a='b&#x9;c&#xD;&#xA;d&gt;&#39;&#9;'");
+        });
     });
 });
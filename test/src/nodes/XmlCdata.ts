@@ -71,6 +71,19 @@ describe("XmlCdata", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this node that is not affected by changes"
+           + " to this node", () => {
+            let node = new XmlCdata("abc");
+            let copy = node.clone();
+            assert.notStrictEqual(copy, node);
+            assert.strictEqual(copy.toString(), node.toString());
+
+            node.data = "def";
+            assert.strictEqual(copy.data, "abc");
+        });
+    });
+
     describe("#insertChild", () => {
         it("should throw an error", () => {
             let node = new XmlCdata("a");
@@ -67,6 +67,37 @@ describe("XmlCharRef", () => {
         });
     });
 
+    describe("#format", () => {
+        it("should set this node's formatting to the specified value and use"
+           + " it when formatting is preserved", () => {
+            let node = new XmlCharRef("\u00e9", true);
+            assert.isUndefined(node.format);
+            node.format = {digits: "00E9"};
+            assert.strictEqual(node.format.digits, "00E9");
+            assert.strictEqual(node.toString({preserve: true}), "&#x00E9;");
+            assert.strictEqual(node.toString(), "&#xe9;");
+        });
+
+        it("should ignore the recorded digits if they no longer represent the"
+           + " character", () => {
+            let node = new XmlCharRef("\u00e9", true);
+            node.format = {digits: "00E9"};
+            node.hex = false;
+            assert.strictEqual(node.toString({preserve: true}), "&#233;");
+            node.char = "a";
+            node.format = {digits: "0233"};
+            assert.strictEqual(node.toString({preserve: true}), "&#97;");
+        });
+
+        it("should throw an error if the specified value is not a valid"
+           + " character reference format", () => {
+            let node = new XmlCharRef("a");
+            assert.throws(() => node.format = <any> 3);
+            assert.throws(() => node.format = {digits: ""});
+            assert.throws(() => node.format = {digits: "x61"});
+        });
+    });
+
     describe("#hex", () => {
         it("should return this node's hex value", () => {
             let node = new XmlCharRef("a", false);
@@ -97,6 +128,19 @@ describe("XmlCharRef", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this node that is not affected by changes"
+           + " to this node", () => {
+            let node = new XmlCharRef("a", true);
+            let copy = node.clone();
+            assert.notStrictEqual(copy, node);
+            assert.strictEqual(copy.toString(), node.toString());
+
+            node.char = "b";
+            assert.strictEqual(copy.char, "a");
+        });
+    });
+
     describe("#insertChild", () => {
         it("should throw an error", () => {
             let node = new XmlCharRef("a");
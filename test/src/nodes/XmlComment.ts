@@ -72,6 +72,19 @@ describe("XmlComment", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this node that is not affected by changes"
+           + " to this node", () => {
+            let node = new XmlComment("abc");
+            let copy = node.clone();
+            assert.notStrictEqual(copy, node);
+            assert.strictEqual(copy.toString(), node.toString());
+
+            node.content = "def";
+            assert.strictEqual(copy.content, "abc");
+        });
+    });
+
     describe("#insertChild", () => {
         it("should throw an error", () => {
             let node = new XmlComment("a");
@@ -70,6 +70,40 @@ describe("XmlDecl", () => {
         });
     });
 
+    describe("#format", () => {
+        it("should set this node's formatting to the specified value and use"
+           + " it when formatting is preserved", () => {
+            let node = new XmlDecl({encoding: "UTF-8", standalone: "no"});
+            assert.isUndefined(node.format);
+            node.format = {
+                end: " ",
+                version: {before: "  ", equals: " = ", quote: "\""}
+            };
+            assert.strictEqual(node.toString({preserve: true}),
+                               "<?xml  version = \"1.0\" encoding='UTF-8'"
+                               + " standalone='no' ?>");
+            assert.strictEqual(node.toString(),
+                               "<?xml version='1.0' encoding='UTF-8'"
+                               + " standalone='no'?>");
+        });
+
+        it("should throw an error if the specified value is not a valid"
+           + " declaration format", () => {
+            let node = new XmlDecl();
+            assert.throws(() => node.format = <any> "test");
+            assert.throws(() => node.format = <any> {end: ""});
+            assert.throws(() => node.format = {
+                end: "a",
+                version: {before: " ", equals: "=", quote: "'"}
+            });
+            assert.throws(() => node.format = {
+                encoding: <any> {},
+                end: "",
+                version: {before: " ", equals: "=", quote: "'"}
+            });
+        });
+    });
+
     describe("#standalone", () => {
         it("should return this node's standalone attribute", () => {
             let node = new XmlDecl({standalone: "yes"});
@@ -146,6 +180,19 @@ describe("XmlDecl", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this node that is not affected by changes"
+           + " to this node", () => {
+            let node = new XmlDecl({encoding: "UTF-8", standalone: "yes"});
+            let copy = node.clone();
+            assert.notStrictEqual(copy, node);
+            assert.strictEqual(copy.toString(), node.toString());
+
+            node.encoding = "UTF-16";
+            assert.strictEqual(copy.encoding, "UTF-8");
+        });
+    });
+
     describe("#insertChild", () => {
         it("should throw an error", () => {
             let node = new XmlDecl();
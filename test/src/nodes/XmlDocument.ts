@@ -21,7 +21,8 @@ import {
     XmlDtd,
     XmlElement,
     XmlNode,
-    XmlProcInst
+    XmlProcInst,
+    parse
 } from "../../../lib/main";
 import {assert} from "chai";
 
@@ -31,6 +32,83 @@ describe("XmlDocument", () => {
            + " element name", () => {
             let node = new XmlDocument("abc");
             assert.strictEqual(node.toString(), "<abc/>");
+
+            node = new XmlDocument({local: "abc", ns: "urn:a", prefix: "a"});
+            node.decl();
+            assert.strictEqual(node.toString({pretty: false}),
+                               "<?xml version='1.0'?><a:abc xmlns:a='urn:a'/>");
+        });
+    });
+
+    describe("#format", () => {
+        it("should set this node's formatting to the specified value and use"
+           + " it when formatting is preserved", () => {
+            let node = new XmlDocument("abc");
+            assert.isUndefined(node.format);
+            let comment = node.comment("test", 0);
+            node.procInst("test2");
+            node.format = {
+                end: "\r\n",
+                separators: [{node: comment, whitespace: "\n"},
+                             {node: node.root(), whitespace: "\r\n\r\n"}]
+            };
+            assert.strictEqual(node.toString({preserve: true}),
+                               "\n<!--test-->\r\n\r\n<abc/>\n<?test2?>"
+                               + "\r\n");
+            assert.strictEqual(node.toString(),
+                               "<!--test-->\n<abc/>\n<?test2?>");
+        });
+
+        it("should throw an error if the specified value is not a valid"
+           + " document format", () => {
+            let node = new XmlDocument("abc");
+            assert.throws(() => node.format = <any> "test");
+            assert.throws(() => node.format = {end: "a", separators: []});
+            assert.throws(() => node.format = {
+                end: "",
+                separators: [{node: node.root(), whitespace: "a"}]
+            });
+        });
+    });
+
+    describe("#clone", () => {
+        it("should return a copy of this document and its descendants", () => {
+            let node = new XmlDocument("root");
+            node.decl({version: "1.1"});
+            node.dtd("root", "root.dtd").element("root (#PCDATA)");
+            node.root().attribute("a", "b");
+            node.root().text("c\u0001");
+
+            let copy = node.clone();
+            assert.strictEqual(copy.toString(), node.toString());
+            assert.notStrictEqual(copy.root(), node.root());
+            assert.strictEqual(copy.root().parent, copy);
+
+            copy.root().name = "other";
+            assert.strictEqual(node.root().name, "root");
+        });
+
+        it("should copy the children of this document without their"
+           + " descendants if deep is false", () => {
+            let node = new XmlDocument("root");
+            node.decl();
+            node.dtd("root", "root.dtd").element("root (#PCDATA)");
+            node.root().attribute("a", "b");
+            node.root().text("c");
+            assert.strictEqual(node.clone(false).toString({pretty: false}),
+                               "<?xml version='1.0'?>"
+                               + "<!DOCTYPE root SYSTEM 'root.dtd'>"
+                               + "<root a='b'/>");
+        });
+
+        it("should copy the format of this document for the copies of its"
+           + " children", () => {
+            let xml = "<?xml version=\"1.0\"?>\n\n<!DOCTYPE root [\n"
+                      + "  <!ELEMENT root ANY>\n]>\n<root/>\n<!--c-->\n";
+            let node = parse(xml, {preserve: true});
+            let copy = node.clone();
+            assert.strictEqual(copy.toString({preserve: true}), xml);
+            assert.notStrictEqual(copy.format, node.format);
         });
     });
 
@@ -122,6 +200,30 @@ describe("XmlDocument", () => {
         });
     });
 
+    describe("#find", () => {
+        it("should return the first element in document order that matches"
+           + " the specified selector", () => {
+            let node = new XmlDocument("root");
+            let child = node.root().element("child");
+            assert.strictEqual(node.find("root"), node.root());
+            assert.strictEqual(node.find("child"), child);
+            assert.isUndefined(node.find("other"));
+        });
+    });
+
+    describe("#findAll", () => {
+        it("should return the elements in document order that match the"
+           + " specified selector", () => {
+            let node = new XmlDocument("root");
+            node.comment("comment");
+            let first = node.root().element("child");
+            let second = first.element("child");
+            assert.deepEqual(node.findAll("child"), [first, second]);
+            assert.deepEqual(node.findAll(() => true),
+                             [node.root(), first, second]);
+        });
+    });
+
     describe("#insertChild", () => {
         it("should add the specified node to this node's children at the"
            + " specified index", () => {
@@ -248,6 +350,80 @@ describe("XmlDocument", () => {
         });
     });
 
+    describe("#toBuffer", () => {
+        let bytes = (buffer: Uint8Array): number[] => {
+            return Array.prototype.slice.call(buffer);
+        };
+
+        it("should encode the XML string representation of this node using"
+           + " the declared encoding", () => {
+            let node = new XmlDocument("r\u00e9");
+            node.root().text("\u00e9");
+            assert.deepEqual(bytes(node.toBuffer({pretty: false})),
+                             [0x3C, 0x72, 0xC3, 0xA9, 0x3E, 0xC3, 0xA9, 0x3C,
+                              0x2F, 0x72, 0xC3, 0xA9, 0x3E]);
+            assert.deepEqual(bytes(node.toBuffer({bom: true})).slice(0, 4),
+                             [0xEF, 0xBB, 0xBF, 0x3C]);
+
+            node = new XmlDocument("a");
+            let decl = node.decl({encoding: "utf-16le"});
+            let str = node.toString();
+            let buffer = bytes(node.toBuffer());
+            assert.strictEqual(buffer.length, str.length * 2);
+            assert.deepEqual(buffer.slice(0, 4), [0x3C, 0x00, 0x3F, 0x00]);
+
+            decl.encoding = "UTF-16";
+            buffer = bytes(node.toBuffer());
+            assert.deepEqual(buffer.slice(0, 4), [0xFE, 0xFF, 0x00, 0x3C]);
+            assert.throws(() => node.toBuffer({bom: false}));
+        });
+
+        it("should write a single byte order mark for a document that began"
+           + " with one when formatting is preserved", () => {
+            let node = new XmlDocument("a");
+            node.format = {bom: true, end: "", separators: []};
+            assert.strictEqual(node.toString({preserve: true}), "\uFEFF<a/>");
+            assert.deepEqual(bytes(node.toBuffer({preserve: true})),
+                             [0xEF, 0xBB, 0xBF, 0x3C, 0x61, 0x2F, 0x3E]);
+            assert.deepEqual(bytes(node.toBuffer({bom: false,
+                                                  preserve: true})),
+                             [0x3C, 0x61, 0x2F, 0x3E]);
+            assert.strictEqual(node.toString(), "<a/>");
+            assert.throws(() => node.format = <any> {bom: 1, end: "",
+                                                     separators: []});
+        });
+
+        it("should replace characters in text and attribute values that"
+           + " cannot be represented with character references", () => {
+            let node = new XmlDocument("a");
+            let decl = node.decl({encoding: "ISO-8859-1"});
+            node.root().attribute("b", "\u20ac\u00e9");
+            node.root().text("\ud83d\ude00\u00ff");
+            let options = {pretty: false};
+            let expected = "<?xml version='1.0' encoding='ISO-8859-1'?>"
+                           + "<a b='&#x20AC;\u00e9'>&#x1F600;\u00ff</a>";
+            assert.deepEqual(bytes(node.toBuffer(options)),
+                             expected.split("").map(c => c.charCodeAt(0)));
+
+            decl.encoding = "US-ASCII";
+            assert.include(String.fromCharCode.apply(
+                               undefined, bytes(node.toBuffer(options))),
+                           "<a b='&#x20AC;&#xE9;'>&#x1F600;&#xFF;</a>");
+        });
+
+        it("should throw an error if a character cannot be represented or the"
+           + " encoding is not supported", () => {
+            let node = new XmlDocument("\u00e9");
+            let decl = node.decl({encoding: "US-ASCII"});
+            assert.throws(() => node.toBuffer(), /U\+E9/);
+            decl.encoding = "Shift_JIS";
+            assert.throws(() => node.toBuffer(), /Shift_JIS/);
+            decl.encoding = "UTF-16BE";
+            assert.throws(() => node.toBuffer({bom: true}));
+            assert.throws(() => node.toBuffer(<any> {bom: "yes"}));
+        });
+    });
+
     describe("#toString", () => {
         it("should return a string containing the XML string representation"
            + " for this node", () => {
@@ -305,5 +481,42 @@ describe("XmlDocument", () => {
                                + " PUBLIC 'b' 'a'>\r\n<!--comment2-->"
                                + "\r\n<abc/>\r\n<!--comment1-->\r\n<?t c?>");
         });
+
+        it("should return a string that omits optional constructs when"
+           + " minifying", () => {
+            let node = new XmlDocument("abc");
+            let decl = node.decl();
+            node.procInst("xml-stylesheet", "href='a.xsl'", 1);
+            node.comment("comment", 2);
+            node.procInst("t", "c");
+            assert.strictEqual(node.toString({minify: {procInsts: ["t"]}}),
+                               "<?xml-stylesheet href='a.xsl'?><abc/>");
+            assert.strictEqual(node.toString({
+                                   minify: {comments: false, declaration: false}
+                               }),
+                               "<?xml version='1.0'?><?xml-stylesheet"
+                               + " href='a.xsl'?><!--comment--><abc/><?t c?>");
+
+            decl.encoding = "UTF-8";
+            assert.strictEqual(node.toString({minify: {}}),
+                               "<?xml version='1.0' encoding='UTF-8'?>"
+                               + "<?xml-stylesheet href='a.xsl'?><abc/>"
+                               + "<?t c?>");
+        });
+
+        it("should return a string that follows the rules of XML 1.1 if"
+           + " specified by the XML declaration", () => {
+            let node = new XmlDocument("abc");
+            assert.throws(() => node.root().text("\u0001"));
+
+            node.decl({version: "1.1"});
+            node.root().attribute("a", "\u0085");
+            node.root().text("\u0001\u2028");
+            node.root().charRef("\u0002", true);
+            assert.throws(() => node.root().comment("\u0080"));
+            assert.strictEqual(node.toString({pretty: false}),
+                               "<?xml version='1.1'?><abc a='&#x85;'>"
+                               + "&#x1;&#x2028;&#x2;</abc>");
+        });
     });
 });
@@ -43,6 +43,54 @@ describe("XmlDtd", () => {
         });
     });
 
+    describe("#format", () => {
+        let format = () => {
+            return {
+                beforeExternalId: "  ",
+                beforeName: " ",
+                beforePubId: "\n",
+                beforeSubset: "",
+                beforeSysId: " ",
+                end: " ",
+                pubIdQuote: "'",
+                separators: <any[]> [],
+                subsetEnd: "\n",
+                sysIdQuote: "\""
+            };
+        };
+
+        it("should set this node's formatting to the specified value and use"
+           + " it when formatting is preserved", () => {
+            let node = new XmlDtd("a", "b", "c");
+            assert.isUndefined(node.format);
+            let entity = node.entity("d 'e'");
+            node.format = format();
+            node.format.separators.push({node: entity, whitespace: "\t"});
+            assert.strictEqual(node.toString({preserve: true}),
+                               "<!DOCTYPE a  PUBLIC\n'c' \"b\"[\t"
+                               + "<!ENTITY d 'e'>\n] >");
+            node.sysId = "b\"";
+            assert.strictEqual(node.toString({preserve: true}),
+                               "<!DOCTYPE a  PUBLIC\n'c' 'b\"'[\t"
+                               + "<!ENTITY d 'e'>\n] >");
+        });
+
+        it("should throw an error if the specified value is not a valid"
+           + " DTD format", () => {
+            let node = new XmlDtd("a");
+            assert.throws(() => node.format = <any> "test");
+            let invalid: any = format();
+            invalid.end = "a";
+            assert.throws(() => node.format = invalid);
+            invalid = format();
+            invalid.sysIdQuote = "a";
+            assert.throws(() => node.format = invalid);
+            invalid = format();
+            invalid.separators = [{node: "a", whitespace: ""}];
+            assert.throws(() => node.format = invalid);
+        });
+    });
+
     describe("#name", () => {
         it("should return this node's name", () => {
             let node = new XmlDtd("abc");
@@ -162,6 +210,16 @@ describe("XmlDtd", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this DTD and its internal subset", () => {
+            let node = new XmlDtd("a", "b", "c");
+            node.element("a (#PCDATA)");
+            assert.strictEqual(node.clone().toString(), node.toString());
+            assert.strictEqual(node.clone(false).toString(),
+                               new XmlDtd("a", "b", "c").toString());
+        });
+    });
+
     describe("#comment", () => {
         it("should add an XmlComment node to this node's children at the"
            + " specified index with the specified text and return"
@@ -411,6 +469,27 @@ describe("XmlDtd", () => {
                                + "    <?test7 test8?>\n]>");
         });
 
+        it("should omit comments and processing instructions in the internal"
+           + " subset when minifying", () => {
+            let node = new XmlDtd("abc");
+            node.comment("test1");
+            node.element("test2");
+            node.procInst("test3", "test4");
+            node.procInst("test5");
+            assert.strictEqual(node.toString({minify: {procInsts: ["test3"]}}),
+                               "<!DOCTYPE abc [<!ELEMENT test2><?test5?>]>");
+            assert.strictEqual(node.toString({minify: {comments: false}}),
+                               "<!DOCTYPE abc [<!--test1--><!ELEMENT test2>"
+                               + "<?test3 test4?><?test5?>]>");
+
+            node = new XmlDtd("abc");
+            node.comment("test1");
+            node.procInst("test2");
+            assert.strictEqual(
+                node.toString({minify: {procInsts: ["test2"]}}),
+                "<!DOCTYPE abc>");
+        });
+
         it("should throw an error if the sysId or pubId are inconsistent"
            + " with the quotes option", () => {
             let node = new XmlDtd("abc", "'def'", "'ghi'");
@@ -26,6 +26,27 @@ describe("XmlDtdElement", () => {
            });
     });
 
+    describe("#format", () => {
+        it("should set this node's formatting to the specified value and use"
+           + " it when formatting is preserved", () => {
+            let node = new XmlDtdElement("a ANY");
+            assert.isUndefined(node.format);
+            node.format = {separator: "\n\t"};
+            assert.strictEqual(node.toString({preserve: true}),
+                               "<!ELEMENT\n\ta ANY>");
+            assert.strictEqual(node.toString(), "<!ELEMENT a ANY>");
+            assert.deepEqual(node.clone().format, {separator: "\n\t"});
+        });
+
+        it("should throw an error if the specified value is not a valid"
+           + " format", () => {
+            let node = new XmlDtdElement("a ANY");
+            assert.throws(() => node.format = <any> 3);
+            assert.throws(() => node.format = {separator: ""});
+            assert.throws(() => node.format = {separator: "a"});
+        });
+    });
+
     describe("#text", () => {
         it("should return this node's text", () => {
             let node = new XmlDtdElement("abc");
@@ -64,6 +85,19 @@ describe("XmlDtdElement", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this node that is not affected by changes"
+           + " to this node", () => {
+            let node = new XmlDtdElement("abc");
+            let copy = node.clone();
+            assert.notStrictEqual(copy, node);
+            assert.strictEqual(copy.toString(), node.toString());
+
+            node.text = "def";
+            assert.strictEqual(copy.text, "abc");
+        });
+    });
+
     describe("#insertChild", () => {
         it("should throw an error", () => {
             let node = new XmlDtdElement("a");
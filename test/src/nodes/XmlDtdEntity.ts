@@ -25,6 +25,27 @@ describe("XmlDtdEntity", () => {
         });
     });
 
+    describe("#format", () => {
+        it("should set this node's formatting to the specified value and use"
+           + " it when formatting is preserved", () => {
+            let node = new XmlDtdEntity("e \"v\"");
+            assert.isUndefined(node.format);
+            node.format = {separator: "\n\t"};
+            assert.strictEqual(node.toString({preserve: true}),
+                               "<!ENTITY\n\te \"v\">");
+            assert.strictEqual(node.toString(), "<!ENTITY e \"v\">");
+            assert.deepEqual(node.clone().format, {separator: "\n\t"});
+        });
+
+        it("should throw an error if the specified value is not a valid"
+           + " format", () => {
+            let node = new XmlDtdEntity("e \"v\"");
+            assert.throws(() => node.format = <any> 3);
+            assert.throws(() => node.format = {separator: ""});
+            assert.throws(() => node.format = {separator: "a"});
+        });
+    });
+
     describe("#text", () => {
         it("should return this node's text", () => {
             let node = new XmlDtdEntity("abc");
@@ -63,6 +84,19 @@ describe("XmlDtdEntity", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this node that is not affected by changes"
+           + " to this node", () => {
+            let node = new XmlDtdEntity("abc");
+            let copy = node.clone();
+            assert.notStrictEqual(copy, node);
+            assert.strictEqual(copy.toString(), node.toString());
+
+            node.text = "def";
+            assert.strictEqual(copy.text, "abc");
+        });
+    });
+
     describe("#insertChild", () => {
         it("should throw an error", () => {
             let node = new XmlDtdEntity("a");
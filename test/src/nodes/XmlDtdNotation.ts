@@ -26,6 +26,27 @@ describe("XmlDtdNotation", () => {
            });
     });
 
+    describe("#format", () => {
+        it("should set this node's formatting to the specified value and use"
+           + " it when formatting is preserved", () => {
+            let node = new XmlDtdNotation("n SYSTEM \"x\"");
+            assert.isUndefined(node.format);
+            node.format = {separator: "\n\t"};
+            assert.strictEqual(node.toString({preserve: true}),
+                               "<!NOTATION\n\tn SYSTEM \"x\">");
+            assert.strictEqual(node.toString(), "<!NOTATION n SYSTEM \"x\">");
+            assert.deepEqual(node.clone().format, {separator: "\n\t"});
+        });
+
+        it("should throw an error if the specified value is not a valid"
+           + " format", () => {
+            let node = new XmlDtdNotation("n SYSTEM \"x\"");
+            assert.throws(() => node.format = <any> 3);
+            assert.throws(() => node.format = {separator: ""});
+            assert.throws(() => node.format = {separator: "a"});
+        });
+    });
+
     describe("#text", () => {
         it("should return this node's text", () => {
             let node = new XmlDtdNotation("abc");
@@ -63,6 +84,19 @@ describe("XmlDtdNotation", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this node that is not affected by changes"
+           + " to this node", () => {
+            let node = new XmlDtdNotation("abc");
+            let copy = node.clone();
+            assert.notStrictEqual(copy, node);
+            assert.strictEqual(copy.toString(), node.toString());
+
+            node.text = "def";
+            assert.strictEqual(copy.text, "abc");
+        });
+    });
+
     describe("#insertChild", () => {
         it("should throw an error", () => {
             let node = new XmlDtdNotation("a");
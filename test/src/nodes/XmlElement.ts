@@ -19,6 +19,7 @@ import {
     XmlCdata,
     XmlCharRef,
     XmlComment,
+    XmlDocument,
     XmlElement,
     XmlEntityRef,
     XmlNode,
@@ -61,6 +62,100 @@ describe("XmlElement", () => {
             let node = new XmlElement("name");
             assert.throws(() => node.name = ".");
         });
+
+        it("should throw an error if the specified value contains a colon"
+           + " and this node is in a namespace", () => {
+            let node = new XmlElement({local: "name", ns: "urn:a"});
+            assert.throws(() => node.name = "a:b");
+        });
+    });
+
+    describe("#namespace", () => {
+        it("should return this node's namespace name", () => {
+            assert.isUndefined(new XmlElement("name").namespace);
+            let node = new XmlElement({local: "name", ns: "urn:a"});
+            assert.strictEqual(node.namespace, "urn:a");
+        });
+
+        it("should set this node's namespace name to the specified"
+           + " value", () => {
+            let node = new XmlElement("name");
+            node.namespace = "urn:a";
+            assert.strictEqual(node.namespace, "urn:a");
+            assert.strictEqual(node.toString(),
+                               "<ns1:name xmlns:ns1='urn:a'/>");
+        });
+
+        it("should throw an error if the specified value is invalid", () => {
+            let node = new XmlElement("a:b");
+            assert.throws(() => node.namespace = "urn:a");
+            node = new XmlElement({local: "a", ns: "urn:a", prefix: "p"});
+            assert.throws(() => node.namespace = <any> 0);
+            assert.throws(() => node.namespace = "");
+            assert.throws(() => node.namespace = undefined);
+            assert.throws(() => node.namespace
+                                    = "http://www.w3.org/2000/xmlns/");
+        });
+    });
+
+    describe("#prefix", () => {
+        it("should set this node's preferred prefix to the specified"
+           + " value", () => {
+            let node = new XmlElement({local: "a", ns: "urn:a"});
+            assert.isUndefined(node.prefix);
+            node.prefix = "p";
+            assert.strictEqual(node.prefix, "p");
+            assert.strictEqual(node.toString(), "<p:a xmlns:p='urn:a'/>");
+            node.prefix = "";
+            assert.strictEqual(node.toString(), "<a xmlns='urn:a'/>");
+        });
+
+        it("should throw an error if the specified value is invalid", () => {
+            assert.throws(() => new XmlElement("a").prefix = "p");
+            let node = new XmlElement({local: "a", ns: "urn:a"});
+            assert.throws(() => node.prefix = <any> 0);
+            assert.throws(() => node.prefix = "a:b");
+            assert.throws(() => node.prefix = "xml");
+            assert.throws(() => node.prefix = "xmlns");
+        });
+    });
+
+    describe("#format", () => {
+        it("should set this node's formatting to the specified value and use"
+           + " it when formatting is preserved", () => {
+            let node = new XmlElement("abc");
+            assert.isUndefined(node.format);
+            node.attribute("a", "b").format = {before: "\n  ", equals: "=",
+                                               quote: "\""};
+            node.format = {endTagEnd: " ", selfClosing: false,
+                           startTagEnd: "\n"};
+            assert.strictEqual(node.toString({preserve: true}),
+                               "<abc\n  a=\"b\"\n></abc >");
+            node.format = {endTagEnd: "", selfClosing: true,
+                           startTagEnd: " "};
+            assert.strictEqual(node.toString({preserve: true}),
+                               "<abc\n  a=\"b\" />");
+            node.element("def");
+            assert.strictEqual(node.toString({preserve: true}),
+                               "<abc\n  a=\"b\" ><def/></abc>");
+            assert.strictEqual(node.toString(),
+                               "<abc a='b'>\n    <def/>\n</abc>");
+        });
+
+        it("should throw an error if the specified value is not a valid"
+           + " element format", () => {
+            let node = new XmlElement("abc");
+            assert.throws(() => node.format = <any> "test");
+            assert.throws(() => node.format = {endTagEnd: "",
+                                               selfClosing: <any> "a",
+                                               startTagEnd: ""});
+            assert.throws(() => node.format = {endTagEnd: "a",
+                                               selfClosing: true,
+                                               startTagEnd: ""});
+            assert.throws(() => node.format = {endTagEnd: "",
+                                               selfClosing: true,
+                                               startTagEnd: "a"});
+        });
     });
 
     describe("#attribute", () => {
@@ -123,6 +218,61 @@ describe("XmlElement", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this element and its descendants that"
+           + " has no parent", () => {
+            let parent = new XmlElement("parent");
+            let node = parent.element({local: "b", ns: "http://a"});
+            node.attribute("c", "d");
+            node.element("e").text("f");
+            node.location = {column: 1, endOffset: 10, line: 2, offset: 5};
+
+            let copy = node.clone();
+            assert.isUndefined(copy.parent);
+            assert.strictEqual(parent.children().length, 1);
+            assert.strictEqual(copy.namespace, "http://a");
+            assert.deepEqual(copy.location, node.location);
+            assert.strictEqual(copy.toString({pretty: false}),
+                               node.toString({pretty: false}));
+
+            (<XmlElement> copy.children()[1]).name = "g";
+            assert.strictEqual((<XmlElement> node.children()[1]).name, "e");
+        });
+
+        it("should only copy the attributes of this element if deep is"
+           + " false", () => {
+            let node = new XmlElement("a");
+            node.attribute("b", "c");
+            node.element("d").text("e");
+            assert.strictEqual(node.clone(false).toString(), "<a b='c'/>");
+        });
+
+        it("should copy the format of this element instead of sharing"
+           + " it", () => {
+            let node = new XmlElement("a");
+            node.format = {endTagEnd: "", selfClosing: true, startTagEnd: " "};
+            let copy = node.clone();
+            assert.deepEqual(copy.format, node.format);
+            assert.notStrictEqual(copy.format, node.format);
+        });
+    });
+
+    describe("#closest", () => {
+        it("should return this element or the nearest ancestor that matches"
+           + " the specified selector", () => {
+            let node = new XmlElement("a");
+            node.attribute("id", "1");
+            let child = node.element("b");
+            let inner = child.element("a");
+            let text = inner.text("c");
+            assert.strictEqual(text.closest("a"), inner);
+            assert.strictEqual(text.closest("b"), child);
+            assert.strictEqual(text.closest({attributes: {id: true}}), node);
+            assert.strictEqual(node.closest("a"), node);
+            assert.isUndefined(child.closest("c"));
+        });
+    });
+
     describe("#comment", () => {
         it("should add an XmlComment node to this node's children at the"
            + " specified index with the specified text and return"
@@ -149,6 +299,16 @@ describe("XmlElement", () => {
                                "<abc>\n    <test2/>\n    <test3/>\n"
                                + "    <test/>\n</abc>");
         });
+
+        it("should add an XmlElement node in the specified namespace", () => {
+            let node = new XmlElement("abc");
+            let child = node.element({local: "b", ns: "urn:b", prefix: "x"});
+            assert.strictEqual(child.name, "b");
+            assert.strictEqual(child.namespace, "urn:b");
+            assert.strictEqual(child.prefix, "x");
+            assert.throws(() => node.element({local: "a:b", ns: "urn:b"}));
+            assert.throws(() => node.element(<any> {ns: "urn:b"}));
+        });
     });
 
     describe("#entityRef", () => {
@@ -163,6 +323,98 @@ describe("XmlElement", () => {
         });
     });
 
+    describe("#find", () => {
+        it("should return the first descendant in document order that"
+           + " matches the specified selector", () => {
+            let node = new XmlElement("a");
+            let first = node.element("b");
+            let nested = first.element("c");
+            let second = node.element("c");
+            assert.strictEqual(node.find("c"), nested);
+            assert.strictEqual(node.find(e => e !== nested && e.name === "c"),
+                               second);
+            assert.isUndefined(node.find("a"));
+            assert.isUndefined(node.find("d"));
+        });
+
+        it("should throw an error if the selector is invalid", () => {
+            let node = new XmlElement("a");
+            assert.throws(() => node.find(<any> 1));
+            assert.throws(() => node.find(<any> {name: 1}));
+            assert.throws(() => node.find(<any> {predicate: "a"}));
+            assert.throws(() => node.find(<any> {attributes: "a"}));
+            assert.throws(() => node.find(<any> {attributes: {a: 1}}));
+        });
+    });
+
+    describe("#findAll", () => {
+        it("should return the descendants in document order that match the"
+           + " specified selector", () => {
+            let node = new XmlElement("a");
+            let first = node.element("b");
+            first.attribute("type", "x");
+            let nested = first.element("b");
+            nested.attribute("type", ["y", new XmlCharRef("z")]);
+            let second = node.element("b");
+
+            assert.deepEqual(node.findAll("b"), [first, nested, second]);
+            assert.deepEqual(node.findAll({attributes: {type: true}}),
+                             [first, nested]);
+            assert.deepEqual(node.findAll({attributes: {type: false}}),
+                             [second]);
+            assert.deepEqual(node.findAll({attributes: {type: "yz"}}),
+                             [nested]);
+            assert.deepEqual(node.findAll({
+                name: "b",
+                predicate: e => e.attributes().length === 1
+            }), [first, nested]);
+            assert.deepEqual(node.findAll("c"), []);
+        });
+    });
+
+    describe("#fragment", () => {
+        it("should parse the specified XML fragment, add the resulting nodes"
+           + " to this node's children at the specified index, and return"
+           + " the newly added nodes", () => {
+            let node = new XmlElement("abc");
+            node.text("test");
+            let nodes = node.fragment("<b>hi</b> &amp; <i>there</i>");
+            assert.strictEqual(nodes.length, 3);
+            assert.isTrue(nodes[0] instanceof XmlElement);
+            assert.isTrue(nodes[1] instanceof XmlText);
+            assert.isTrue(nodes[2] instanceof XmlElement);
+            assert.strictEqual(nodes[0].parent, node);
+            nodes = node.fragment("<!--c-->&#97;", 0);
+            assert.strictEqual(nodes.length, 2);
+            assert.strictEqual(node.toString({pretty: false}),
+                               "<abc><!--c-->&#97;test<b>hi</b> &amp;"
+                               + " <i>there</i></abc>");
+        });
+
+        it("should parse the specified XML fragment using the rules of the"
+           + " version of XML of the document", () => {
+            let document = new XmlDocument("abc");
+            document.decl({version: "1.1"});
+            let nodes = document.root().fragment("&#1;<b>\u0080</b>");
+            assert.strictEqual(nodes.length, 2);
+            assert.strictEqual(document.root().toString({pretty: false}),
+                               "<abc>&#1;<b>&#x80;</b></abc>");
+
+            let node = new XmlElement("abc");
+            assert.throws(() => node.fragment("&#1;"));
+            assert.strictEqual(node.children().length, 0);
+        });
+
+        it("should throw an error and leave this node unchanged if the"
+           + " specified XML fragment is not well-formed", () => {
+            let node = new XmlElement("abc");
+            assert.throws(() => node.fragment("<b>hi</i>"));
+            assert.throws(() => node.fragment("<b>hi"));
+            assert.throws(() => node.fragment("hi</b>"));
+            assert.strictEqual(node.children().length, 0);
+        });
+    });
+
     describe("#insertChild", () => {
         it("should throw an error if the specified node is not an"
            + " XmlAttribute, XmlCdata, XmlCharRef, XmlComment,"
@@ -181,6 +433,33 @@ describe("XmlElement", () => {
             assert.throws(() => node.insertChild(
                 new XmlAttribute("test2", new XmlText("test5"))));
         });
+
+        it("should compare the namespace and local name of XmlAttribute"
+           + " nodes in a namespace", () => {
+            let node = new XmlElement("name");
+            node.attribute("href", "a");
+            node.attribute({local: "href", ns: "http://xlink"}, "b");
+            node.attribute({local: "id", ns: "urn:a"}, "c");
+            node.attribute({local: "id", ns: "urn:b"}, "d");
+            assert.strictEqual(node.attributes().length, 4);
+            assert.throws(() => node.attribute({local: "id", ns: "urn:a"},
+                                               "e"),
+                          /with name id in namespace urn:a/);
+            assert.throws(() => node.attribute("href", "f"));
+        });
+    });
+
+    describe("#matches", () => {
+        it("should return whether this element matches the specified"
+           + " selector", () => {
+            let node = new XmlElement({local: "a", ns: "http://a"});
+            node.attribute("b", "c");
+            assert.isTrue(node.matches("a"));
+            assert.isTrue(node.matches({attributes: {b: "c"}, name: "a"}));
+            assert.isFalse(node.matches({attributes: {b: "d"}}));
+            assert.isFalse(node.matches(e => e.namespace !== "http://a"));
+            assert.throws(() => node.matches(<any> undefined));
+        });
     });
 
     describe("#procInst", () => {
@@ -203,6 +482,37 @@ describe("XmlElement", () => {
         });
     });
 
+    describe("#sortAttributes", () => {
+        it("should reorder the attributes of this node in place", () => {
+            let node = new XmlElement("abc");
+            node.attribute("c", "1");
+            node.comment("d");
+            node.attribute("xmlns:p", "u");
+            node.attribute("b", "2");
+            node.attribute("xmlns", "v");
+            let children = node.children();
+            assert.strictEqual(node.sortAttributes(), node);
+            assert.deepEqual(node.attributes().map(a => a.name),
+                             ["b", "c", "xmlns", "xmlns:p"]);
+            assert.strictEqual(node.children()[1], children[1]);
+            node.sortAttributes("namespace-declarations-first");
+            assert.deepEqual(node.attributes().map(a => a.name),
+                             ["xmlns", "xmlns:p", "b", "c"]);
+            node.sortAttributes((a, b) => b.name.length - a.name.length);
+            assert.deepEqual(node.attributes().map(a => a.name),
+                             ["xmlns:p", "xmlns", "b", "c"]);
+            node.sortAttributes("insertion");
+            assert.deepEqual(node.attributes().map(a => a.name),
+                             ["xmlns:p", "xmlns", "b", "c"]);
+            assert.strictEqual(node.attributes()[0].parent, node);
+        });
+
+        it("should throw an error if the specified order is invalid", () => {
+            let node = new XmlElement("abc");
+            assert.throws(() => node.sortAttributes(<any> "reverse"));
+        });
+    });
+
     describe("#text", () => {
         it("should add an XmlText node to this node's children at the"
            + " specified index with the specified text and return the"
@@ -411,5 +721,295 @@ describe("XmlElement", () => {
                                + "        <!--f-->\n    </test10>\n"
                                + "    <?g h?>\n    &i;&#106;\n</test9>");
         });
+
+        it("should return a string that orders attributes depending on the"
+           + " specified options", () => {
+            let node = new XmlElement("a");
+            node.attribute("z", "1");
+            node.attribute("xmlns:p", "u");
+            node.attribute("b", "2");
+            node.attribute("xmlns", "v");
+            assert.strictEqual(node.toString(),
+                               "<a z='1' xmlns:p='u' b='2' xmlns='v'/>");
+            assert.strictEqual(node.toString({attributeOrder: "alphabetical"}),
+                               "<a b='2' xmlns='v' xmlns:p='u' z='1'/>");
+            assert.strictEqual(node.toString({
+                                   attributeOrder:
+                                       "namespace-declarations-first"
+                               }),
+                               "<a xmlns='v' xmlns:p='u' b='2' z='1'/>");
+            assert.strictEqual(node.toString({
+                                   attributeOrder: (x, y) => x.name.length
+                                                            - y.name.length
+                               }),
+                               "<a z='1' b='2' xmlns='v' xmlns:p='u'/>");
+            assert.deepEqual(node.attributes().map(a => a.name),
+                             ["z", "xmlns:p", "b", "xmlns"]);
+        });
+
+        it("should return a string that places attributes on their own lines"
+           + " depending on the specified options", () => {
+            let node = new XmlElement("a");
+            let child = node.element("bb");
+            child.attribute("c", "1");
+            child.attribute("d", "2");
+            child.attribute("e", "3");
+            child.text("f");
+            node.element("g").attribute("h", "4");
+            assert.strictEqual(node.toString({attributeLayout: {}}),
+                               "<a>\n    <bb c='1' d='2' e='3'>f</bb>\n"
+                               + "    <g h='4'/>\n</a>");
+            assert.strictEqual(node.toString({
+                                   attributeLayout: {maxAttributes: 2}
+                               }),
+                               "<a>\n    <bb c='1'\n        d='2'\n"
+                               + "        e='3'>f</bb>\n    <g h='4'/>\n</a>");
+            assert.strictEqual(node.toString({
+                                   attributeLayout: {
+                                       bracketOnNewLine: true,
+                                       continuation: "indent",
+                                       maxWidth: 14
+                                   }
+                               }),
+                               "<a>\n    <bb\n        c='1'\n        d='2'\n"
+                               + "        e='3'\n    >f</bb>\n"
+                               + "    <g h='4'/>\n</a>");
+            let layout = {continuation: <"indent"> "indent", maxWidth: 10};
+            assert.strictEqual(node.toString({attributeLayout: layout}),
+                               "<a>\n    <bb\n        c='1'\n        d='2'\n"
+                               + "        e='3'>f</bb>\n"
+                               + "    <g\n        h='4'/>\n</a>");
+            assert.strictEqual(node.children()[1].toString({
+                                   attributeLayout: layout
+                               }),
+                               "<g h='4'/>");
+            assert.strictEqual(node.toString({
+                                   attributeLayout: {maxWidth: 9}
+                               }),
+                               "<a>\n    <bb c='1'\n        d='2'\n"
+                               + "        e='3'>f</bb>\n    <g h='4'/>\n</a>");
+            assert.strictEqual(node.toString({
+                                   attributeLayout: {maxAttributes: 0},
+                                   pretty: false
+                               }),
+                               "<a><bb c='1' d='2' e='3'>f</bb><g h='4'/></a>");
+        });
+
+        it("should return a string that writes empty elements depending on"
+           + " the specified options", () => {
+            let node = new XmlElement("a");
+            node.element("script").attribute("src", "b");
+            node.element("br");
+            node.element("div").text("");
+            assert.strictEqual(node.toString({pretty: false}),
+                               "<a><script src='b'/><br/><div></div></a>");
+            assert.strictEqual(node.toString({
+                                   emptyElements: {
+                                       overrides: ["br"],
+                                       policy: "expand"
+                                   },
+                                   pretty: false
+                               }),
+                               "<a><script src='b'></script><br/><div></div>"
+                               + "</a>");
+            assert.strictEqual(node.toString({
+                                   emptyElements: {
+                                       overrides: name => name === "script",
+                                       spaceBeforeSlash: true
+                                   }
+                               }),
+                               "<a>\n    <script src='b'></script>\n"
+                               + "    <br />\n    <div></div>\n</a>");
+        });
+
+        it("should return a string that does not add whitespace to elements"
+           + " in which whitespace is significant", () => {
+            let node = new XmlElement("a");
+            let pre = node.element("pre");
+            pre.text("x\n  y");
+            pre.element("b").text("c");
+            pre.text("\n");
+            let doc = node.element("doc");
+            doc.attribute("xml:space", "preserve");
+            doc.element("p").element("q");
+            let def = doc.element("d");
+            def.attribute("xml:space", "default");
+            def.element("e");
+            def.element("f");
+            assert.strictEqual(node.toString({whitespaceSensitive: ["pre"]}),
+                               "<a>\n    <pre>x\n  y<b>c</b>\n</pre>\n"
+                               + "    <doc xml:space='preserve'><p><q/></p>"
+                               + "<d xml:space='default'>\n    <e/>\n"
+                               + "    <f/>\n</d></doc>\n</a>");
+            assert.strictEqual(node.toString(),
+                               "<a>\n    <pre>\n        x\n          y\n"
+                               + "        <b>c</b>\n        \n        \n"
+                               + "    </pre>\n"
+                               + "    <doc xml:space='preserve'><p><q/></p>"
+                               + "<d xml:space='default'>\n    <e/>\n"
+                               + "    <f/>\n</d></doc>\n</a>");
+            assert.strictEqual(def.toString(), "<d xml:space='default'>\n"
+                                               + "    <e/>\n    <f/>\n</d>");
+            assert.strictEqual(doc.element("g").toString({pretty: false}),
+                               "<g/>");
+        });
+
+        it("should return a string that does not add whitespace to elements"
+           + " with an xml:space attribute created with a qualified"
+           + " name", () => {
+            let node = new XmlElement("a");
+            node.attribute({
+                local: "space",
+                ns: "http://www.w3.org/XML/1998/namespace",
+                prefix: "xml"
+            }, "preserve");
+            node.element("b").element("c");
+            node.text(" ");
+            assert.strictEqual(node.toString(),
+                               "<a xml:space='preserve'><b><c/></b> </a>");
+            assert.strictEqual(node.toString({minify: {}}),
+                               "<a xml:space='preserve'><b><c/></b> </a>");
+        });
+
+        it("should return a string that keeps inline elements and mixed"
+           + " content on the same line depending on the specified options",
+           () => {
+            let node = new XmlElement("section");
+            let p = node.element("p");
+            p.text("Hello ");
+            p.element("b").text("world");
+            p.text("!");
+            let list = node.element("list");
+            list.text(" ");
+            list.element("item").element("em").text("a");
+            list.comment("b");
+            assert.strictEqual(node.toString(),
+                               "<section>\n    <p>\n        Hello \n"
+                               + "        <b>world</b>\n        !\n"
+                               + "    </p>\n    <list>\n         \n"
+                               + "        <item>\n            <em>a</em>\n"
+                               + "        </item>\n        <!--b-->\n"
+                               + "    </list>\n</section>");
+            assert.strictEqual(node.toString({inlineElements: ["b", "em"]}),
+                               "<section>\n    <p>Hello <b>world</b>!</p>\n"
+                               + "    <list>\n         \n"
+                               + "        <item><em>a</em></item>\n"
+                               + "        <!--b-->\n    </list>\n</section>");
+            assert.strictEqual(node.toString({mixedContent: true}),
+                               "<section>\n    <p>Hello <b>world</b>!</p>\n"
+                               + "    <list>\n         \n"
+                               + "        <item>\n            <em>a</em>\n"
+                               + "        </item>\n        <!--b-->\n"
+                               + "    </list>\n</section>");
+            assert.strictEqual(node.toString({
+                                   inlineElements: name => name === "item"
+                               }),
+                               "<section>\n    <p>\n        Hello \n"
+                               + "        <b>world</b>\n        !\n"
+                               + "    </p>\n    <list>\n         <item>\n"
+                               + "        <em>a</em>\n    </item>\n"
+                               + "        <!--b-->\n    </list>\n</section>");
+        });
+
+        it("should return a string that omits insignificant whitespace and"
+           + " optional constructs when minifying", () => {
+            let node = new XmlElement("a");
+            node.text("\n  ");
+            node.comment("c");
+            node.procInst("keep", "1");
+            node.procInst("drop", "2");
+            let b = node.element("b");
+            b.attribute("x", "it's");
+            b.attribute("y", "\"'\"");
+            b.text("  ");
+            b.comment("d");
+            let pre = node.element("pre");
+            pre.text(" ");
+            let space = node.element("s");
+            space.attribute("xml:space", "preserve");
+            space.text("\t");
+            node.text(" text ");
+            assert.strictEqual(node.toString({
+                                   minify: {procInsts: ["drop"]},
+                                   whitespaceSensitive: ["pre"]
+                               }),
+                               "<a><?keep 1?><b x=\"it's\""
+                               + " y='\"&apos;\"'/><pre> </pre>"
+                               + "<s xml:space='preserve'>\t</s> text </a>");
+            assert.strictEqual(node.toString({
+                                   minify: {
+                                       comments: false,
+                                       procInsts: target => target !== "keep",
+                                       quotes: false,
+                                       whitespace: false
+                                   }
+                               }),
+                               "<a>\n  <!--c--><?keep 1?><b x='it&apos;s'"
+                               + " y='\"&apos;\"'>  <!--d--></b><pre> </pre>"
+                               + "<s xml:space='preserve'>\t</s> text </a>");
+            assert.strictEqual(b.toString({minify: {}, pretty: true}),
+                               "<b x=\"it's\" y='\"&apos;\"'/>");
+        });
+
+        it("should return a string that declares the namespaces of this node"
+           + " and its descendants", () => {
+            let svg = "http://www.w3.org/2000/svg";
+            let xlink = "http://www.w3.org/1999/xlink";
+            let node = new XmlElement({local: "svg", ns: svg, prefix: ""});
+            let rect = node.element({local: "rect", ns: svg});
+            rect.attribute({local: "href", ns: xlink, prefix: "xlink"}, "#a");
+            node.element({local: "g", ns: "urn:g"})
+                .element({local: "g", ns: "urn:g"});
+            assert.strictEqual(node.toString(),
+                               "<svg xmlns='" + svg + "' xmlns:xlink='"
+                               + xlink + "' xmlns:ns1='urn:g'>\n"
+                               + "    <rect xlink:href='#a'/>\n"
+                               + "    <ns1:g>\n"
+                               + "        <ns1:g/>\n"
+                               + "    </ns1:g>\n"
+                               + "</svg>");
+            assert.strictEqual(rect.toString(),
+                               "<ns1:rect xmlns:ns1='" + svg + "' xmlns:xlink='"
+                               + xlink + "' xlink:href='#a'/>");
+        });
+
+        it("should return a string that reuses the namespaces declared by"
+           + " attributes", () => {
+            let node = new XmlElement("root");
+            node.attribute("xmlns:p", "urn:a");
+            let child = node.element({local: "b", ns: "urn:a", prefix: "q"});
+            child.attribute("xmlns:q", "urn:other");
+            child.attribute({local: "c", ns: "urn:a"}, "d");
+            child.element({local: "e", ns: "urn:other", prefix: "q"});
+            assert.strictEqual(node.toString({pretty: false}),
+                               "<root xmlns:p='urn:a'><p:b xmlns:q='urn:other'"
+                               + " p:c='d'><q:e/></p:b></root>");
+
+            child.attribute("xmlns:p", "urn:other");
+            assert.strictEqual(child.toString({pretty: false}),
+                               "<ns1:b xmlns:ns1='urn:a' xmlns:q='urn:other'"
+                               + " ns1:c='d' xmlns:p='urn:other'><q:e/>"
+                               + "</ns1:b>");
+        });
+
+        it("should return a string that undeclares the default namespace for"
+           + " children that are not in a namespace", () => {
+            let node = new XmlElement({local: "root", ns: "urn:x", prefix: ""});
+            node.element("plain").element("nested");
+            node.element({local: "a", ns: "urn:x"}).element("plain");
+            let own = node.element("own");
+            own.attribute("xmlns", "urn:y");
+            own.element("inner");
+            assert.strictEqual(node.toString({pretty: false}),
+                               "<root xmlns='urn:x'><plain xmlns=''><nested/>"
+                               + "</plain><a><plain xmlns=''/></a>"
+                               + "<own xmlns='urn:y'><inner/></own></root>");
+
+            let parsed = new XmlElement("root");
+            parsed.attribute("xmlns", "urn:x");
+            parsed.element("plain");
+            assert.strictEqual(parsed.toString({pretty: false}),
+                               "<root xmlns='urn:x'><plain/></root>");
+        });
     });
 });
@@ -14,10 +14,87 @@
  * limitations under the License.
  */
 
-import XmlNode from "../../../lib/nodes/XmlNode";
+import {XmlDocument} from "../../../lib/main";
+import XmlNode, {setRecordCallSites} from "../../../lib/nodes/XmlNode";
 import {assert} from "chai";
 
 describe("XmlNode", () => {
+    describe("#callSite", () => {
+        it("should return undefined if call sites are not recorded", () => {
+            let node = new XmlNode();
+            assert.isUndefined(node.callSite);
+        });
+
+        it("should return the stack trace captured when this node was"
+           + " created if call sites are recorded", () => {
+            setRecordCallSites(true);
+            let node: XmlNode;
+            try {
+                node = new XmlNode();
+            } finally {
+                setRecordCallSites(false);
+            }
+            assert.isString(node.callSite);
+            assert.match(<string> node.callSite, /^\s+at /);
+            assert.include(<string> node.callSite, "XmlNode");
+            assert.isUndefined(new XmlNode().callSite);
+        });
+
+        it("should omit the frames inside this library from the stack"
+           + " trace", () => {
+            setRecordCallSites(true);
+            let document: XmlDocument;
+            try {
+                document = new XmlDocument("a");
+                document.root().element("b");
+            } finally {
+                setRecordCallSites(false);
+            }
+            let testFile = /test[\/\\]lib[\/\\]nodes[\/\\]XmlNode\.js:/;
+            for (let node of [document, document.root(),
+                              document.root().children()[0]])
+            {
+                let frames = (<string> node.callSite).split("\n");
+                assert.match(frames[0], testFile);
+            }
+        });
+
+        it("should throw an error if call site recording is enabled or"
+           + " disabled using a value that is not a boolean", () => {
+            assert.throws(() => setRecordCallSites(<any> "true"));
+        });
+    });
+
+    describe("#location", () => {
+        it("should return undefined if no location was recorded", () => {
+            let node = new XmlNode();
+            assert.isUndefined(node.location);
+        });
+
+        it("should set this node's location to the specified value", () => {
+            let node = new XmlNode();
+            node.location = {column: 3, endOffset: 12, line: 2, offset: 10};
+            assert.deepEqual(node.location,
+                             {column: 3, endOffset: 12, line: 2, offset: 10});
+            node.location = undefined;
+            assert.isUndefined(node.location);
+        });
+
+        it("should throw an error if the specified value is not a valid"
+           + " location", () => {
+            let node = new XmlNode();
+            assert.throws(() => node.location = <any> "test");
+            assert.throws(() => node.location = {column: 0, endOffset: 0,
+                                                 line: 1, offset: 0});
+            assert.throws(() => node.location = {column: 1, endOffset: 0,
+                                                 line: 1.5, offset: 0});
+            assert.throws(() => node.location = {column: 1, endOffset: 0,
+                                                 line: 1, offset: -1});
+            assert.throws(() => node.location = {column: 1, endOffset: 1,
+                                                 line: 1, offset: 2});
+        });
+    });
+
     describe("#parent", () => {
         it("should return undefined if this node has no parent", () => {
             let node = new XmlNode();
@@ -57,6 +134,23 @@ describe("XmlNode", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should throw an error", () => {
+            let node = new XmlNode();
+            assert.throws(() => node.clone());
+        });
+    });
+
+    describe("#closest", () => {
+        it("should return undefined if neither this node nor its ancestors"
+           + " are elements", () => {
+            let parentNode = new XmlNode();
+            let childNode = new XmlNode();
+            parentNode.insertChild(childNode);
+            assert.isUndefined(childNode.closest(() => true));
+        });
+    });
+
     describe("#insertChild", () => {
         it("should throw an error if the specified node is not an"
            + " XmlNode", () => {
@@ -148,6 +242,13 @@ describe("XmlNode", () => {
         });
     });
 
+    describe("#matches", () => {
+        it("should return false", () => {
+            let node = new XmlNode();
+            assert.isFalse(node.matches(() => true));
+        });
+    });
+
     describe("#next", () => {
         it("should return undefined if this node has no parent", () => {
             let node = new XmlNode();
@@ -108,6 +108,29 @@ describe("XmlProcInst", () => {
         });
     });
 
+    describe("#format", () => {
+        it("should set this node's formatting to the specified value and use"
+           + " it when formatting is preserved", () => {
+            let node = new XmlProcInst("target", "content");
+            assert.isUndefined(node.format);
+            node.format = {separator: "\n\t"};
+            assert.strictEqual(node.toString({preserve: true}),
+                               "<?target\n\tcontent?>");
+            assert.strictEqual(node.toString(), "<?target content?>");
+            assert.deepEqual(node.clone().format, {separator: "\n\t"});
+            node.content = undefined;
+            assert.strictEqual(node.toString({preserve: true}), "<?target?>");
+        });
+
+        it("should throw an error if the specified value is not a valid"
+           + " format", () => {
+            let node = new XmlProcInst("target");
+            assert.throws(() => node.format = <any> 3);
+            assert.throws(() => node.format = {separator: ""});
+            assert.throws(() => node.format = {separator: "a"});
+        });
+    });
+
     describe("#children", () => {
         it("should throw an error", () => {
             let node = new XmlProcInst("a");
@@ -115,6 +138,19 @@ describe("XmlProcInst", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this node that is not affected by changes"
+           + " to this node", () => {
+            let node = new XmlProcInst("target", "content");
+            let copy = node.clone();
+            assert.notStrictEqual(copy, node);
+            assert.strictEqual(copy.toString(), node.toString());
+
+            node.content = "other";
+            assert.strictEqual(copy.content, "content");
+        });
+    });
+
     describe("#insertChild", () => {
         it("should throw an error", () => {
             let node = new XmlProcInst("a");
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import {XmlText} from "../../../lib/main";
+import {XmlElement, XmlText} from "../../../lib/main";
 import {assert} from "chai";
 
 describe("XmlText", () => {
@@ -62,6 +62,19 @@ describe("XmlText", () => {
         });
     });
 
+    describe("#clone", () => {
+        it("should return a copy of this node that is not affected by changes"
+           + " to this node", () => {
+            let node = new XmlText("abc");
+            let copy = node.clone();
+            assert.notStrictEqual(copy, node);
+            assert.strictEqual(copy.toString(), node.toString());
+
+            node.text = "def";
+            assert.strictEqual(copy.text, "abc");
+        });
+    });
+
     describe("#insertChild", () => {
         it("should throw an error", () => {
             let node = new XmlText("a");
@@ -95,5 +108,35 @@ describe("XmlText", () => {
             assert.strictEqual(node.toString(),
                                "&lt;&amp;a&amp;b&lt;c&amp;&lt;");
         });
+
+        it("should return a string escaped as specified by the escaping"
+           + " options", () => {
+            let node = new XmlText("a]]>b>\t\u00e9");
+            assert.strictEqual(node.toString(), "a]]&gt;b>\t\u00e9");
+            assert.strictEqual(node.toString({
+                                   escaping: {
+                                       attributeWhitespace: true,
+                                       greaterThan: "always",
+                                       maxCodePoint: 0x7F
+                                   }
+                               }),
+                               "a]]&gt;b&gt;\t&#xE9;");
+            assert.throws(() => node.toString(<any> {escaping: 1}));
+        });
+
+        it("should escape the string ']]>' formed with the preceding text"
+           + " nodes", () => {
+            let element = new XmlElement("r");
+            element.text("a]]");
+            element.text(">b");
+            element.text("a]");
+            element.comment("c");
+            element.text("]");
+            element.text("]>b");
+            assert.strictEqual(element.toString({pretty: false}),
+                               "<r>a]]&gt;ba]<!--c-->]]&gt;b</r>");
+            assert.strictEqual(element.toString({minify: {}}),
+                               "<r>a]]&gt;ba]]]&gt;b</r>");
+        });
     });
 });
@@ -14,14 +14,120 @@
  * limitations under the License.
  */
 
+import {XmlAttribute, XmlText} from "../../lib/main";
 import {
+    AttributeLayoutOptions,
+    AttributeOrder,
+    BufferOptions,
+    CanonicalOptions,
     DeclarationOptions,
+    EmptyElementOptions,
+    EscapingOptions,
     IDeclarationOptions,
+    IVisitor,
+    MinifyOptions,
+    NamespaceOptions,
+    ParseOptions,
     StringOptions
 } from "../../lib/options";
 import {assert} from "chai";
 
 describe("options", () => {
+    describe("#AttributeLayoutOptions", () => {
+        it("should return the specified options object if all options are" +
+           " specified and valid", () => {
+            const options = {
+                bracketOnNewLine: true,
+                continuation: <"indent"> "indent",
+                maxAttributes: 3,
+                maxWidth: 100
+            };
+            assert.deepEqual(new AttributeLayoutOptions(options), options);
+        });
+
+        it("should throw an error if the specified options object contains" +
+           " invalid options", () => {
+            assert.throws(() => new AttributeLayoutOptions(<any> "test"));
+            assert.throws(() => new AttributeLayoutOptions(
+                <any> {bracketOnNewLine: 1}));
+            assert.throws(() => new AttributeLayoutOptions(
+                <any> {continuation: "tab"}));
+            assert.throws(() => new AttributeLayoutOptions(
+                {maxAttributes: 1.5}));
+            assert.throws(() => new AttributeLayoutOptions(
+                {maxAttributes: -1}));
+            assert.throws(() => new AttributeLayoutOptions(
+                <any> {maxWidth: "80"}));
+            assert.throws(() => new AttributeLayoutOptions({maxWidth: 0}));
+        });
+
+        it("should return a validated version of the specified options with" +
+           " undefined values replaced with appropriate defaults if not all" +
+           " options are specified", () => {
+            assert.deepEqual(new AttributeLayoutOptions(), {
+                bracketOnNewLine: false,
+                continuation: "align"
+            });
+        });
+    });
+
+    describe("#BufferOptions", () => {
+        it("should return a validated version of the specified options",
+           () => {
+            const options = new BufferOptions({bom: true, pretty: false});
+            assert.isTrue(options.bom);
+            assert.isFalse(options.pretty);
+            assert.isUndefined(new BufferOptions().bom);
+        });
+
+        it("should throw an error if the specified options object contains" +
+           " invalid options", () => {
+            assert.throws(() => new BufferOptions(<any> {bom: null}));
+            assert.throws(() => new BufferOptions(<any> {pretty: null}));
+        });
+    });
+
+    describe("#CanonicalOptions", () => {
+        it("should return the specified options object if all options are" +
+           " specified and valid", () => {
+            const options = {
+                exclusive: true,
+                inclusiveNamespaces: ["#default", "ds"],
+                withComments: true
+            };
+            assert.deepEqual(new CanonicalOptions(options), options);
+        });
+
+        it("should throw an error if the specified options object contains" +
+           " invalid options", () => {
+            const options: any = {
+                withComments: "true"
+            };
+            assert.throws(() => new CanonicalOptions(options));
+            assert.throws(() => new CanonicalOptions(<any> "test"));
+            assert.throws(() => new CanonicalOptions(<any> {exclusive: 1}));
+            assert.throws(() => new CanonicalOptions(
+                <any> {inclusiveNamespaces: "ds"}));
+            assert.throws(() => new CanonicalOptions(
+                <any> {inclusiveNamespaces: [1]}));
+            assert.throws(() => new CanonicalOptions(
+                {inclusiveNamespaces: ["a:b"]}));
+            assert.throws(() => new CanonicalOptions(
+                {inclusiveNamespaces: ["#all"]}));
+        });
+
+        it("should return a validated version of the specified options with" +
+           " undefined values replaced with appropriate defaults if not all" +
+           " options are specified", () => {
+            const options = {};
+            assert.deepEqual(new CanonicalOptions(options), {
+                exclusive: false,
+                inclusiveNamespaces: [],
+                withComments: false
+            });
+        });
+    });
+
     describe("#DeclarationOptions", () => {
         it("should return the specified options object if all options are" +
            " specified and valid", () => {
@@ -71,22 +177,256 @@ describe("options", () => {
         });
     });
 
+    describe("#EmptyElementOptions", () => {
+        it("should return the specified options object if all options are" +
+           " specified and valid", () => {
+            let options = {
+                overrides: ["br", "hr"],
+                policy: <"expand"> "expand",
+                spaceBeforeSlash: true
+            };
+            assert.deepEqual(new EmptyElementOptions(options), options);
+
+            const predicate = (name: string) => name === "script";
+            assert.strictEqual(
+                new EmptyElementOptions({overrides: predicate}).overrides,
+                predicate);
+        });
+
+        it("should throw an error if the specified options object contains" +
+           " invalid options", () => {
+            assert.throws(() => new EmptyElementOptions(<any> "test"));
+            assert.throws(() => new EmptyElementOptions(
+                <any> {overrides: "br"}));
+            assert.throws(() => new EmptyElementOptions(
+                <any> {overrides: [1]}));
+            assert.throws(() => new EmptyElementOptions({overrides: ["1"]}));
+            assert.throws(() => new EmptyElementOptions(
+                <any> {policy: "collapse"}));
+            assert.throws(() => new EmptyElementOptions(
+                <any> {spaceBeforeSlash: 1}));
+        });
+
+        it("should return a validated version of the specified options with" +
+           " undefined values replaced with appropriate defaults if not all" +
+           " options are specified", () => {
+            assert.deepEqual(new EmptyElementOptions(), {
+                overrides: [],
+                policy: "selfClose",
+                spaceBeforeSlash: false
+            });
+        });
+    });
+
+    describe("#EscapingOptions", () => {
+        it("should return the specified options object if all options are" +
+           " specified and valid", () => {
+            const options = {
+                attributeWhitespace: true,
+                greaterThan: <"always"> "always",
+                map: {"\u00a0": "&#160;", "\ud83d\ude00": "&#x1F600;"},
+                maxCodePoint: 0x7F
+            };
+            assert.deepEqual(new EscapingOptions(options), options);
+        });
+
+        it("should throw an error if the specified options object contains" +
+           " invalid options", () => {
+            assert.throws(() => new EscapingOptions(<any> "test"));
+            assert.throws(() => new EscapingOptions(
+                <any> {attributeWhitespace: 1}));
+            assert.throws(() => new EscapingOptions(
+                <any> {greaterThan: "never"}));
+            assert.throws(() => new EscapingOptions(<any> {map: "a"}));
+            assert.throws(() => new EscapingOptions({map: {ab: "c"}}));
+            assert.throws(() => new EscapingOptions({map: {"": "c"}}));
+            assert.throws(() => new EscapingOptions(<any> {map: {a: 1}}));
+            assert.throws(() => new EscapingOptions({map: {a: "<"}}));
+            assert.throws(() => new EscapingOptions({map: {a: "&#;"}}));
+            assert.throws(() => new EscapingOptions({map: {a: "&b c;"}}));
+            assert.throws(() => new EscapingOptions({maxCodePoint: 1.5}));
+            assert.throws(() => new EscapingOptions({maxCodePoint: 0x7E}));
+        });
+
+        it("should return a validated version of the specified options with" +
+           " undefined values replaced with appropriate defaults if not all" +
+           " options are specified", () => {
+            assert.deepEqual(new EscapingOptions({}), {
+                attributeWhitespace: false,
+                greaterThan: "afterBrackets",
+                map: {},
+                maxCodePoint: 0x10FFFF
+            });
+        });
+    });
+
+    describe("#MinifyOptions", () => {
+        it("should return the specified options object if all options are" +
+           " specified and valid", () => {
+            let options = {
+                comments: false,
+                declaration: false,
+                procInsts: ["xml-stylesheet"],
+                quotes: false,
+                whitespace: false
+            };
+            assert.deepEqual(new MinifyOptions(options), options);
+
+            const predicate = (target: string) => target !== "xml-stylesheet";
+            assert.strictEqual(
+                new MinifyOptions({procInsts: predicate}).procInsts,
+                predicate);
+        });
+
+        it("should throw an error if the specified options object contains" +
+           " invalid options", () => {
+            assert.throws(() => new MinifyOptions(<any> "test"));
+            assert.throws(() => new MinifyOptions(<any> {comments: 1}));
+            assert.throws(() => new MinifyOptions(<any> {declaration: 1}));
+            assert.throws(() => new MinifyOptions(<any> {procInsts: "a"}));
+            assert.throws(() => new MinifyOptions(<any> {procInsts: [1]}));
+            assert.throws(() => new MinifyOptions(<any> {quotes: null}));
+            assert.throws(() => new MinifyOptions(<any> {whitespace: "a"}));
+        });
+
+        it("should return a validated version of the specified options with" +
+           " undefined values replaced with appropriate defaults if not all" +
+           " options are specified", () => {
+            assert.deepEqual(new MinifyOptions(), {
+                comments: true,
+                declaration: true,
+                procInsts: [],
+                quotes: true,
+                whitespace: true
+            });
+        });
+    });
+
+    describe("#NamespaceOptions", () => {
+        it("should return the specified options object if all options are" +
+           " specified and valid", () => {
+            const options = {
+                hoist: false,
+                removeUnused: false,
+                renamePrefixes: {
+                    svg: "http://www.w3.org/2000/svg",
+                    xml: "http://www.w3.org/XML/1998/namespace"
+                }
+            };
+            assert.deepEqual(new NamespaceOptions(options), options);
+        });
+
+        it("should throw an error if the specified options object contains" +
+           " invalid options", () => {
+            assert.throws(() => new NamespaceOptions(<any> "test"));
+            assert.throws(() => new NamespaceOptions(<any> {hoist: 1}));
+            assert.throws(() => new NamespaceOptions(
+                <any> {removeUnused: "true"}));
+            assert.throws(() => new NamespaceOptions(
+                <any> {renamePrefixes: "a"}));
+            assert.throws(() => new NamespaceOptions(
+                <any> {renamePrefixes: {a: 1}}));
+            assert.throws(() => new NamespaceOptions(
+                {renamePrefixes: {"a:b": "http://a"}}));
+            assert.throws(() => new NamespaceOptions(
+                {renamePrefixes: {xmlns: "http://a"}}));
+            assert.throws(() => new NamespaceOptions(
+                {renamePrefixes: {xml: "http://a"}}));
+            assert.throws(() => new NamespaceOptions(
+                {renamePrefixes: {a: ""}}));
+            assert.throws(() => new NamespaceOptions(
+                {renamePrefixes: {a: "http://a", b: "http://a"}}));
+        });
+
+        it("should return a validated version of the specified options with" +
+           " undefined values replaced with appropriate defaults if not all" +
+           " options are specified", () => {
+            assert.deepEqual(new NamespaceOptions({}), {
+                hoist: true,
+                removeUnused: true,
+                renamePrefixes: {}
+            });
+        });
+    });
+
     describe("#StringOptions", () => {
         it("should return the specified options object if all options are" +
            " specified and valid", () => {
             let options = {
+                attributeLayout: {
+                    bracketOnNewLine: false,
+                    continuation: <"align" | "indent"> "align",
+                    maxAttributes: 2,
+                    maxWidth: 120
+                },
+                attributeOrder: <AttributeOrder> "alphabetical",
                 doubleQuotes: false,
+                emptyElements: {
+                    overrides: ["br"],
+                    policy: <"expand" | "selfClose"> "expand",
+                    spaceBeforeSlash: true
+                },
+                escaping: {
+                    attributeWhitespace: false,
+                    greaterThan: <"always"> "always",
+                    map: {},
+                    maxCodePoint: 0x7F
+                },
                 indent: "    ",
+                inlineElements: <string[] | ((name: string) => boolean)> [
+                    "b"
+                ],
+                minify: {
+                    comments: false,
+                    declaration: false,
+                    procInsts: <string[] | ((target: string) => boolean)> [],
+                    quotes: false,
+                    whitespace: false
+                },
+                mixedContent: true,
                 newline: "\n",
-                pretty: true
+                preserve: false,
+                pretty: true,
+                visitor: <IVisitor> {},
+                whitespaceSensitive: ["pre"]
             };
             assert.deepEqual(new StringOptions(options), options);
 
             options = {
+                attributeLayout: {
+                    bracketOnNewLine: true,
+                    continuation: <"align" | "indent"> "indent",
+                    maxAttributes: 0,
+                    maxWidth: 80
+                },
+                attributeOrder: (a: XmlAttribute, b: XmlAttribute) => 0,
                 doubleQuotes: true,
+                emptyElements: {
+                    overrides: [],
+                    policy: <"expand" | "selfClose"> "selfClose",
+                    spaceBeforeSlash: false
+                },
+                escaping: {
+                    attributeWhitespace: true,
+                    greaterThan: <"always"> "always",
+                    map: {"\u00a0": "&#160;"},
+                    maxCodePoint: 0x10FFFF
+                },
                 indent: "\t",
+                inlineElements: (name: string) => name === "b",
+                minify: {
+                    comments: true,
+                    declaration: true,
+                    procInsts: (target: string) => target === "a",
+                    quotes: true,
+                    whitespace: true
+                },
+                mixedContent: false,
                 newline: "\r\n",
-                pretty: false
+                preserve: true,
+                pretty: false,
+                visitor: {visitText: (node: XmlText) => node.text},
+                whitespaceSensitive: []
             };
             assert.deepEqual(new StringOptions(options), options);
         });
@@ -94,24 +434,109 @@ describe("options", () => {
         it("should throw an error if the specified options object contains" +
            " invalid options", () => {
             let options: any = {
+                attributeLayout: null
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                attributeLayout: {maxWidth: 0}
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                attributeOrder: "reverse"
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
                 doubleQuotes: null
             };
             assert.throws(() => new StringOptions(options));
 
+            options = {
+                emptyElements: {policy: "expand", spaceBeforeSlash: 1}
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                escaping: null
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                escaping: {maxCodePoint: 0}
+            };
+            assert.throws(() => new StringOptions(options));
+
             options = {
                 indent: null
             };
             assert.throws(() => new StringOptions(options));
 
+            options = {
+                inlineElements: "b"
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                inlineElements: ["1"]
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                minify: null
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                minify: {procInsts: "a"}
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                mixedContent: 1
+            };
+            assert.throws(() => new StringOptions(options));
+
             options = {
                 newline: null
             };
             assert.throws(() => new StringOptions(options));
 
+            options = {
+                preserve: null
+            };
+            assert.throws(() => new StringOptions(options));
+
             options = {
                 pretty: null
             };
             assert.throws(() => new StringOptions(options));
+
+            options = {
+                visitor: null
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                visitor: {visitText: "text"}
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                whitespaceSensitive: "pre"
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                whitespaceSensitive: [null]
+            };
+            assert.throws(() => new StringOptions(options));
+
+            options = {
+                whitespaceSensitive: ["1"]
+            };
+            assert.throws(() => new StringOptions(options));
         });
 
         it("should return a validated version of the specified options with" +
@@ -119,11 +544,62 @@ describe("options", () => {
            " options are specified", () => {
             const options = {};
             assert.deepEqual(new StringOptions(options), {
+                attributeLayout: {
+                    bracketOnNewLine: false,
+                    continuation: "align"
+                },
+                attributeOrder: "insertion",
                 doubleQuotes: false,
+                emptyElements: {
+                    overrides: [],
+                    policy: "selfClose",
+                    spaceBeforeSlash: false
+                },
+                escaping: {
+                    attributeWhitespace: false,
+                    greaterThan: "afterBrackets",
+                    map: {},
+                    maxCodePoint: 0x10FFFF
+                },
                 indent: "    ",
+                inlineElements: [],
+                mixedContent: false,
                 newline: "\n",
-                pretty: true
+                preserve: false,
+                pretty: true,
+                whitespaceSensitive: []
             });
         });
+
+        it("should disable pretty-printing by default when minifying", () => {
+            assert.isFalse(new StringOptions({minify: {}}).pretty);
+            assert.isTrue(new StringOptions({minify: {}, pretty: true}).pretty);
+        });
+    });
+
+    describe("#ParseOptions", () => {
+        it("should return the specified options object if all options are" +
+           " specified and valid", () => {
+            const options = {
+                preserve: true
+            };
+            assert.deepEqual(new ParseOptions(options), options);
+        });
+
+        it("should throw an error if the specified options object contains" +
+           " invalid options", () => {
+            const options: any = {
+                preserve: null
+            };
+            assert.throws(() => new ParseOptions(options));
+            assert.throws(() => new ParseOptions(<any> "test"));
+        });
+
+        it("should return a validated version of the specified options with" +
+           " undefined values replaced with appropriate defaults if not all" +
+           " options are specified", () => {
+            const options = {};
+            assert.deepEqual(new ParseOptions(options), {preserve: false});
+        });
     });
 });
@@ -0,0 +1,398 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    XmlAttribute,
+    XmlCdata,
+    XmlCharRef,
+    XmlComment,
+    XmlDecl,
+    XmlDtd,
+    XmlDtdAttlist,
+    XmlDtdElement,
+    XmlDtdEntity,
+    XmlDtdNotation,
+    XmlDtdParamEntityRef,
+    XmlElement,
+    XmlEntityRef,
+    XmlProcInst,
+    XmlText
+} from "../../lib/main";
+import {parseDocument, parseFragment} from "../../lib/parse";
+import {assert} from "chai";
+
+describe("parse", () => {
+    describe("#parseDocument", () => {
+        it("should parse a document consisting only of a root element", () => {
+            let document = parseDocument("<root/>");
+            assert.strictEqual(document.root().name, "root");
+            assert.strictEqual(document.children().length, 1);
+            assert.strictEqual(document.toString(), "<root/>");
+        });
+
+        it("should parse the XML declaration", () => {
+            let document = parseDocument("<?xml version=\"1.0\""
+                                         + " encoding='UTF-8'"
+                                         + " standalone=\"yes\" ?><root/>");
+            let decl = <XmlDecl> document.children()[0];
+            assert.instanceOf(decl, XmlDecl);
+            assert.strictEqual(decl.version, "1.0");
+            assert.strictEqual(decl.encoding, "UTF-8");
+            assert.strictEqual(decl.standalone, "yes");
+        });
+
+        it("should parse comments and processing instructions before and"
+           + " after the root element", () => {
+            let document = parseDocument("<?xml version='1.0'?>\n"
+                                         + "<!--a-->\n<?b c?>\n<root/>\n"
+                                         + "<!--d-->\n<?e?>\n");
+            let children = document.children();
+            assert.instanceOf(children[0], XmlDecl);
+            assert.instanceOf(children[1], XmlComment);
+            assert.instanceOf(children[2], XmlProcInst);
+            assert.instanceOf(children[3], XmlElement);
+            assert.instanceOf(children[4], XmlComment);
+            assert.instanceOf(children[5], XmlProcInst);
+            assert.strictEqual(document.toString(),
+                               "<?xml version='1.0'?>\n<!--a-->\n<?b c?>\n"
+                               + "<root/>\n<!--d-->\n<?e?>");
+        });
+
+        it("should parse the document type declaration and its internal"
+           + " subset", () => {
+            let document = parseDocument(
+                "<!DOCTYPE root PUBLIC \"-//A//B//EN\" \"c.dtd\" [\n"
+                + "    <!ELEMENT root (#PCDATA)>\n"
+                + "    <!ATTLIST root a CDATA \"x>y\">\n"
+                + "    <!ENTITY ent 'value'>\n"
+                + "    <!NOTATION not SYSTEM 'not'>\n"
+                + "    %param;\n"
+                + "    <!--comment-->\n"
+                + "    <?pi?>\n"
+                + "]>\n"
+                + "<root/>");
+            let dtd = <XmlDtd> document.children()[0];
+            assert.instanceOf(dtd, XmlDtd);
+            assert.strictEqual(dtd.name, "root");
+            assert.strictEqual(dtd.pubId, "-//A//B//EN");
+            assert.strictEqual(dtd.sysId, "c.dtd");
+
+            let children = dtd.children();
+            assert.instanceOf(children[0], XmlDtdElement);
+            assert.strictEqual((<XmlDtdElement> children[0]).text,
+                               "root (#PCDATA)");
+            assert.instanceOf(children[1], XmlDtdAttlist);
+            assert.strictEqual((<XmlDtdAttlist> children[1]).text,
+                               "root a CDATA \"x>y\"");
+            assert.instanceOf(children[2], XmlDtdEntity);
+            assert.instanceOf(children[3], XmlDtdNotation);
+            assert.instanceOf(children[4], XmlDtdParamEntityRef);
+            assert.instanceOf(children[5], XmlComment);
+            assert.instanceOf(children[6], XmlProcInst);
+
+            document = parseDocument("<!DOCTYPE root SYSTEM 'a.dtd'><root/>");
+            dtd = <XmlDtd> document.children()[0];
+            assert.strictEqual(dtd.sysId, "a.dtd");
+            assert.isUndefined(dtd.pubId);
+        });
+
+        it("should parse attributes, including references in attribute"
+           + " values", () => {
+            let document = parseDocument("<root a=\"1\" b = 'x&amp;&#x41;"
+                                         + "&ent;y' c=''/>");
+            let attributes = document.root().attributes();
+            assert.strictEqual(attributes.length, 3);
+            assert.strictEqual(attributes[0].name, "a");
+            assert.strictEqual(attributes[0].toString(), "a='1'");
+
+            let value = attributes[1].children();
+            assert.strictEqual(value.length, 4);
+            assert.strictEqual((<XmlText> value[0]).text, "x&");
+            assert.instanceOf(value[1], XmlCharRef);
+            assert.strictEqual((<XmlCharRef> value[1]).char, "A");
+            assert.isTrue((<XmlCharRef> value[1]).hex);
+            assert.instanceOf(value[2], XmlEntityRef);
+            assert.strictEqual((<XmlEntityRef> value[2]).entity, "ent");
+            assert.strictEqual((<XmlText> value[3]).text, "y");
+
+            assert.strictEqual(attributes[2].toString(), "c=''");
+        });
+
+        it("should normalize whitespace in attribute values", () => {
+            let document = parseDocument("<root a='b\tc\r\nd\ne'/>");
+            let attribute = <XmlAttribute> document.root().children()[0];
+            assert.strictEqual((<XmlText> attribute.children()[0]).text,
+                               "b c d e");
+        });
+
+        it("should parse element content", () => {
+            let document = parseDocument(
+                "<root>a&lt;b<child>&#98;</child><![CDATA[<c>]]>"
+                + "<!--d--><?e f?>&g;</root>");
+            let children = document.root().children();
+            assert.strictEqual((<XmlText> children[0]).text, "a<b");
+            assert.instanceOf(children[1], XmlElement);
+            assert.instanceOf((<XmlElement> children[1]).children()[0],
+                              XmlCharRef);
+            assert.instanceOf(children[2], XmlCdata);
+            assert.strictEqual((<XmlCdata> children[2]).data, "<c>");
+            assert.instanceOf(children[3], XmlComment);
+            assert.instanceOf(children[4], XmlProcInst);
+            assert.strictEqual((<XmlProcInst> children[4]).content, "f");
+            assert.instanceOf(children[5], XmlEntityRef);
+        });
+
+        it("should normalize line breaks in character data", () => {
+            let document = parseDocument("<root>a\r\nb\rc</root>");
+            assert.strictEqual(
+                (<XmlText> document.root().children()[0]).text, "a\nb\nc");
+        });
+
+        it("should apply the rules of XML 1.1 if specified by the XML"
+           + " declaration", () => {
+            let document = parseDocument(
+                "<?xml version='1.1'?><root a='1\u00852'>&#x1;\r\u0085b"
+                + "\u2028c</root>");
+            let root = document.root();
+            assert.strictEqual(root.attributes()[0].toString(), "a='1 2'");
+            assert.strictEqual(root.toString(),
+                               "<root a='1 2'>&#x1;\nb\nc</root>");
+
+            assert.throws(() => parseDocument("<root>&#x1;</root>"));
+            assert.throws(() => parseDocument(
+                "<?xml version='1.1'?><root><!--\u0080--></root>"));
+        });
+
+        it("should produce a tree that serializes to equivalent XML", () => {
+            let xml = "<?xml version='1.0' encoding='UTF-8'?>\n"
+                      + "<root a='b'>\n"
+                      + "    <child/>\n"
+                      + "    <child c='d'>text</child>\n"
+                      + "</root>";
+            let document = parseDocument(xml);
+            assert.strictEqual(document.toString({pretty: false}),
+                               xml.replace("?>\n", "?>"));
+        });
+
+        it("should reproduce the original string when formatting is"
+           + " preserved", () => {
+            let xml = "<?xml version = \"1.0\"  encoding='UTF-8' ?>\r\n"
+                      + "<!DOCTYPE  root SYSTEM 'root.dtd' [\r\n"
+                      + "  <!ENTITY  ent \"value\">\r\n"
+                      + "  %param;\r\n"
+                      + "] >\r\n"
+                      + "<!-- comment\r\n-->\r\n"
+                      + "<root\r\n    a=\"1\"\tb = 'x\ty' >\r\n"
+                      + "  <empty></empty>\r\n"
+                      + "  <self  />\r\n"
+                      + "  <text>&#x00E9;&#233;&gt;&quot;&apos;&amp;&lt;"
+                      + "&ent;</text >\r\n"
+                      + "  <?pi   data?><![CDATA[\r\n]]>\r\n"
+                      + "</root>\r\n"
+                      + "<?after?>\r\n";
+            let document = parseDocument(xml, {preserve: true});
+            assert.strictEqual(document.toString({preserve: true}), xml);
+            assert.strictEqual(document.toString({preserve: true,
+                                                  pretty: false}), xml);
+
+            let root = document.root();
+            let attribute = root.attributes()[1];
+            assert.deepEqual(attribute.format,
+                             {before: "\t", equals: " = ", quote: "'"});
+            assert.strictEqual((<XmlText> attribute.children()[0]).text,
+                               "x\ty");
+        });
+
+        it("should format new and modified nodes using the specified options"
+           + " when formatting is preserved", () => {
+            let document = parseDocument("<root a=\"1\">\n  <b/>\n</root>",
+                                         {preserve: true});
+            let root = document.root();
+            root.attribute("c", "2");
+            root.element("d");
+            (<XmlElement> root.children()[2]).text("e");
+            assert.strictEqual(document.toString({preserve: true}),
+                               "<root a=\"1\" c='2'>\n  <b>e</b>\n"
+                               + "<d/></root>");
+        });
+
+        it("should not record formatting when formatting is not"
+           + " preserved", () => {
+            let document = parseDocument("<root a='1'>&#xe9;</root>");
+            assert.isUndefined(document.format);
+            assert.isUndefined(document.root().format);
+            assert.isUndefined(document.root().attributes()[0].format);
+            assert.isUndefined(
+                (<XmlCharRef> document.root().children()[1]).format);
+        });
+
+        it("should ignore a leading byte order mark", () => {
+            let document = parseDocument("\uFEFF<root/>");
+            assert.strictEqual(document.root().name, "root");
+        });
+
+        it("should reproduce the whitespace after targets and keywords and a"
+           + " leading byte order mark when formatting is preserved", () => {
+            let xml = "\uFEFF<!DOCTYPE a [<!ELEMENT\na ANY>"
+                      + "<!ATTLIST\ta b CDATA #IMPLIED><?pi\r\n data?>]>"
+                      + "<a><?pi\n\tdata?></a>";
+            let document = parseDocument(xml, {preserve: true});
+            assert.strictEqual(document.toString({preserve: true}), xml);
+            assert.isTrue(document.format && document.format.bom);
+
+            let procInst = <XmlProcInst> document.root().children()[0];
+            assert.strictEqual(procInst.content, "data");
+            assert.deepEqual(procInst.format, {separator: "\n\t"});
+            assert.strictEqual(parseDocument(xml).toString({pretty: false}),
+                               "<!DOCTYPE a [<!ELEMENT a ANY>"
+                               + "<!ATTLIST a b CDATA #IMPLIED><?pi data?>]>"
+                               + "<a><?pi data?></a>");
+        });
+
+        it("should record the location of each parsed node", () => {
+            let document = parseDocument("<?xml version='1.0'?>\r\n"
+                                         + "<!DOCTYPE root [\n"
+                                         + "  <!ENTITY a 'b'>\n"
+                                         + "]>\n"
+                                         + "<root x='1&amp;2&#51;'>\n"
+                                         + "  <a>text&a;</a><!--c-->\r"
+                                         + "<![CDATA[d]]><?e f?>\n"
+                                         + "</root>\n");
+            assert.deepEqual(document.location,
+                             {column: 1, endOffset: 139, line: 1, offset: 0});
+            let children = document.children();
+            assert.deepEqual(children[0].location,
+                             {column: 1, endOffset: 21, line: 1, offset: 0});
+            assert.deepEqual(children[1].location,
+                             {column: 1, endOffset: 60, line: 2, offset: 23});
+            assert.deepEqual(children[1].children()[0].location,
+                             {column: 3, endOffset: 57, line: 3, offset: 42});
+
+            let root = document.root();
+            assert.deepEqual(root.location,
+                             {column: 1, endOffset: 138, line: 5, offset: 61});
+            let attribute = root.attributes()[0];
+            assert.deepEqual(attribute.location,
+                             {column: 7, endOffset: 83, line: 5, offset: 67});
+            let value = attribute.children();
+            assert.deepEqual(value[0].location,
+                             {column: 10, endOffset: 77, line: 5, offset: 70});
+            assert.deepEqual(value[1].location,
+                             {column: 17, endOffset: 82, line: 5, offset: 77});
+
+            let content = root.children().slice(1);
+            let locations = [
+                {column: 24, endOffset: 87, line: 5, offset: 84},
+                {column: 3, endOffset: 101, line: 6, offset: 87},
+                {column: 17, endOffset: 109, line: 6, offset: 101},
+                {column: 25, endOffset: 110, line: 6, offset: 109},
+                {column: 1, endOffset: 123, line: 7, offset: 110},
+                {column: 14, endOffset: 130, line: 7, offset: 123},
+                {column: 21, endOffset: 131, line: 7, offset: 130}
+            ];
+            assert.strictEqual(content.length, locations.length);
+            for (let i = 0; i < content.length; i++) {
+                assert.deepEqual(content[i].location, locations[i]);
+            }
+            assert.deepEqual(content[1].children()[0].location,
+                             {column: 6, endOffset: 94, line: 6, offset: 90});
+            assert.deepEqual(content[1].children()[1].location,
+                             {column: 10, endOffset: 97, line: 6, offset: 94});
+        });
+
+        it("should not record a location for nodes that were not"
+           + " parsed", () => {
+            let document = parseDocument("<root/>");
+            assert.isUndefined(document.root().element("a").location);
+        });
+
+        it("should throw an error if the specified value is not a"
+           + " string", () => {
+            assert.throws(() => parseDocument(<any> undefined));
+            assert.throws(() => parseDocument(<any> 3));
+        });
+
+        it("should throw an error containing the line and column if the"
+           + " document is not well-formed", () => {
+            assert.throws(() => parseDocument(""), /line 1, column 1/);
+            assert.throws(() => parseDocument("<root>\n  <a></b>\n</root>"),
+                          /line 2, column 6/);
+            assert.throws(() => parseDocument("<root>\n<a>"),
+                          /line 2, column 4/);
+            assert.throws(() => parseDocument("<root/><root/>"),
+                          /line 1, column 8/);
+            assert.throws(() => parseDocument("text<root/>"),
+                          /line 1, column 1/);
+            assert.throws(() => parseDocument("<root a='1' a='2'/>"),
+                          /line 1, column 13/);
+            assert.throws(() => parseDocument("<root a='<'/>"));
+            assert.throws(() => parseDocument("<root a=b/>"));
+            assert.throws(() => parseDocument("<root a='b'c='d'/>"));
+            assert.throws(() => parseDocument("<root>]]></root>"));
+            assert.throws(() => parseDocument("<root><!--a--b--></root>"));
+            assert.throws(() => parseDocument("<root>&#0;</root>"));
+            assert.throws(() => parseDocument("<root>&a</root>"));
+            assert.throws(() => parseDocument("<root><?xml?></root>"));
+            assert.throws(() => parseDocument("<1root/>"));
+            assert.throws(() => parseDocument("<root/><!DOCTYPE root>"));
+            assert.throws(() => parseDocument("<!DOCTYPE a><!DOCTYPE a>"
+                                              + "<root/>"));
+            assert.throws(() => parseDocument("<?xml encoding='UTF-8'?>"
+                                              + "<root/>"));
+        });
+    });
+
+    describe("#parseFragment", () => {
+        it("should parse mixed content into an array of nodes without a"
+           + " parent", () => {
+            let nodes = parseFragment("<b>hi</b> &amp; <i>there</i>");
+            assert.strictEqual(nodes.length, 3);
+            assert.instanceOf(nodes[0], XmlElement);
+            assert.strictEqual((<XmlElement> nodes[0]).name, "b");
+            assert.instanceOf(nodes[1], XmlText);
+            assert.strictEqual((<XmlText> nodes[1]).text, " & ");
+            assert.instanceOf(nodes[2], XmlElement);
+            for (let node of nodes) {
+                assert.isUndefined(node.parent);
+            }
+
+            nodes = parseFragment("a<![CDATA[b]]><!--c--><?d?>&e;&#102;");
+            assert.strictEqual(nodes.length, 6);
+            assert.strictEqual(parseFragment("").length, 0);
+        });
+
+        it("should record the location of each parsed node", () => {
+            let nodes = parseFragment("a\n<b c=''/>");
+            assert.deepEqual(nodes[0].location,
+                             {column: 1, endOffset: 2, line: 1, offset: 0});
+            assert.deepEqual(nodes[1].location,
+                             {column: 1, endOffset: 11, line: 2, offset: 2});
+            let value = (<XmlElement> nodes[1]).attributes()[0].children();
+            assert.deepEqual(value[0].location,
+                             {column: 7, endOffset: 8, line: 2, offset: 8});
+        });
+
+        it("should throw an error containing the line and column if the"
+           + " fragment is not well-formed", () => {
+            assert.throws(() => parseFragment(<any> undefined));
+            assert.throws(() => parseFragment("a\n</b>"),
+                          /line 2, column 1/);
+            assert.throws(() => parseFragment("<b>"), /line 1, column 4/);
+            assert.throws(() => parseFragment("<?xml version='1.0'?>"));
+            assert.throws(() => parseFragment("<!DOCTYPE a>"));
+        });
+    });
+});
@@ -0,0 +1,271 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {XmlElement, XmlEntityRef} from "../../lib/main";
+import XmlReader, {ReaderEvent} from "../../lib/reader";
+import {assert} from "chai";
+
+let readAll = (reader: XmlReader): ReaderEvent[] => {
+    let events: ReaderEvent[] = [];
+    let event = reader.read();
+    while (event !== undefined) {
+        events.push(event);
+        event = reader.read();
+    }
+    return events;
+};
+
+let summarize = (events: ReaderEvent[]): string[] => {
+    return events.map(event => {
+        switch (event.type) {
+            case "cdata":
+                return "cdata:" + event.data;
+            case "comment":
+                return "comment:" + event.content;
+            case "decl":
+                return "decl:" + event.version;
+            case "doctype":
+                return "doctype:" + event.name;
+            case "endElement":
+                return "end:" + event.name;
+            case "entityRef":
+                return "entityRef:" + event.entity;
+            case "procInst":
+                return "procInst:" + event.target;
+            case "startElement":
+                return "start:" + event.name + JSON.stringify(
+                    event.attributes);
+            default:
+                return "text:" + event.text;
+        }
+    });
+};
+
+describe("XmlReader", () => {
+    let xml = "<?xml version='1.0'?>\n"
+              + "<!DOCTYPE feed [<!ENTITY e 'f'><!-- ] > -->]>\n"
+              + "<feed a='1 &lt; 2' b=\"&#x41;&e;\">\n"
+              + "  <record id='1'>text &amp; &e;&#66;</record>\n"
+              + "  <record id='2'/><![CDATA[<x>]]><?pi content?>\n"
+              + "</feed>\n"
+              + "<!--end-->";
+    let expected = [
+        "decl:1.0",
+        "doctype:feed",
+        "start:feed{\"a\":\"1 < 2\",\"b\":\"A&e;\"}",
+        "text:\n  ",
+        "start:record{\"id\":\"1\"}",
+        "text:text & ",
+        "entityRef:e",
+        "text:B",
+        "end:record",
+        "text:\n  ",
+        "start:record{\"id\":\"2\"}",
+        "end:record",
+        "cdata:<x>",
+        "procInst:pi",
+        "text:\n",
+        "end:feed",
+        "comment:end"
+    ];
+
+    describe("#read", () => {
+        it("should return events for each construct of the document", () => {
+            let reader = new XmlReader();
+            reader.end(xml);
+            assert.deepEqual(summarize(readAll(reader)), expected);
+            assert.isTrue(reader.done);
+            assert.isUndefined(reader.read());
+        });
+
+        it("should return the same events regardless of how the document is"
+           + " split into chunks", () => {
+            for (let size of [1, 2, 3, 7, 16]) {
+                let reader = new XmlReader();
+                let events: ReaderEvent[] = [];
+                for (let i = 0; i < xml.length; i += size) {
+                    reader.write(xml.substr(i, size));
+                    events = events.concat(readAll(reader));
+                    assert.isFalse(reader.done);
+                }
+                reader.end();
+                events = events.concat(readAll(reader));
+                assert.deepEqual(summarize(events), expected);
+                assert.isTrue(reader.done);
+            }
+        });
+
+        it("should parse later chunks using the version of the XML"
+           + " declaration", () => {
+            let reader = new XmlReader();
+            reader.write("<?xml version='1.1'?><a>");
+            assert.deepEqual(summarize(readAll(reader)),
+                             ["decl:1.1", "start:a{}"]);
+            reader.end("&#x1;</a>");
+            assert.deepEqual(summarize(readAll(reader)),
+                             ["text:\u0001", "end:a"]);
+        });
+
+        it("should record the location of each event", () => {
+            let reader = new XmlReader();
+            reader.write("<a>\r\n  <b x='1'/>te");
+            reader.write("xt</a>");
+            reader.end();
+            let events = readAll(reader);
+            assert.deepEqual(events[0].location,
+                             {column: 1, endOffset: 3, line: 1, offset: 0});
+            assert.deepEqual(events[2].location,
+                             {column: 3, endOffset: 17, line: 2, offset: 7});
+            assert.deepEqual(events[3].location,
+                             {column: 3, endOffset: 17, line: 2, offset: 7});
+            assert.deepEqual(events[4].location,
+                             {column: 13, endOffset: 21, line: 2, offset: 17});
+            assert.deepEqual(events[5].location,
+                             {column: 17, endOffset: 25, line: 2, offset: 21});
+        });
+
+        it("should decode buffers as UTF-8, including sequences split across"
+           + " chunks", () => {
+            let reader = new XmlReader();
+            let bytes = [0xEF, 0xBB, 0xBF, 0x3C, 0x61, 0x3E, 0xC3, 0xA9, 0xE2,
+                         0x82, 0xAC, 0xF0, 0x9F, 0x98, 0x80, 0x3C, 0x2F, 0x61,
+                         0x3E];
+            for (let byte of bytes) {
+                reader.write([byte]);
+            }
+            reader.end();
+            assert.deepEqual(summarize(readAll(reader)),
+                             ["start:a{}", "text:\u00e9\u20ac\ud83d\ude00",
+                              "end:a"]);
+        });
+
+        it("should throw an error containing the line and column if the"
+           + " document is not well-formed", () => {
+            let read = (str: string) => {
+                let reader = new XmlReader();
+                reader.end(str);
+                return readAll(reader);
+            };
+            assert.throws(() => read(""), /line 1, column 1/);
+            assert.throws(() => read("<a>\n  <b></c>\n</a>"),
+                          /line 2, column 6/);
+            assert.throws(() => read("<a>\n<b>"), /line 2, column 4/);
+            assert.throws(() => read("<a/><a/>"), /line 1, column 5/);
+            assert.throws(() => read("text<a/>"), /line 1, column 1/);
+            assert.throws(() => read("<a/>\n<?xml version='1.0'?>"),
+                          /line 2, column 1/);
+            assert.throws(() => read("<!DOCTYPE a><!DOCTYPE a><a/>"));
+            assert.throws(() => read("<a x='1' x='2'/>"));
+            assert.throws(() => read("<a>]]></a>"));
+            assert.throws(() => read("<a><!DOCTYPE a></a>"));
+        });
+
+        it("should throw an error if an element is being expanded", () => {
+            let reader = new XmlReader();
+            reader.write("<a><b>");
+            reader.read();
+            reader.read();
+            assert.isUndefined(reader.expand());
+            assert.throws(() => reader.read());
+        });
+    });
+
+    describe("#expand", () => {
+        it("should return the element whose start element event was just"
+           + " read", () => {
+            let reader = new XmlReader();
+            reader.end(xml);
+            let records: XmlElement[] = [];
+            let event = reader.read();
+            while (event !== undefined) {
+                if (event.type === "startElement" && event.name === "record") {
+                    records.push(<XmlElement> reader.expand());
+                }
+                event = reader.read();
+            }
+            assert.strictEqual(records.length, 2);
+            assert.strictEqual(records[0].toString(),
+                               "<record id='1'>text &amp; &e;&#66;</record>");
+            assert.instanceOf(records[0].children()[2], XmlEntityRef);
+            assert.isUndefined(records[0].parent);
+            assert.deepEqual(records[0].location,
+                             {column: 3, endOffset: 147, line: 4,
+                              offset: 104});
+            assert.strictEqual(records[1].toString(), "<record id='2'/>");
+            assert.isTrue(reader.done);
+        });
+
+        it("should wait for more input if the element is incomplete", () => {
+            let reader = new XmlReader({preserve: true});
+            reader.write("<feed><record a = \"1\">");
+            reader.read();
+            reader.read();
+            reader.write("<b>x</b");
+            assert.isUndefined(reader.expand());
+            reader.write("></record >");
+            let element = <XmlElement> reader.expand();
+            assert.strictEqual(element.toString({preserve: true}),
+                               "<record a = \"1\"><b>x</b></record >");
+            assert.isUndefined(reader.read());
+            reader.end("</feed>");
+            assert.deepEqual(summarize(readAll(reader)), ["end:feed"]);
+        });
+
+        it("should parse the element using the version of the XML"
+           + " declaration", () => {
+            let reader = new XmlReader();
+            reader.write("<?xml version='1.1'?><a>");
+            readAll(reader);
+            reader.end("<b>&#x1;</b></a>");
+            reader.read();
+            let element = <XmlElement> reader.expand();
+            assert.strictEqual(element.toString(), "<b>&#x1;</b>");
+        });
+
+        it("should throw an error if the last event read was not a start"
+           + " element event", () => {
+            let reader = new XmlReader();
+            assert.throws(() => reader.expand());
+            reader.end("<a>text</a>");
+            reader.read();
+            reader.read();
+            assert.throws(() => reader.expand());
+        });
+    });
+
+    describe("#write", () => {
+        it("should throw an error if the specified value is not a string or"
+           + " a buffer", () => {
+            let reader = new XmlReader();
+            assert.throws(() => reader.write(<any> 3));
+            assert.throws(() => reader.write(<any> undefined));
+        });
+
+        it("should throw an error if the input has ended", () => {
+            let reader = new XmlReader();
+            reader.end("<a/>");
+            assert.throws(() => reader.write("<b/>"));
+            assert.throws(() => reader.end());
+        });
+
+        it("should throw an error if a buffer is not valid UTF-8", () => {
+            assert.throws(() => new XmlReader().write([0xFF]));
+            assert.throws(() => new XmlReader().write([0xC3, 0x28]));
+            assert.throws(() => new XmlReader().write([0xE0, 0x80, 0x80]));
+            assert.throws(() => new XmlReader().end([0xC3]));
+        });
+    });
+});
@@ -0,0 +1,364 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {XmlDocument, XmlElement, XmlText} from "../../lib/main";
+import {IStringOptions, IVisitor} from "../../lib/options";
+import {Serializer, pipe} from "../../lib/serialize";
+import {assert} from "chai";
+
+let build = (): XmlDocument => {
+    let document = new XmlDocument("root");
+    document.comment("c\r\nd", 0);
+    document.dtd("root").entity("x 'y'");
+    let root = document.root();
+    root.attribute("a", "b");
+    root.text("x\r");
+    root.text("\ny");
+    let element = root.element("e");
+    element.comment("one\r\ntwo");
+    element.element("f").text("t");
+    element.charRef("a");
+    element.entityRef("g");
+    element.element("h");
+    let split = root.element("s");
+    split.text("x\r");
+    split.text("\ny");
+    root.cdata("d\r\na");
+    root.procInst("p", "q\r\nr");
+    return document;
+};
+
+let writable = (chunks: string[], accept: (chunk: string) => boolean) => {
+    let listeners: {[event: string]: Array<(err?: Error) => void>} = {};
+    let ended = false;
+    let emit = (event: string, err?: Error) => {
+        let listener = (listeners[event] || []).shift();
+        if (listener !== undefined) {
+            listener(err);
+        }
+    };
+    return {
+        drain: () => emit("drain"),
+        emit,
+        end: () => {
+            ended = true;
+        },
+        ended: () => ended,
+        listenerCount: () => Object.keys(listeners).reduce(
+            (count, event) => count + listeners[event].length, 0),
+        once: (event: string, listener: (err?: Error) => void) => {
+            assert.include(["close", "drain", "error"], event);
+            listeners[event] = (listeners[event] || []).concat(listener);
+        },
+        removeListener: (event: string, listener: (err?: Error) => void) => {
+            listeners[event] = (listeners[event] || []).filter(
+                l => l !== listener);
+        },
+        write: (chunk: string) => {
+            chunks.push(chunk);
+            return accept(chunk);
+        }
+    };
+};
+
+describe("serialize", () => {
+    describe("Serializer", () => {
+        describe("#read", () => {
+            it("should produce the XML string representation of the node in"
+               + " parts", () => {
+                let document = build();
+                let options = {indent: "\t", newline: "\r\n"};
+                let serializer = new Serializer(document, options);
+                let parts: string[] = [];
+                while (!serializer.done) {
+                    parts.push(serializer.read(1));
+                }
+                assert.isTrue(parts.length > 10);
+                assert.strictEqual(parts.join(""),
+                                   document.toString(options));
+            });
+
+            it("should indent each line of child nodes, including newlines"
+               + " split across several nodes", () => {
+                let document = build();
+                assert.strictEqual(
+                    document.toString({indent: "\t", newline: "\r\n"}),
+                    "<!DOCTYPE root [\r\n\t<!ENTITY x 'y'>\r\n]>\r\n"
+                    + "<!--c\r\nd-->\r\n"
+                    + "<root a='b'>\r\n"
+                    + "\tx\r\ny\r\n"
+                    + "\t<e>\r\n"
+                    + "\t\t<!--one\r\n\t\ttwo-->\r\n"
+                    + "\t\t<f>t</f>\r\n"
+                    + "\t\t&#97;&g;\r\n"
+                    + "\t\t<h/>\r\n"
+                    + "\t</e>\r\n"
+                    + "\t<s>x\r\n\ty</s>\r\n"
+                    + "\t<![CDATA[d\r\n\ta]]>\r\n"
+                    + "\t<?p q\r\n\tr?>\r\n"
+                    + "</root>");
+
+                let root = new XmlDocument("root").root();
+                root.element("a").text("aaa");
+                assert.strictEqual(root.toString({indent: "a", newline: "aa"}),
+                                   "<root>aaa<a>aaaa</a>aa</root>");
+                assert.strictEqual(root.toString({indent: "-", newline: ""}),
+                                   "<root>-<-a->-a-a-a-<-/-a->"
+                                   + "</root>");
+            });
+
+            it("should produce an empty string for nodes with an empty string"
+               + " representation", () => {
+                let serializer = new Serializer(new XmlText(""));
+                assert.strictEqual(serializer.read(), "");
+                assert.isTrue(serializer.done);
+            });
+        });
+    });
+
+    describe("#pipe", () => {
+        it("should write the XML string representation of the node to the"
+           + " destination and end it", () => {
+            let document = build();
+            for (let i = 0; i < 2000; i++) {
+                document.root().element("item").text("value " + i);
+            }
+            let chunks: string[] = [];
+            let destination = writable(chunks, () => true);
+            let called = false;
+            pipe(document, destination, {}, err => {
+                assert.isUndefined(err);
+                called = true;
+            });
+            assert.isTrue(called);
+            assert.isTrue(destination.ended());
+            assert.isTrue(chunks.length > 1);
+            assert.strictEqual(chunks.join(""), document.toString());
+        });
+
+        it("should wait for the destination to drain if it requests"
+           + " it", (done: MochaDone) => {
+            let document = build();
+            for (let i = 0; i < 2000; i++) {
+                document.root().element("item").text("value " + i);
+            }
+            let chunks: string[] = [];
+            let destination = writable(chunks, () => false);
+            document.pipe(destination, {pretty: false}, err => {
+                assert.isUndefined(err);
+                assert.isTrue(destination.ended());
+                assert.strictEqual(chunks.join(""),
+                                   document.toString({pretty: false}));
+                done();
+            });
+            assert.strictEqual(chunks.length, 1);
+            assert.isFalse(destination.ended());
+
+            let drain = () => {
+                if (!destination.ended()) {
+                    destination.drain();
+                    setTimeout(drain, 0);
+                }
+            };
+            setTimeout(drain, 0);
+        });
+
+        it("should destroy or end the destination if an error is thrown while"
+           + " writing to it", () => {
+            let document = new XmlDocument("root");
+            for (let i = 0; i < 2000; i++) {
+                document.root().element("item").text("value " + i);
+            }
+            document.root().procInst("last");
+            let options: IStringOptions = {
+                visitor: {visitProcInst: () => <any> 1}
+            };
+
+            let chunks: string[] = [];
+            let destroyed: Error | undefined;
+            let destination = writable(chunks, () => true);
+            let destroyable = {
+                ...destination,
+                destroy: (err: Error) => {
+                    destroyed = err;
+                }
+            };
+            let error: Error | undefined;
+            pipe(document, destroyable, options, err => {
+                assert.isDefined(destroyed);
+                error = err;
+            });
+            assert.instanceOf(error, TypeError);
+            assert.strictEqual(destroyed, error);
+            assert.isFalse(destination.ended());
+            assert.isTrue(chunks.length > 0);
+
+            destination = writable([], () => true);
+            assert.throws(() => pipe(document, destination, options),
+                          "visitor methods should return strings");
+            assert.isTrue(destination.ended());
+        });
+
+        it("should stop writing if the destination fails or is closed while"
+           + " waiting for it to drain", () => {
+            let document = new XmlDocument("root");
+            for (let i = 0; i < 2000; i++) {
+                document.root().element("item").text("value " + i);
+            }
+
+            let chunks: string[] = [];
+            let destination = writable(chunks, () => false);
+            let errors: Array<Error | undefined> = [];
+            pipe(document, destination, {}, err => errors.push(err));
+            assert.strictEqual(destination.listenerCount(), 3);
+            let failure = new Error("write failed");
+            destination.emit("error", failure);
+            destination.drain();
+            assert.deepEqual(errors, [failure]);
+            assert.strictEqual(destination.listenerCount(), 0);
+            assert.strictEqual(chunks.length, 1);
+            assert.isFalse(destination.ended());
+
+            destination = writable([], () => false);
+            errors = [];
+            pipe(document, destination, {}, err => errors.push(err));
+            destination.emit("close");
+            assert.strictEqual(errors.length, 1);
+            assert.instanceOf(errors[0], Error);
+            assert.strictEqual(destination.listenerCount(), 0);
+
+            destination = writable([], () => false);
+            pipe(document, destination);
+            destination.emit("error", failure);
+            assert.strictEqual(destination.listenerCount(), 0);
+        });
+
+        it("should throw an error if the options are invalid", () => {
+            let chunks: string[] = [];
+            assert.throws(() => pipe(build(), writable(chunks, () => true),
+                                     <any> {pretty: "true"}));
+            assert.strictEqual(chunks.length, 0);
+        });
+    });
+    describe("#visitNode", () => {
+        let visitor: IVisitor = {
+            visitCdata: (node, indent, defaultSerialize) => defaultSerialize(),
+            visitCharRef: (node, indent, defaultSerialize) => {
+                return defaultSerialize();
+            },
+            visitComment: (node, indent, defaultSerialize) => {
+                return defaultSerialize();
+            },
+            visitDecl: (node, indent, defaultSerialize) => defaultSerialize(),
+            visitDtd: (node, indent, defaultSerialize) => defaultSerialize(),
+            visitDtdEntity: (node, indent, defaultSerialize) => {
+                return defaultSerialize();
+            },
+            visitElement: (node, indent, defaultSerialize) => {
+                return defaultSerialize();
+            },
+            visitEntityRef: (node, indent, defaultSerialize) => {
+                return defaultSerialize();
+            },
+            visitProcInst: (node, indent, defaultSerialize) => {
+                return defaultSerialize();
+            },
+            visitText: (node, indent, defaultSerialize) => defaultSerialize()
+        };
+
+        it("should produce the default XML string representation if each"
+           + " visitor method returns it", () => {
+            let document = build();
+            document.decl();
+            let pre = document.root().element("pre");
+            pre.text("x\n");
+            pre.element("i").text("y\nz");
+            let options: IStringOptions[] = [
+                {},
+                {pretty: false},
+                {indent: "\t"},
+                {indent: "-", newline: ""},
+                {inlineElements: ["f"], whitespaceSensitive: ["pre"]}
+            ];
+            for (let option of options) {
+                assert.strictEqual(document.toString({...option, visitor}),
+                                   document.toString(option));
+            }
+        });
+
+        it("should produce the string returned by the visitor methods",
+           () => {
+            let document = new XmlDocument("records");
+            document.dtd("records").element("records (record*)");
+            let root = document.root();
+            let record = root.element("record");
+            record.element("name").text("a < b");
+            record.charRef("\u00e9", true);
+            root.element("record").charRef("\u00ff", true);
+            let options: IStringOptions = {
+                visitor: {
+                    visitCharRef: node => {
+                        return "&#x" + node.char.charCodeAt(0)
+                                           .toString(16)
+                                           .toUpperCase() + ";";
+                    },
+                    visitDtdElement: () => "<!ELEMENT records ANY>",
+                    visitElement: (node, indent, defaultSerialize) => {
+                        if (node.name !== "record") {
+                            return defaultSerialize();
+                        }
+                        return "<!-- record -->\n" + indent
+                               + defaultSerialize();
+                    },
+                    visitText: node => {
+                        if (node.parent instanceof XmlElement
+                            && node.parent.name === "name")
+                        {
+                            return "<![CDATA[" + node.text + "]]>";
+                        }
+                        return node.text;
+                    }
+                }
+            };
+            assert.strictEqual(document.toString(options),
+                               "<!DOCTYPE records [\n"
+                               + "    <!ELEMENT records ANY>\n"
+                               + "]>\n"
+                               + "<records>\n"
+                               + "    <!-- record -->\n"
+                               + "    <record>\n"
+                               + "        <name><![CDATA[a < b]]></name>\n"
+                               + "        &#xE9;\n"
+                               + "    </record>\n"
+                               + "    <!-- record -->\n"
+                               + "    <record>&#xFF;</record>\n"
+                               + "</records>");
+            assert.strictEqual(record.toString(options),
+                               "<record>\n"
+                               + "    <name><![CDATA[a < b]]></name>\n"
+                               + "    &#xE9;\n"
+                               + "</record>");
+        });
+
+        it("should throw an error if a visitor method does not return a"
+           + " string", () => {
+            let document = build();
+            assert.throws(() => document.toString({
+                visitor: {visitComment: () => <any> undefined}
+            }));
+        });
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {XmlElement, parse, serializeWithMap} from "../../lib/main";
+import {assert} from "chai";
+
+describe("serializeWithMap", () => {
+    let xml = "<root><a x=\"1\">text</a><!--c--><b/></root>";
+
+    it("should return the same string as toString", () => {
+        let document = parse(xml);
+        for (let options of [{}, {pretty: false}, {indent: "\t"},
+                             {newline: "\r\n"}])
+        {
+            assert.strictEqual(serializeWithMap(document, options).xml,
+                               document.toString(options));
+            assert.strictEqual(serializeWithMap(document.root(), options).xml,
+                               document.root().toString(options));
+        }
+    });
+
+    it("should map positions to the innermost node that produced them", () => {
+        let document = parse(xml);
+        let root = document.root();
+        let a = root.children()[0] as XmlElement;
+        let text = a.children()[1];
+        let comment = root.children()[1];
+        let b = root.children()[2];
+
+        let result = serializeWithMap(document);
+        assert.strictEqual(result.xml, "<root>\n"
+                                       + "    <a x='1'>text</a>\n"
+                                       + "    <!--c-->\n"
+                                       + "    <b/>\n"
+                                       + "</root>");
+        let map = result.map;
+        assert.strictEqual(map.nodeAt(1, 1), root);
+        assert.strictEqual(map.nodeAt(1, 7), root);
+        assert.strictEqual(map.nodeAt(2, 1), root);
+        assert.strictEqual(map.nodeAt(2, 5), a);
+        assert.strictEqual(map.nodeAt(2, 8), a);
+        assert.strictEqual(map.nodeAt(2, 13), a);
+        assert.strictEqual(map.nodeAt(2, 14), text);
+        assert.strictEqual(map.nodeAt(2, 17), text);
+        assert.strictEqual(map.nodeAt(2, 18), a);
+        assert.strictEqual(map.nodeAt(2, 22), root);
+        assert.strictEqual(map.nodeAt(3, 5), comment);
+        assert.strictEqual(map.nodeAt(4, 5), b);
+        assert.strictEqual(map.nodeAt(5, 1), root);
+        assert.strictEqual(map.nodeAt(5, 7), root);
+
+        result = serializeWithMap(document, {pretty: false});
+        map = result.map;
+        assert.strictEqual(map.nodeAt(1, 1), root);
+        assert.strictEqual(map.nodeAt(1, 7), a);
+        assert.strictEqual(map.nodeAt(1, 16), text);
+        assert.strictEqual(map.nodeAt(1, 24), comment);
+        assert.strictEqual(map.nodeAt(1, 32), b);
+        assert.strictEqual(map.nodeAt(1, 36), root);
+    });
+
+    it("should treat carriage returns as line endings", () => {
+        let document = parse(xml);
+        let root = document.root();
+        let map = serializeWithMap(document, {newline: "\r\n"}).map;
+        assert.strictEqual(map.nodeAt(2, 5), root.children()[0]);
+        assert.strictEqual(map.nodeAt(3, 5), root.children()[1]);
+        assert.strictEqual(map.nodeAt(1, 8), root);
+        assert.isUndefined(map.nodeAt(1, 9));
+
+        map = serializeWithMap(document, {newline: "\r"}).map;
+        assert.strictEqual(map.nodeAt(4, 5), root.children()[2]);
+    });
+
+    it("should return undefined for positions outside the string", () => {
+        let map = serializeWithMap(parse(xml)).map;
+        assert.isUndefined(map.nodeAt(1, 8));
+        assert.isUndefined(map.nodeAt(5, 8));
+        assert.isUndefined(map.nodeAt(6, 1));
+    });
+
+    it("should throw an error if the line or column is invalid", () => {
+        let map = serializeWithMap(parse(xml)).map;
+        assert.throws(() => map.nodeAt(0, 1));
+        assert.throws(() => map.nodeAt(1, 0));
+        assert.throws(() => map.nodeAt(1.5, 1));
+        assert.throws(() => map.nodeAt(1, NaN));
+    });
+});
@@ -15,9 +15,11 @@
  */
 
 import {
+    fromCodePoint,
     getCodePoint,
     isArray,
     isBoolean,
+    isFunction,
     isInteger,
     isNumber,
     isObject,
@@ -125,6 +127,20 @@ describe("utils", () => {
         });
     });
 
+    describe("#isFunction", () => {
+        it("should return true for functions", () => {
+            assert.isTrue(isFunction(() => true));
+            assert.isTrue(isFunction(isFunction));
+        });
+
+        it("should return false for values that are not functions", () => {
+            assert.isFalse(isFunction("test"));
+            assert.isFalse(isFunction({}));
+            assert.isFalse(isFunction(undefined));
+            assert.isFalse(isFunction(null));
+        });
+    });
+
     describe("#isInteger", () => {
         it("should return true if the specified value is an integer", () => {
             assert.isTrue(isInteger(3));
@@ -152,4 +168,21 @@ describe("utils", () => {
                                             + "bc", 1), 0x10437);
         });
     });
+
+    describe("#fromCodePoint", () => {
+        it("should return a string containing the character corresponding to"
+           + " the specified Unicode code point", () => {
+            assert.strictEqual(fromCodePoint(0x62), "b");
+            assert.strictEqual(fromCodePoint(0x10437),
+                               String.fromCharCode(0xd801)
+                               + String.fromCharCode(0xdc37));
+        });
+
+        it("should throw an error if the specified value is not a valid code"
+           + " point", () => {
+            assert.throws(() => fromCodePoint(-1));
+            assert.throws(() => fromCodePoint(0x110000));
+            assert.throws(() => fromCodePoint(3.3));
+        });
+    });
 });
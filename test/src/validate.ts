@@ -84,6 +84,15 @@ describe("validate", () => {
                                        String.fromCharCode(0xdbff)
                                        + String.fromCharCode(0xdc00)));
         });
+
+        it("should apply the rules of XML 1.1 if specified", () => {
+            assert.isFalse(validateChar("a\u0000b", "1.1", true));
+            assert.isFalse(validateChar("a\u0001b", "1.1"));
+            assert.isFalse(validateChar("a\u0080b", "1.1"));
+            assert.isTrue(validateChar("a\u0001\u0080b", "1.1", true));
+            assert.isTrue(validateChar("a\u0085\u00a0b", "1.1"));
+            assert.isTrue(validateChar("a\u0080b", "1.0"));
+        });
     });
 
     describe("#validateSingleChar", () => {
@@ -110,6 +119,12 @@ describe("validate", () => {
             assert.isTrue(validateSingleChar(String.fromCharCode(0xd800) +
                                              String.fromCharCode(0xdc00)));
         });
+
+        it("should apply the rules of XML 1.1 if specified", () => {
+            assert.isFalse(validateSingleChar("\u0000", "1.1"));
+            assert.isTrue(validateSingleChar("\u0001", "1.1"));
+            assert.isTrue(validateSingleChar("\u009f", "1.1"));
+        });
     });
 
     describe("#validateName", () => {
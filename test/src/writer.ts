@@ -0,0 +1,490 @@
+/**
+ * Copyright (C) 2016 Michael Kourlas
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {XmlDocument, XmlWriter} from "../../lib/main";
+import {IStringOptions} from "../../lib/options";
+import {assert} from "chai";
+
+let build = (): XmlDocument => {
+    let document = new XmlDocument("root");
+    document.decl({encoding: "UTF-8"});
+    document.dtd("root", "r.dtd");
+    document.comment("c\r\nd", 2);
+    let root = document.root();
+    root.attribute("a", "b & 'c' <d>");
+    root.text("x\r");
+    root.text("\ny");
+    let element = root.element("e");
+    element.comment("one\r\ntwo");
+    element.element("f").text("t");
+    element.text("u");
+    element.text("v");
+    element.element("h");
+    let split = root.element("s");
+    split.text("x\r");
+    split.text("\ny");
+    root.element("t").text("");
+    root.cdata("d\r\na");
+    root.procInst("p", "q\r\nr");
+    document.procInst("end");
+    return document;
+};
+
+let write = (writer: XmlWriter): XmlWriter => {
+    return writer.startDocument({encoding: "UTF-8"})
+                 .doctype("root", "r.dtd")
+                 .comment("c\r\nd")
+                 .startElement("root")
+                 .attribute("a", "b & 'c' <d>")
+                 .text("x\r")
+                 .text("\ny")
+                 .startElement("e")
+                 .comment("one\r\ntwo")
+                 .startElement("f").text("t").endElement("f")
+                 .text("u")
+                 .text("v")
+                 .startElement("h").endElement()
+                 .endElement("e")
+                 .startElement("s").text("x\r").text("\ny").endElement()
+                 .startElement("t").text("").endElement()
+                 .cdata("d\r\na")
+                 .procInst("p", "q\r\nr")
+                 .endElement("root")
+                 .procInst("end")
+                 .endDocument();
+};
+
+describe("XmlWriter", () => {
+    describe("#constructor", () => {
+        it("should throw an error if the options or sink are invalid", () => {
+            assert.throws(() => new XmlWriter(<any> {pretty: "true"}));
+            assert.throws(() => new XmlWriter({}, <any> {}));
+            assert.throws(() => new XmlWriter({}, <any> null));
+            assert.throws(() => new XmlWriter({visitor: {}}));
+        });
+    });
+
+    describe("#toString", () => {
+        it("should return the same output as the string representation of"
+           + " the equivalent tree", () => {
+            let options: IStringOptions[] = [
+                {},
+                {pretty: false},
+                {doubleQuotes: true, indent: "\t", newline: "\r\n"},
+                {indent: "a", newline: "aa"},
+                {indent: "-", newline: ""},
+                {escaping: {attributeWhitespace: true, greaterThan: "always"}},
+                {attributeLayout: {maxAttributes: 0}},
+                {emptyElements: {overrides: ["h"], policy: "expand"}},
+                {emptyElements: {spaceBeforeSlash: true}},
+                {minify: {}},
+                {minify: {comments: false, procInsts: ["p"]}, pretty: true},
+                {minify: {quotes: false, whitespace: false}},
+                {
+                    attributeLayout: {
+                        bracketOnNewLine: true,
+                        continuation: "indent",
+                        maxWidth: 8
+                    },
+                    indent: "\t"
+                }
+            ];
+            for (let option of options) {
+                assert.strictEqual(write(new XmlWriter(option)).toString(),
+                                   build().toString(option));
+            }
+        });
+
+        it("should not add whitespace to elements in which whitespace is"
+           + " significant", () => {
+            let document = new XmlDocument("a");
+            let pre = document.root().element("pre");
+            pre.text("x\n  y");
+            pre.element("b").text("c");
+            let doc = document.root().element("doc");
+            doc.attribute("xml:space", "preserve");
+            doc.element("p").element("q");
+            let def = doc.element("d");
+            def.attribute("xml:space", "default");
+            def.element("e").text("f\ng");
+            def.element("h");
+            let options: IStringOptions[] = [
+                {},
+                {whitespaceSensitive: ["pre"]},
+                {indent: "\t", whitespaceSensitive: ["b", "d"]}
+            ];
+            for (let option of options) {
+                let writer = new XmlWriter(option);
+                writer.startElement("a")
+                      .startElement("pre")
+                      .text("x\n  y")
+                      .startElement("b").text("c").endElement()
+                      .endElement()
+                      .startElement("doc").attribute("xml:space", "preserve")
+                      .startElement("p").startElement("q").endElement()
+                      .endElement()
+                      .startElement("d").attribute("xml:space", "default")
+                      .startElement("e").text("f\ng").endElement()
+                      .startElement("h")
+                      .endDocument();
+                assert.strictEqual(writer.toString(),
+                                   document.toString(option));
+            }
+        });
+
+        it("should not indent content in which whitespace is significant"
+           + " inside children held back for mixed content", () => {
+            let document = new XmlDocument("a");
+            let pre = document.root().element("div").element("pre");
+            pre.text("x\n  y\n");
+            pre.element("b").text("c\r\nd");
+            let space = document.root().element("s");
+            space.attribute("xml:space", "preserve");
+            space.text("\n");
+            space.element("t").text(" u\n");
+            document.root().element("c");
+            let options: IStringOptions[] = [
+                {mixedContent: true},
+                {mixedContent: true, whitespaceSensitive: ["pre"]},
+                {
+                    indent: "\t",
+                    inlineElements: ["pre"],
+                    mixedContent: true,
+                    newline: "\r\n",
+                    whitespaceSensitive: ["pre"]
+                }
+            ];
+            for (let option of options) {
+                let writer = new XmlWriter(option);
+                writer.startElement("a")
+                      .startElement("div")
+                      .startElement("pre")
+                      .text("x\n  y\n")
+                      .startElement("b").text("c\r\nd").endElement()
+                      .endElement()
+                      .endElement()
+                      .startElement("s").attribute("xml:space", "preserve")
+                      .text("\n")
+                      .startElement("t").text(" u\n").endElement()
+                      .endElement()
+                      .startElement("c")
+                      .endDocument();
+                assert.strictEqual(writer.toString(),
+                                   document.toString(option));
+            }
+        });
+
+        it("should keep inline elements and mixed content on the same line"
+           + " as in the equivalent tree", () => {
+            let document = new XmlDocument("section");
+            let p = document.root().element("p");
+            p.text("Hello ");
+            p.element("b").text("world");
+            p.comment("c");
+            p.text("!");
+            let list = document.root().element("list");
+            list.text(" ");
+            list.element("item").element("em").text("a");
+            list.element("em").comment("b");
+            list.element("item");
+            let options: IStringOptions[] = [
+                {},
+                {inlineElements: ["b", "em"]},
+                {mixedContent: true},
+                {inlineElements: ["em", "item"], mixedContent: true}
+            ];
+            for (let option of options) {
+                let writer = new XmlWriter(option);
+                writer.startElement("section")
+                      .startElement("p")
+                      .text("Hello ")
+                      .startElement("b").text("world").endElement()
+                      .comment("c")
+                      .text("!")
+                      .endElement()
+                      .startElement("list")
+                      .text(" ")
+                      .startElement("item")
+                      .startElement("em").text("a").endElement()
+                      .endElement()
+                      .startElement("em").comment("b").endElement()
+                      .startElement("item")
+                      .endDocument();
+                assert.strictEqual(writer.toString(),
+                                   document.toString(option));
+            }
+        });
+
+        it("should order attributes as in the equivalent tree", () => {
+            let document = new XmlDocument("a");
+            document.root().attribute("z", "1");
+            document.root().attribute("xmlns:p", "u & v");
+            document.root().attribute("xmlns", "w");
+            document.root().element("b").attribute("d", "2");
+            let options: IStringOptions[] = [
+                {attributeOrder: "alphabetical"},
+                {attributeOrder: "namespace-declarations-first", pretty: false},
+                {
+                    attributeLayout: {maxAttributes: 2},
+                    attributeOrder: (x, y) => y.name.localeCompare(x.name),
+                    doubleQuotes: true
+                }
+            ];
+            for (let option of options) {
+                let writer = new XmlWriter(option);
+                writer.startElement("a")
+                      .attribute("z", "1")
+                      .attribute("xmlns:p", "u & v")
+                      .attribute("xmlns", "w")
+                      .startElement("b").attribute("d", "2")
+                      .endDocument();
+                assert.strictEqual(writer.toString(),
+                                   document.toString(option));
+            }
+        });
+
+        it("should omit the same constructs as the equivalent tree when"
+           + " minifying", () => {
+            let document = new XmlDocument("a");
+            document.decl();
+            document.comment("c");
+            let root = document.root();
+            root.text("\n ");
+            root.element("b").attribute("q", "\"x\"");
+            root.element("pre").text(" ");
+            let space = root.element("s");
+            space.attribute("xml:space", "preserve");
+            space.text(" ");
+            space.element("t").comment("u");
+            root.procInst("v");
+            let options: IStringOptions[] = [
+                {minify: {}, whitespaceSensitive: ["pre"]},
+                {minify: {procInsts: ["v"]}, pretty: true},
+                {minify: {declaration: false, quotes: false}}
+            ];
+            for (let option of options) {
+                let writer = new XmlWriter(option);
+                writer.startDocument()
+                      .comment("c")
+                      .startElement("a")
+                      .text("\n ")
+                      .startElement("b").attribute("q", "\"x\"").endElement()
+                      .startElement("pre").text(" ").endElement()
+                      .startElement("s").attribute("xml:space", "preserve")
+                      .text(" ")
+                      .startElement("t").comment("u").endElement()
+                      .endElement()
+                      .procInst("v")
+                      .endDocument();
+                assert.strictEqual(writer.toString(),
+                                   document.toString(option));
+            }
+        });
+
+        it("should return the output written so far", () => {
+            let writer = new XmlWriter();
+            writer.startElement("a").attribute("b", "c");
+            assert.strictEqual(writer.toString(), "<a b='c'");
+            writer.startElement("d");
+            assert.strictEqual(writer.toString(), "<a b='c'>\n    <d");
+        });
+    });
+
+    describe("#endDocument", () => {
+        it("should end any open elements and the sink", () => {
+            let chunks: string[] = [];
+            let ended = false;
+            let sink = {
+                end: () => {
+                    ended = true;
+                },
+                write: (chunk: string) => {
+                    chunks.push(chunk);
+                }
+            };
+            let writer = new XmlWriter({pretty: false}, sink);
+            writer.startElement("a").startElement("b").text("c");
+            assert.strictEqual(chunks.length, 0);
+            writer.endDocument();
+            assert.deepEqual(chunks, ["<a><b>c</b></a>"]);
+            assert.isTrue(ended);
+            assert.strictEqual(writer.toString(), "");
+            assert.throws(() => writer.comment("d"));
+            assert.throws(() => writer.endDocument());
+        });
+
+        it("should throw an error if no root element was written", () => {
+            assert.throws(() => new XmlWriter().startDocument().endDocument());
+        });
+    });
+
+    describe("#flush", () => {
+        it("should write the output to the sink in chunks", () => {
+            let chunks: string[] = [];
+            let sink = {
+                write: (chunk: string) => {
+                    chunks.push(chunk);
+                }
+            };
+            let writer = new XmlWriter({}, sink);
+            let document = new XmlDocument("root");
+            writer.startElement("root");
+            for (let i = 0; i < 2000; i++) {
+                writer.startElement("item").text("value " + i).endElement();
+                document.root().element("item").text("value " + i);
+            }
+            assert.isTrue(chunks.length > 0);
+            writer.flush();
+            let length = chunks.length;
+            writer.flush();
+            assert.strictEqual(chunks.length, length);
+            writer.endDocument();
+            assert.strictEqual(chunks.join(""), document.toString());
+        });
+    });
+
+    describe("#attribute", () => {
+        it("should throw an error if an attribute is not allowed", () => {
+            let writer = new XmlWriter();
+            assert.throws(() => writer.attribute("a", "b"));
+            writer.startElement("a").attribute("b", "c");
+            assert.throws(() => writer.attribute("b", "d"));
+            writer.text("e");
+            assert.throws(() => writer.attribute("f", "g"));
+            writer.startElement("h").endElement();
+            assert.throws(() => writer.attribute("f", "g"));
+        });
+
+        it("should throw an error if the name or value is invalid", () => {
+            let writer = new XmlWriter().startElement("a");
+            assert.throws(() => writer.attribute("1", "b"));
+            assert.throws(() => writer.attribute(<any> undefined, "b"));
+            assert.throws(() => writer.attribute("b", "\u0001"));
+            assert.throws(() => writer.attribute("b", <any> 1));
+            assert.strictEqual(writer.toString(), "<a");
+        });
+    });
+
+    describe("#cdata", () => {
+        it("should throw an error if the data is invalid or outside the root"
+           + " element", () => {
+            let writer = new XmlWriter();
+            assert.throws(() => writer.cdata("a"));
+            writer.startElement("a");
+            assert.throws(() => writer.cdata("]]>"));
+            assert.throws(() => writer.cdata("\u0001"));
+        });
+    });
+
+    describe("#comment", () => {
+        it("should throw an error if the content is invalid", () => {
+            let writer = new XmlWriter();
+            assert.throws(() => writer.comment("a--b"));
+            assert.throws(() => writer.comment("a-"));
+            assert.throws(() => writer.comment(<any> 1));
+        });
+    });
+
+    describe("#doctype", () => {
+        it("should throw an error if the doctype is invalid or not in the"
+           + " prolog", () => {
+            let writer = new XmlWriter();
+            assert.throws(() => writer.doctype("1"));
+            assert.throws(() => writer.doctype("a", undefined, "b"));
+            writer.doctype("a");
+            assert.throws(() => writer.doctype("a"));
+            assert.throws(() => new XmlWriter().startElement("a")
+                                               .doctype("a"));
+            assert.throws(() => new XmlWriter({doubleQuotes: true})
+                                    .doctype("a", "\"b\""));
+        });
+    });
+
+    describe("#endElement", () => {
+        it("should throw an error if there is no element or the name does"
+           + " not match", () => {
+            let writer = new XmlWriter();
+            assert.throws(() => writer.endElement());
+            writer.startElement("a");
+            assert.throws(() => writer.endElement("b"));
+            writer.endElement("a");
+            assert.throws(() => writer.endElement());
+        });
+    });
+
+    describe("#procInst", () => {
+        it("should throw an error if the target or content is invalid", () => {
+            let writer = new XmlWriter();
+            assert.throws(() => writer.procInst("xml"));
+            assert.throws(() => writer.procInst("a", "?>"));
+            assert.throws(() => writer.procInst("a", <any> 1));
+        });
+    });
+
+    describe("#startDocument", () => {
+        it("should throw an error if anything was written before", () => {
+            assert.throws(() => new XmlWriter().comment("a").startDocument());
+            assert.throws(() => new XmlWriter().startDocument()
+                                               .startDocument());
+            assert.throws(() => new XmlWriter().startDocument(
+                {version: "2.0"}));
+        });
+
+        it("should apply the rules of XML 1.1 if specified", () => {
+            let writer = new XmlWriter({pretty: false})
+                .startDocument({version: "1.1"})
+                .startElement("a")
+                .attribute("b", "\u0001")
+                .text("\u0085");
+            assert.throws(() => writer.comment("\u0080"));
+            assert.strictEqual(writer.endDocument().toString(),
+                               "<?xml version='1.1'?><a b='&#x1;'>&#x85;</a>");
+            assert.throws(() => new XmlWriter().startElement("a")
+                                               .text("\u0001"));
+        });
+    });
+
+    describe("#startElement", () => {
+        it("should throw an error if the name is invalid or there is more"
+           + " than one root element", () => {
+            let writer = new XmlWriter();
+            assert.throws(() => writer.startElement("1"));
+            writer.startElement("a").endElement();
+            assert.throws(() => writer.startElement("b"));
+        });
+    });
+
+    describe("#text", () => {
+        it("should throw an error if the text is invalid or outside the root"
+           + " element", () => {
+            let writer = new XmlWriter();
+            assert.throws(() => writer.text("a"));
+            writer.startElement("a");
+            assert.throws(() => writer.text("\u0001"));
+            assert.throws(() => writer.text(<any> 1));
+        });
+
+        it("should escape the string ']]>' formed with the preceding text",
+           () => {
+            let writer = new XmlWriter({pretty: false});
+            writer.startElement("r").text("a]]").text(">b").text("a]")
+                  .text("]").text("]>b").startElement("e").text(">")
+                  .endElement().text(">").endElement();
+            assert.strictEqual(writer.toString(),
+                               "<r>a]]&gt;ba]]]&gt;b<e>></e>></r>");
+        });
+    });
+});